@@ -2,10 +2,14 @@ import { serve } from '@hono/node-server'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
+import { categoriesRoute } from './routes/categories'
 import { categorizeRoute } from './routes/categorize'
 import { exportRoute } from './routes/export'
 import { learnRoute } from './routes/learn'
+import { ratesRoute } from './routes/rates'
+import { rulesRoute } from './routes/rules'
 import { settingsRoute } from './routes/settings'
+import { transactionsRoute } from './routes/transactions'
 
 const app = new Hono()
 
@@ -15,7 +19,7 @@ app.use('*', cors({
   origin: process.env.NODE_ENV === 'production' 
     ? '*'  // Allow all origins in production
     : ['http://localhost:5173', 'http://localhost:3000'],
-  allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type'],
 }))
 
@@ -28,10 +32,14 @@ app.get('/api/health', (c) => {
 })
 
 // Routes - authentication handled by Cloudflare Access at edge
+app.route('/api/categories', categoriesRoute)
 app.route('/api/categorize', categorizeRoute)
 app.route('/api/export', exportRoute)
 app.route('/api/learn', learnRoute)
+app.route('/api/rates', ratesRoute)
+app.route('/api/rules', rulesRoute)
 app.route('/api/settings', settingsRoute)
+app.route('/api/transactions', transactionsRoute)
 
 // 404 handler
 app.notFound((c) => {
@@ -0,0 +1,27 @@
+import type { CategoryInput } from '../services/database'
+
+// Taxonomy the categories table is seeded with on first start, in sheet column order
+// Other, Income and Transfer are system categories: the categorizer relies on their names
+export const DEFAULT_CATEGORIES: Array<CategoryInput & { isSystem?: boolean }> = [
+  { name: 'Rent', kind: 'expense', color: '#8b5cf6', icon: 'home', description: 'rent, housing' },
+  { name: 'Eating Out', kind: 'expense', color: '#f59e0b', icon: 'utensils', description: 'restaurants, cafes, food delivery' },
+  { name: 'Personal Entertainment', kind: 'expense', color: '#ec4899', icon: 'gamepad', description: 'games, streaming, apps' },
+  { name: 'Subscriptions', kind: 'expense', color: '#a855f7', icon: 'repeat', description: 'recurring digital services' },
+  { name: 'Car', kind: 'expense', color: '#6366f1', icon: 'car', description: 'fuel, parking, car-related' },
+  { name: 'Public Transport', kind: 'expense', color: '#14b8a6', icon: 'train', description: 'trains, buses, metro' },
+  { name: 'Internet', kind: 'expense', color: '#3b82f6', icon: 'wifi', description: 'internet/phone bills' },
+  { name: 'Electricity', kind: 'expense', color: '#f97316', icon: 'zap', description: 'utility bills' },
+  { name: 'Insurance', kind: 'expense', color: '#06b6d4', icon: 'shield', description: 'all types of insurance' },
+  { name: 'Travel', kind: 'expense', color: '#84cc16', icon: 'plane', description: 'flights, hotels, vacation' },
+  { name: 'Groceries', kind: 'expense', color: '#10b981', icon: 'shopping-cart', description: 'supermarkets, food stores, drugstores' },
+  { name: 'Family', kind: 'expense', color: '#f43f5e', icon: 'users', description: 'gifts to family, family expenses' },
+  { name: 'Radio Tax', kind: 'expense', color: '#7c3aed', icon: 'radio', description: 'broadcasting fees' },
+  { name: 'Health & Wellbeing', kind: 'expense', color: '#22c55e', icon: 'heart', description: 'pharmacy, doctors, gym' },
+  { name: 'Shopping', kind: 'expense', color: '#fb7185', icon: 'shopping-bag', description: 'clothes, electronics, online shops' },
+  { name: 'Other', kind: 'expense', color: '#64748b', icon: 'tag', description: "anything that doesn't fit elsewhere", isSystem: true },
+  { name: 'Gifts', kind: 'expense', color: '#e11d48', icon: 'gift', description: 'presents, donations' },
+  { name: 'Income', kind: 'income', color: '#10b981', icon: 'wallet', description: 'salary, refunds, incoming transfers', isSystem: true },
+  { name: 'Savings', kind: 'savings', color: '#0ea5e9', icon: 'piggy-bank', description: 'savings accounts' },
+  { name: 'Investment', kind: 'investment', color: '#0284c7', icon: 'trending-up', description: 'stocks, ETFs, savings plans' },
+  { name: 'Transfer', kind: 'transfer', color: '#94a3b8', icon: 'arrow-left-right', description: 'between own accounts - internal', isSystem: true },
+]
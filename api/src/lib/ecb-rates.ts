@@ -0,0 +1,59 @@
+import type { ExchangeRate } from '../services/database'
+
+// Parser for ECB euro reference rate CSVs:
+// - eurofxref-hist.csv: "Date,USD,JPY,...," with ISO dates and "N/A" for missing rates
+// - eurofxref.csv (latest day): "Date, USD, JPY, ..." with dates like "15 March 2024"
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+function parseEcbDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+
+  const match = value.match(/^(\d{1,2}) ([A-Za-z]+) (\d{4})$/)
+  if (!match) return null
+
+  const month = MONTHS.indexOf(match[2].toLowerCase())
+  if (month < 0) return null
+  return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[1].padStart(2, '0')}`
+}
+
+export class EcbFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EcbFormatError'
+  }
+}
+
+export function parseEcbRates(csv: string): ExchangeRate[] {
+  const lines = csv.replace(/^﻿/, '').split(/\r?\n/).filter(line => line.trim())
+  if (lines.length < 2) {
+    throw new EcbFormatError('Expected a header line and at least one day of rates')
+  }
+
+  const headers = lines[0].split(',').map(h => h.trim())
+  if (headers[0] !== 'Date') {
+    throw new EcbFormatError('Not an ECB reference rate file (first column must be "Date")')
+  }
+
+  const rates: ExchangeRate[] = []
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(cell => cell.trim())
+    const date = parseEcbDate(cells[0])
+    if (!date) {
+      throw new EcbFormatError(`Unrecognized date "${cells[0]}"`)
+    }
+
+    headers.forEach((currency, index) => {
+      if (index === 0 || !/^[A-Z]{3}$/.test(currency)) return
+      const rate = parseFloat(cells[index])
+      if (rate > 0) {
+        rates.push({ date, currency, rate })
+      }
+    })
+  }
+
+  return rates
+}
@@ -0,0 +1,195 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import {
+  getCategories,
+  getCategory,
+  getCategoryByName,
+  getCategoryUsage,
+  createCategory,
+  updateCategory,
+  mergeCategory,
+  deleteCategory,
+  type Category,
+} from '../services/database'
+
+const categoriesRoute = new Hono()
+
+const CategorySchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  parentId: z.number().int().positive().nullable().optional(),
+  kind: z.enum(['expense', 'income', 'savings', 'investment', 'transfer']),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  icon: z.string().max(40).optional(),
+  description: z.string().max(200).optional(),
+  sortOrder: z.number().int().optional(),
+})
+
+const MergeSchema = z.object({
+  into: z.number().int().positive(),
+})
+
+/**
+ * Check name uniqueness and the one-level hierarchy
+ * Returns an error message, or null if the category can be saved
+ */
+function validateCategory(input: { name?: string; parentId?: number | null }, existing?: Category): string | null {
+  if (input.name !== undefined) {
+    const sameName = getCategoryByName(input.name)
+    if (sameName && sameName.id !== existing?.id) {
+      return `A category named "${sameName.name}" already exists`
+    }
+  }
+
+  if (input.parentId) {
+    const parent = getCategory(input.parentId)
+    if (!parent) return 'Parent category not found'
+    if (parent.id === existing?.id) return 'A category cannot be its own parent'
+    if (parent.parentId !== undefined) return 'Subcategories cannot have subcategories of their own'
+    if (existing && getCategories().some(c => c.parentId === existing.id)) {
+      return 'A category with subcategories cannot become a subcategory'
+    }
+  }
+
+  return null
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+// Get the taxonomy, in display order
+categoriesRoute.get('/', (c) => {
+  try {
+    return c.json({ success: true, data: getCategories() })
+  } catch (error) {
+    console.error('Failed to get categories:', error)
+    return c.json({ error: 'Failed to get categories' }, 500)
+  }
+})
+
+// Create a category (appended at the end unless sortOrder is given)
+categoriesRoute.post('/', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = CategorySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const validationError = validateCategory(parsed.data)
+    if (validationError) {
+      return c.json({ error: validationError }, 400)
+    }
+
+    const { parentId, ...fields } = parsed.data
+    const category = createCategory({ ...fields, parentId: parentId ?? undefined })
+    return c.json({ success: true, data: category })
+  } catch (error) {
+    console.error('Failed to create category:', error)
+    return c.json({ error: 'Failed to create category' }, 500)
+  }
+})
+
+// Update a category; renaming also renames it on transactions, edits, rules, learned and sheet mappings
+categoriesRoute.put('/:id', async (c) => {
+  try {
+    const id = parseId(c.req.param('id'))
+    const existing = id ? getCategory(id) : null
+    if (!existing) {
+      return c.json({ error: 'Category not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const parsed = CategorySchema.partial().safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    if (existing.isSystem && (
+      (parsed.data.name !== undefined && parsed.data.name !== existing.name) ||
+      (parsed.data.kind !== undefined && parsed.data.kind !== existing.kind)
+    )) {
+      return c.json({ error: `"${existing.name}" is a built-in category and can't be renamed or change its type` }, 400)
+    }
+
+    const validationError = validateCategory(parsed.data, existing)
+    if (validationError) {
+      return c.json({ error: validationError }, 400)
+    }
+
+    const { parentId, ...fields } = parsed.data
+    const category = updateCategory(existing.id, {
+      ...fields,
+      ...(parentId !== undefined ? { parentId: parentId ?? undefined } : {}),
+    })
+    return c.json({ success: true, data: category })
+  } catch (error) {
+    console.error('Failed to update category:', error)
+    return c.json({ error: 'Failed to update category' }, 500)
+  }
+})
+
+// Merge a category into another one; everything using it moves to the target
+categoriesRoute.post('/:id/merge', async (c) => {
+  try {
+    const id = parseId(c.req.param('id'))
+    const source = id ? getCategory(id) : null
+    if (!source) {
+      return c.json({ error: 'Category not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const parsed = MergeSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const target = getCategory(parsed.data.into)
+    if (!target) {
+      return c.json({ error: 'Target category not found' }, 404)
+    }
+    if (target.id === source.id) {
+      return c.json({ error: 'A category cannot be merged into itself' }, 400)
+    }
+    if (source.isSystem) {
+      return c.json({ error: `"${source.name}" is a built-in category and can't be merged away` }, 400)
+    }
+
+    const category = mergeCategory(source.id, target.id)
+    return c.json({ success: true, data: category })
+  } catch (error) {
+    console.error('Failed to merge category:', error)
+    return c.json({ error: 'Failed to merge category' }, 500)
+  }
+})
+
+// Delete an unused category (subcategories become top-level)
+categoriesRoute.delete('/:id', (c) => {
+  try {
+    const id = parseId(c.req.param('id'))
+    const existing = id ? getCategory(id) : null
+    if (!existing) {
+      return c.json({ error: 'Category not found' }, 404)
+    }
+    if (existing.isSystem) {
+      return c.json({ error: `"${existing.name}" is a built-in category and can't be deleted` }, 400)
+    }
+
+    const usage = getCategoryUsage(existing.name)
+    if (usage > 0) {
+      return c.json({ error: `"${existing.name}" is still in use (${usage} transactions, edits, mappings or rules) - merge it into another category instead` }, 409)
+    }
+
+    deleteCategory(existing.id)
+    return c.json({ success: true, message: `Deleted category "${existing.name}"` })
+  } catch (error) {
+    console.error('Failed to delete category:', error)
+    return c.json({ error: 'Failed to delete category' }, 500)
+  }
+})
+
+export { categoriesRoute }
@@ -4,8 +4,11 @@ import {
   saveMerchantCategory,
   getAllMerchantMappings,
   deleteMerchantMapping,
+  deleteMerchantMappings,
+  resolveMerchantCategory,
   saveBatchMappings,
   getMappingStats,
+  getCategoryByName,
 } from '../services/database'
 
 const learnRoute = new Hono()
@@ -21,6 +24,16 @@ const BatchSaveSchema = z.object({
   mappings: z.array(SaveMappingSchema),
 })
 
+// Schema for choosing a mapping's category
+const UpdateMappingSchema = z.object({
+  category: z.string().min(1),
+})
+
+// Schema for batch delete
+const BatchDeleteSchema = z.object({
+  merchants: z.array(z.string().min(1)).min(1),
+})
+
 // Get all learned mappings
 learnRoute.get('/mappings', (c) => {
   try {
@@ -94,6 +107,57 @@ learnRoute.post('/mappings/batch', async (c) => {
   }
 })
 
+// Explicitly choose a mapping's category, e.g. to resolve conflicting votes
+learnRoute.put('/mapping/:merchant', async (c) => {
+  try {
+    const merchant = decodeURIComponent(c.req.param('merchant'))
+    const body = await c.req.json()
+    const parsed = UpdateMappingSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const { category } = parsed.data
+    if (!getCategoryByName(category)) {
+      return c.json({ error: `Unknown category "${category}"` }, 400)
+    }
+    if (!resolveMerchantCategory(merchant, category)) {
+      return c.json({ error: 'Mapping not found' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      message: `Resolved: "${merchant}" → "${category}"`,
+    })
+  } catch (error) {
+    console.error('Failed to update mapping:', error)
+    return c.json({ error: 'Failed to update mapping' }, 500)
+  }
+})
+
+// Delete several mappings at once
+learnRoute.post('/mappings/delete', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = BatchDeleteSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const deleted = deleteMerchantMappings(parsed.data.merchants)
+
+    return c.json({
+      success: true,
+      message: `Deleted ${deleted} mappings`,
+    })
+  } catch (error) {
+    console.error('Failed to delete mappings:', error)
+    return c.json({ error: 'Failed to delete mappings' }, 500)
+  }
+})
+
 // Delete a mapping
 learnRoute.delete('/mapping/:merchant', (c) => {
   try {
@@ -0,0 +1,87 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import {
+  saveExchangeRates,
+  getExchangeRates,
+  getExchangeRateCoverage,
+  clearExchangeRates,
+} from '../services/database'
+import { parseEcbRates, EcbFormatError } from '../lib/ecb-rates'
+
+const ratesRoute = new Hono()
+
+const QuerySchema = z.object({
+  currencies: z.string().min(1).transform(value => value.split(',').map(c => c.trim().toUpperCase()).filter(Boolean)),
+  from: z.string().optional(),
+  to: z.string().optional(),
+})
+
+const ImportSchema = z.object({
+  csv: z.string().min(1),
+})
+
+// Get EUR reference rates for some currencies (?currencies=USD,GBP&from=2024-01-01)
+ratesRoute.get('/', (c) => {
+  try {
+    const parsed = QuerySchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid query', details: parsed.error.issues }, 400)
+    }
+
+    const { currencies, from, to } = parsed.data
+    return c.json({ success: true, data: getExchangeRates(currencies, from, to) })
+  } catch (error) {
+    console.error('Failed to get exchange rates:', error)
+    return c.json({ error: 'Failed to get exchange rates' }, 500)
+  }
+})
+
+// Which currencies and days the stored rates cover
+ratesRoute.get('/coverage', (c) => {
+  try {
+    return c.json({ success: true, data: getExchangeRateCoverage() })
+  } catch (error) {
+    console.error('Failed to get exchange rate coverage:', error)
+    return c.json({ error: 'Failed to get exchange rate coverage' }, 500)
+  }
+})
+
+// Import an ECB reference rate CSV (daily or full history)
+ratesRoute.post('/import', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = ImportSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const rates = parseEcbRates(parsed.data.csv)
+    saveExchangeRates(rates)
+
+    return c.json({
+      success: true,
+      data: { imported: rates.length, currencies: new Set(rates.map(r => r.currency)).size },
+    })
+  } catch (error) {
+    if (error instanceof EcbFormatError) {
+      return c.json({ error: error.message }, 400)
+    }
+    console.error('Failed to import exchange rates:', error)
+    return c.json({ error: 'Failed to import exchange rates' }, 500)
+  }
+})
+
+// Remove all stored rates
+ratesRoute.delete('/', (c) => {
+  try {
+    const deleted = clearExchangeRates()
+    return c.json({ success: true, data: { deleted } })
+  } catch (error) {
+    console.error('Failed to clear exchange rates:', error)
+    return c.json({ error: 'Failed to clear exchange rates' }, 500)
+  }
+})
+
+export { ratesRoute }
@@ -0,0 +1,149 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import {
+  getRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  getCategoryByName,
+} from '../services/database'
+
+const rulesRoute = new Hono()
+
+const TextMatchSchema = z.object({
+  match: z.enum(['contains', 'equals', 'regex']),
+  value: z.string().min(1),
+}).refine(text => {
+  if (text.match !== 'regex') return true
+  try {
+    new RegExp(text.value, 'i')
+    return true
+  } catch {
+    return false
+  }
+}, { message: 'Invalid regular expression' })
+
+const ConditionsSchema = z.object({
+  description: TextMatchSchema.optional(),
+  recipient: TextMatchSchema.optional(),
+  iban: z.string().trim().min(4).optional(),
+  account: TextMatchSchema.optional(),
+  minAmount: z.number().nonnegative().optional(),
+  maxAmount: z.number().nonnegative().optional(),
+  type: z.enum(['income', 'expense']).optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  daysOfMonth: z.array(z.number().int().min(1).max(31)).min(1).optional(),
+  sourceCategory: TextMatchSchema.optional(),
+})
+  .refine(conditions => Object.keys(conditions).length > 0, { message: 'A rule needs at least one condition' })
+  .refine(
+    conditions => conditions.minAmount === undefined || conditions.maxAmount === undefined || conditions.minAmount <= conditions.maxAmount,
+    { message: 'minAmount must not be greater than maxAmount' }
+  )
+
+const ActionsSchema = z.object({
+  category: z.string().min(1).optional(),
+  merchant: z.string().min(1).optional(),
+  tags: z.array(z.string().trim().min(1)).min(1).optional(),
+  exclude: z.boolean().optional(),
+  markTransfer: z.boolean().optional(),
+}).refine(actions => Object.values(actions).some(value => value !== undefined && value !== false), {
+  message: 'A rule needs at least one action',
+})
+
+const RuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  conditions: ConditionsSchema,
+  actions: ActionsSchema,
+})
+
+function parseId(value: string): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+// Rules may only assign categories of the taxonomy
+function validateCategory(category?: string): string | null {
+  if (category && !getCategoryByName(category)) {
+    return `Unknown category "${category}"`
+  }
+  return null
+}
+
+// Get all rules in evaluation order
+rulesRoute.get('/', (c) => {
+  try {
+    return c.json({ success: true, data: getRules() })
+  } catch (error) {
+    console.error('Failed to get rules:', error)
+    return c.json({ error: 'Failed to get rules' }, 500)
+  }
+})
+
+// Create a rule
+rulesRoute.post('/', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = RuleSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const categoryError = validateCategory(parsed.data.actions.category)
+    if (categoryError) {
+      return c.json({ error: categoryError }, 400)
+    }
+
+    return c.json({ success: true, data: createRule(parsed.data) })
+  } catch (error) {
+    console.error('Failed to create rule:', error)
+    return c.json({ error: 'Failed to create rule' }, 500)
+  }
+})
+
+// Update a rule; conditions and actions are replaced as a whole
+rulesRoute.put('/:id', async (c) => {
+  try {
+    const id = parseId(c.req.param('id'))
+    if (!id || !getRule(id)) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const parsed = RuleSchema.partial().safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const categoryError = validateCategory(parsed.data.actions?.category)
+    if (categoryError) {
+      return c.json({ error: categoryError }, 400)
+    }
+
+    return c.json({ success: true, data: updateRule(id, parsed.data) })
+  } catch (error) {
+    console.error('Failed to update rule:', error)
+    return c.json({ error: 'Failed to update rule' }, 500)
+  }
+})
+
+// Delete a rule
+rulesRoute.delete('/:id', (c) => {
+  try {
+    const id = parseId(c.req.param('id'))
+    if (!id || !deleteRule(id)) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+    return c.json({ success: true, message: 'Rule deleted' })
+  } catch (error) {
+    console.error('Failed to delete rule:', error)
+    return c.json({ error: 'Failed to delete rule' }, 500)
+  }
+})
+
+export { rulesRoute }
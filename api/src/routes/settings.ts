@@ -4,6 +4,7 @@ import {
   getSettingValue,
   setSettingValue,
   getAllSettingsMap,
+  getCategories,
 } from '../services/database'
 
 const settingsRoute = new Hono()
@@ -15,26 +16,15 @@ const CategoryMappingSchema = z.object({
   sheetColumn: z.string(),
 })
 
-// Default category mappings matching your Google Sheet structure
-const DEFAULT_CATEGORY_MAPPINGS = [
-  { appCategory: 'Rent', sheetColumn: 'B' },
-  { appCategory: 'Eating Out', sheetColumn: 'C' },
-  { appCategory: 'Personal Entertainment', sheetColumn: 'D' },
-  { appCategory: 'Subscriptions', sheetColumn: 'E' },
-  { appCategory: 'Car', sheetColumn: 'F' },
-  { appCategory: 'Public Transport', sheetColumn: 'G' },
-  { appCategory: 'Internet', sheetColumn: 'H' },
-  { appCategory: 'Electricity', sheetColumn: 'I' },
-  { appCategory: 'Insurance', sheetColumn: 'J' },
-  { appCategory: 'Travel', sheetColumn: 'K' },
-  { appCategory: 'Groceries', sheetColumn: 'L' },
-  { appCategory: 'Family', sheetColumn: 'M' },
-  { appCategory: 'Radio Tax', sheetColumn: 'N' },
-  { appCategory: 'Health & Wellbeing', sheetColumn: 'O' },
-  { appCategory: 'Shopping', sheetColumn: 'P' },
-  { appCategory: 'Other', sheetColumn: 'Q' },
-  { appCategory: 'Gifts', sheetColumn: 'R' },
-]
+// Default category mappings matching your Google Sheet structure:
+// top-level expense categories fill the columns from B up to the first formula column
+const CATEGORY_COLUMNS = 'BCDEFGHIJKLMNOPQR'.split('')
+
+const getDefaultCategoryMappings = () =>
+  getCategories()
+    .filter(c => c.kind === 'expense' && c.parentId === undefined)
+    .slice(0, CATEGORY_COLUMNS.length)
+    .map((c, index) => ({ appCategory: c.name, sheetColumn: CATEGORY_COLUMNS[index] }))
 
 // Single source of truth: Schema with embedded defaults
 const SheetConfigSchema = z.object({
@@ -42,7 +32,7 @@ const SheetConfigSchema = z.object({
   tabName: z.string().default('2026'),
   monthColumn: z.string().default('A'),
   monthFormat: z.enum(['short', 'long', 'numeric']).default('short'),
-  categoryMappings: z.array(CategoryMappingSchema).default(DEFAULT_CATEGORY_MAPPINGS),
+  categoryMappings: z.array(CategoryMappingSchema).default(getDefaultCategoryMappings),
   // Formula columns (auto-calculated, don't overwrite)
   constantColumns: z.array(z.string()).default(['S', 'U', 'X']),
   // Data columns we write to
@@ -51,6 +41,18 @@ const SheetConfigSchema = z.object({
   investmentColumn: z.string().default('W'),
 })
 
+// Column mapping for a CSV layout, auto-applied when the same header signature shows up again
+const BankProfileSchema = z.object({
+  name: z.string().min(1),
+  headerSignature: z.string().min(1),
+  columns: z.record(z.string()),
+  dateFormat: z.enum(['auto', 'DD.MM.YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD']).default('auto'),
+  numberFormat: z.enum(['auto', 'de', 'en']).default('auto'),
+  signConvention: z.enum(['signed', 'inverted', 'debit-credit']).default('signed'),
+})
+
+type BankProfile = z.infer<typeof BankProfileSchema>
+
 // Infer the type from schema
 type SheetConfig = z.infer<typeof SheetConfigSchema>
 
@@ -90,6 +92,48 @@ settingsRoute.delete('/sheet', (c) => {
   return c.json({ success: true, message: 'Reset to defaults' })
 })
 
+// Get saved bank profiles
+settingsRoute.get('/bank-profiles', (c) => {
+  const profiles = getSettingValue<BankProfile[]>('bankProfiles', [])
+  return c.json({ success: true, data: profiles })
+})
+
+// Save a bank profile (replaces a profile with the same name or header signature)
+settingsRoute.post('/bank-profiles', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = BankProfileSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const profile = parsed.data
+    const profiles = getSettingValue<BankProfile[]>('bankProfiles', []).filter(
+      p => p.name !== profile.name && p.headerSignature !== profile.headerSignature
+    )
+    setSettingValue('bankProfiles', [...profiles, profile])
+
+    return c.json({ success: true, data: profile })
+  } catch (error) {
+    console.error('Failed to save bank profile:', error)
+    return c.json({ error: 'Failed to save bank profile' }, 500)
+  }
+})
+
+// Delete a bank profile by name
+settingsRoute.delete('/bank-profiles/:name', (c) => {
+  const name = c.req.param('name')
+  const profiles = getSettingValue<BankProfile[]>('bankProfiles', [])
+  const remaining = profiles.filter(p => p.name !== name)
+
+  if (remaining.length === profiles.length) {
+    return c.json({ error: 'Profile not found' }, 404)
+  }
+  setSettingValue('bankProfiles', remaining)
+  return c.json({ success: true, message: `Deleted profile "${name}"` })
+})
+
 // Get all settings
 settingsRoute.get('/', (c) => {
   const stored = getAllSettingsMap()
@@ -0,0 +1,231 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import {
+  saveTransactions,
+  getTransaction,
+  updateTransaction,
+  deleteTransaction,
+  clearTransactions,
+  queryTransactions,
+  saveTransactionEdits,
+  getTransactionEdits,
+} from '../services/database'
+
+const transactionsRoute = new Hono()
+
+// Core fields are validated, everything else (rawData, flags, ...) is stored as-is
+const TransactionSchema = z.object({
+  id: z.string().min(1),
+  date: z.string().min(1),
+  description: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  type: z.enum(['income', 'expense']),
+  category: z.string().optional(),
+  merchant: z.string().optional(),
+  referenceAccount: z.string().optional(),
+  isExcluded: z.boolean().optional(),
+  raw: z.record(z.unknown()).optional(), // The import it was processed from (bank category, unmasked fields, signed amount)
+}).passthrough()
+
+const SaveTransactionsSchema = z.object({
+  transactions: z.array(TransactionSchema),
+})
+
+const UpdateTransactionSchema = TransactionSchema.omit({ id: true }).partial().passthrough()
+
+const TransactionSplitSchema = z.object({
+  category: z.string().min(1),
+  amount: z.number().positive(),
+  note: z.string().optional(),
+})
+
+const TransactionEditSchema = z.object({
+  id: z.string().min(1),
+  category: z.string().min(1).optional(),
+  merchant: z.string().optional(),
+  isExcluded: z.boolean().optional(),
+  // Empty to remove a split; otherwise at least two parts
+  splits: z.array(TransactionSplitSchema).refine(splits => splits.length !== 1, 'A split needs at least two parts').optional(),
+})
+
+const SaveEditsSchema = z.object({
+  edits: z.array(TransactionEditSchema),
+})
+
+type TransactionEdit = z.infer<typeof TransactionEditSchema>
+
+// Split parts must add up to the stored amount (same rule as the client's validateSplits);
+// edits for transactions that aren't in the ledger can't be checked and are kept as they are
+function findSplitMismatches(edits: TransactionEdit[]) {
+  return edits.flatMap((edit, index) => {
+    if (!edit.splits || edit.splits.length === 0) return []
+
+    const stored = getTransaction(edit.id)
+    if (!stored) return []
+
+    const total = edit.splits.reduce((sum, split) => sum + split.amount, 0)
+    if (Math.abs(total - stored.amount) < 0.005) return []
+
+    return [{
+      path: ['edits', index, 'splits'],
+      message: `Parts add up to ${total.toFixed(2)} instead of ${stored.amount.toFixed(2)}`,
+    }]
+  })
+}
+
+const QuerySchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  category: z.string().optional(),
+  account: z.string().optional(),
+  type: z.enum(['income', 'expense']).optional(),
+  search: z.string().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+})
+
+// Query transactions (all filters optional)
+transactionsRoute.get('/', (c) => {
+  try {
+    const parsed = QuerySchema.safeParse(c.req.query())
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid query', details: parsed.error.issues }, 400)
+    }
+
+    const { transactions, total } = queryTransactions(parsed.data)
+    return c.json({
+      success: true,
+      data: transactions,
+      total,
+    })
+  } catch (error) {
+    console.error('Failed to query transactions:', error)
+    return c.json({ error: 'Failed to query transactions' }, 500)
+  }
+})
+
+// Get all manual edits (applied on top of re-imported transactions)
+transactionsRoute.get('/edits', (c) => {
+  try {
+    return c.json({ success: true, data: getTransactionEdits() })
+  } catch (error) {
+    console.error('Failed to get edits:', error)
+    return c.json({ error: 'Failed to get edits' }, 500)
+  }
+})
+
+// Record manual edits (category, merchant, exclusion) by transaction ID
+transactionsRoute.post('/edits', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = SaveEditsSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const mismatches = findSplitMismatches(parsed.data.edits)
+    if (mismatches.length > 0) {
+      return c.json({ error: 'Split parts do not add up to the transaction amount', details: mismatches }, 400)
+    }
+
+    saveTransactionEdits(parsed.data.edits)
+
+    return c.json({
+      success: true,
+      message: `Saved ${parsed.data.edits.length} edits`,
+    })
+  } catch (error) {
+    console.error('Failed to save edits:', error)
+    return c.json({ error: 'Failed to save edits' }, 500)
+  }
+})
+
+// Get a single transaction
+transactionsRoute.get('/:id', (c) => {
+  try {
+    const transaction = getTransaction(c.req.param('id'))
+
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404)
+    }
+    return c.json({ success: true, data: transaction })
+  } catch (error) {
+    console.error('Failed to get transaction:', error)
+    return c.json({ error: 'Failed to get transaction' }, 500)
+  }
+})
+
+// Save (insert or replace) transactions in bulk
+transactionsRoute.post('/', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = SaveTransactionsSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    saveTransactions(parsed.data.transactions)
+
+    return c.json({
+      success: true,
+      message: `Saved ${parsed.data.transactions.length} transactions`,
+    })
+  } catch (error) {
+    console.error('Failed to save transactions:', error)
+    return c.json({ error: 'Failed to save transactions' }, 500)
+  }
+})
+
+// Update fields of a single transaction (manual edits)
+transactionsRoute.put('/:id', async (c) => {
+  try {
+    const body = await c.req.json()
+    const parsed = UpdateTransactionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request', details: parsed.error.issues }, 400)
+    }
+
+    const updated = updateTransaction(c.req.param('id'), parsed.data)
+
+    if (!updated) {
+      return c.json({ error: 'Transaction not found' }, 404)
+    }
+    return c.json({ success: true, data: updated })
+  } catch (error) {
+    console.error('Failed to update transaction:', error)
+    return c.json({ error: 'Failed to update transaction' }, 500)
+  }
+})
+
+// Delete a single transaction
+transactionsRoute.delete('/:id', (c) => {
+  try {
+    const id = c.req.param('id')
+
+    if (!deleteTransaction(id)) {
+      return c.json({ error: 'Transaction not found' }, 404)
+    }
+    return c.json({ success: true, message: `Deleted transaction "${id}"` })
+  } catch (error) {
+    console.error('Failed to delete transaction:', error)
+    return c.json({ error: 'Failed to delete transaction' }, 500)
+  }
+})
+
+// Delete all transactions
+transactionsRoute.delete('/', (c) => {
+  try {
+    const deleted = clearTransactions()
+    return c.json({ success: true, message: `Deleted ${deleted} transactions` })
+  } catch (error) {
+    console.error('Failed to clear transactions:', error)
+    return c.json({ error: 'Failed to clear transactions' }, 500)
+  }
+})
+
+export { transactionsRoute }
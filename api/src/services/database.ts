@@ -2,6 +2,7 @@ import Database from 'better-sqlite3'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
 import { mkdirSync, existsSync } from 'fs'
+import { DEFAULT_CATEGORIES } from '../lib/default-categories'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -38,6 +39,81 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_merchant_key ON merchant_categories(merchant_key);
   CREATE INDEX IF NOT EXISTS idx_category ON merchant_categories(category);
 
+  -- Every learning event per merchant; the mapping's category is derived from these votes
+  CREATE TABLE IF NOT EXISTS merchant_category_votes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    merchant_key TEXT NOT NULL,
+    category TEXT NOT NULL,
+    weight REAL NOT NULL DEFAULT 1,
+    source TEXT NOT NULL DEFAULT 'learned',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS idx_votes_merchant ON merchant_category_votes(merchant_key);
+
+  -- Transaction ledger (full transaction stored as JSON, key fields indexed for queries)
+  CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    amount REAL NOT NULL,
+    type TEXT NOT NULL,
+    category TEXT,
+    merchant TEXT,
+    reference_account TEXT,
+    is_excluded INTEGER DEFAULT 0,
+    data TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+  CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions(category);
+  CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions(reference_account);
+
+  -- Manual edits keyed by transaction ID, re-applied when the same booking is imported again
+  CREATE TABLE IF NOT EXISTS transaction_edits (
+    id TEXT PRIMARY KEY,
+    category TEXT,
+    merchant TEXT,
+    is_excluded INTEGER,
+    splits TEXT,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Reference exchange rates (ECB): units of currency per 1 EUR on a banking day
+  CREATE TABLE IF NOT EXISTS exchange_rates (
+    date TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    rate REAL NOT NULL,
+    PRIMARY KEY (currency, date)
+  );
+
+  -- Category taxonomy; transactions, edits and mappings refer to categories by name
+  CREATE TABLE IF NOT EXISTS categories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    parent_id INTEGER REFERENCES categories(id),
+    kind TEXT NOT NULL DEFAULT 'expense',
+    color TEXT NOT NULL DEFAULT '#64748b',
+    icon TEXT,
+    description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    aliases TEXT NOT NULL DEFAULT '[]',
+    is_system INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- User-defined categorization rules, evaluated before the built-in ones (highest priority first)
+  CREATE TABLE IF NOT EXISTS categorization_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    conditions TEXT NOT NULL,
+    actions TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
   -- App settings (key-value store)
   CREATE TABLE IF NOT EXISTS settings (
     key TEXT PRIMARY KEY,
@@ -46,6 +122,24 @@ db.exec(`
   );
 `)
 
+// Columns added after a table was first created
+function addColumnIfMissing(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  }
+}
+
+addColumnIfMissing('transaction_edits', 'splits', 'TEXT')
+addColumnIfMissing('transactions', 'raw', 'TEXT')
+
+// Mappings learned before votes were recorded become one vote weighted by their confidence
+db.exec(`
+  INSERT INTO merchant_category_votes (merchant_key, category, weight, created_at)
+  SELECT merchant_key, category, confidence, updated_at FROM merchant_categories m
+  WHERE NOT EXISTS (SELECT 1 FROM merchant_category_votes v WHERE v.merchant_key = m.merchant_key)
+`)
+
 // ============ Normalization ============
 // Note: Frontend also has this same normalization function
 // They MUST match for consistent storage and retrieval
@@ -61,17 +155,51 @@ function normalizeMerchant(name: string): string {
 
 // ============ Prepared Statements ============
 
+// Category and confidence of an existing mapping are set from its votes (see refreshMapping)
 const insertOrUpdateMapping = db.prepare(`
   INSERT INTO merchant_categories (merchant_key, merchant_display, category, updated_at)
   VALUES (?, ?, ?, CURRENT_TIMESTAMP)
   ON CONFLICT(merchant_key) DO UPDATE SET
-    category = excluded.category,
-    confidence = confidence + 1,
     updated_at = CURRENT_TIMESTAMP
 `)
 
+const updateMappingFromVotes = db.prepare(`
+  UPDATE merchant_categories
+  SET category = ?, confidence = ?
+  WHERE merchant_key = ?
+`)
+
+const touchMapping = db.prepare(`
+  UPDATE merchant_categories
+  SET updated_at = CURRENT_TIMESTAMP
+  WHERE merchant_key = ?
+`)
+
+const insertVote = db.prepare(`
+  INSERT INTO merchant_category_votes (merchant_key, category, weight, source)
+  VALUES (?, ?, ?, ?)
+`)
+
+const getVotes = db.prepare(`
+  SELECT category, weight, source, created_at
+  FROM merchant_category_votes
+  WHERE merchant_key = ?
+  ORDER BY id
+`)
+
+const getAllVotes = db.prepare(`
+  SELECT merchant_key, category, weight, source, created_at
+  FROM merchant_category_votes
+  ORDER BY id
+`)
+
+const deleteVotes = db.prepare(`
+  DELETE FROM merchant_category_votes
+  WHERE merchant_key = ?
+`)
+
 const getAllMappings = db.prepare(`
-  SELECT merchant_key as merchant, merchant_display, category, confidence
+  SELECT merchant_key as merchant, merchant_display, category, confidence, updated_at
   FROM merchant_categories
   ORDER BY confidence DESC, updated_at DESC
 `)
@@ -94,20 +222,93 @@ export interface MerchantMapping {
   merchantDisplay?: string
   category: string
   confidence: number
+  updatedAt?: string
+  votes?: CategoryVotes[] // Best first
+  ambiguous?: boolean // Another category got nearly as many votes
+}
+
+export interface CategoryVotes {
+  category: string
+  votes: number // Weighted count (an explicit resolution counts RESOLVED_VOTE_WEIGHT)
+  score: number // Votes decayed by age
+}
+
+// ============ Vote Resolution ============
+
+const VOTE_HALF_LIFE_DAYS = 180 // A vote counts half as much after this many days
+const RESOLVED_VOTE_WEIGHT = 5 // An explicit choice outweighs a few stray recategorizations
+const AMBIGUOUS_RATIO = 0.5 // Runner-up with at least this share of the winner's score
+
+interface MerchantVote {
+  category: string
+  weight: number
+  source: 'learned' | 'resolved'
+  created_at: string
+}
+
+/**
+ * Derive a mapping's category from its votes (oldest first)
+ * - Each vote's weight halves every VOTE_HALF_LIFE_DAYS
+ * - An explicit resolution starts over: earlier votes no longer count
+ * - Equal scores go to the category voted for last
+ */
+function resolveVotes(votes: MerchantVote[], now = Date.now()): {
+  category: string
+  confidence: number
+  votes: CategoryVotes[]
+  ambiguous: boolean
+} | null {
+  const lastResolved = votes.map(v => v.source).lastIndexOf('resolved')
+  const counted = votes.slice(Math.max(lastResolved, 0))
+  if (counted.length === 0) return null
+
+  const byCategory = new Map<string, CategoryVotes & { last: number }>()
+  counted.forEach((vote, index) => {
+    // SQLite timestamps are UTC without a zone
+    const ageDays = Math.max(0, now - Date.parse(`${vote.created_at.replace(' ', 'T')}Z`)) / 86400000
+    const entry = byCategory.get(vote.category) || { category: vote.category, votes: 0, score: 0, last: 0 }
+    entry.votes += vote.weight
+    entry.score += vote.weight * Math.pow(0.5, ageDays / VOTE_HALF_LIFE_DAYS)
+    entry.last = index
+    byCategory.set(vote.category, entry)
+  })
+
+  const ranked = Array.from(byCategory.values())
+    .sort((a, b) => b.score - a.score || b.last - a.last)
+    .map(({ category, votes, score }) => ({ category, votes, score: Math.round(score * 100) / 100 }))
+
+  return {
+    category: ranked[0].category,
+    confidence: Math.round(ranked[0].votes),
+    votes: ranked,
+    ambiguous: ranked.length > 1 && ranked[1].score >= ranked[0].score * AMBIGUOUS_RATIO,
+  }
+}
+
+// Store the category and confidence derived from a merchant's votes
+function refreshMapping(key: string): void {
+  const resolved = resolveVotes(getVotes.all(key) as MerchantVote[])
+  if (resolved) {
+    updateMappingFromVotes.run(resolved.category, resolved.confidence, key)
+  }
 }
 
 // ============ Core Functions ============
 
 /**
- * Save a merchant → category mapping
+ * Learn a merchant → category mapping
  * - Normalizes merchant name for deduplication
- * - Uses UPSERT: inserts new or increments confidence if exists
+ * - Records a vote; the mapping's category is the one with the most (recent) votes
  */
 export function saveMerchantCategory(merchant: string, category: string): void {
   const key = normalizeMerchant(merchant)
   if (!key || key.length < 2) return // Skip empty/short merchants
   
-  insertOrUpdateMapping.run(key, merchant, category)
+  db.transaction(() => {
+    insertVote.run(key, category, 1, 'learned')
+    insertOrUpdateMapping.run(key, merchant, category)
+    refreshMapping(key)
+  })()
 }
 
 /**
@@ -117,11 +318,13 @@ export function saveMerchantCategory(merchant: string, category: string): void {
 export function getMerchantCategory(merchant: string): string | null {
   const key = normalizeMerchant(merchant)
   const result = getMapping.get(key) as { category: string } | undefined
-  return result?.category ?? null
+  if (!result) return null
+  // Resolved on read, like getAllMerchantMappings, so decay can change the winner
+  return resolveVotes(getVotes.all(key) as MerchantVote[])?.category ?? result.category
 }
 
 /**
- * Get all merchant → category mappings
+ * Get all merchant → category mappings with their vote breakdown
  * Frontend loads these once and does its own fuzzy matching
  */
 export function getAllMerchantMappings(): MerchantMapping[] {
@@ -130,22 +333,72 @@ export function getAllMerchantMappings(): MerchantMapping[] {
     merchant_display: string
     category: string
     confidence: number
+    updated_at: string
   }>
-  
-  return results.map(r => ({
-    merchant: r.merchant,
-    merchantDisplay: r.merchant_display,
-    category: r.category,
-    confidence: r.confidence,
-  }))
+
+  const votesByKey = new Map<string, MerchantVote[]>()
+  for (const vote of getAllVotes.all() as Array<MerchantVote & { merchant_key: string }>) {
+    const votes = votesByKey.get(vote.merchant_key) || []
+    votes.push(vote)
+    votesByKey.set(vote.merchant_key, votes)
+  }
+
+  // Resolved on read too, so votes keep decaying between learning events
+  const now = Date.now()
+  return results.map(r => {
+    const resolved = resolveVotes(votesByKey.get(r.merchant) || [], now)
+    return {
+      merchant: r.merchant,
+      merchantDisplay: r.merchant_display,
+      category: resolved?.category ?? r.category,
+      confidence: resolved?.confidence ?? r.confidence,
+      updatedAt: r.updated_at,
+      votes: resolved?.votes ?? [{ category: r.category, votes: r.confidence, score: r.confidence }],
+      ambiguous: resolved?.ambiguous ?? false,
+    }
+  })
 }
 
 /**
- * Delete a merchant mapping
+ * Explicitly choose the category of an existing mapping (e.g. to resolve conflicting votes)
+ * Earlier votes stop counting; later learning events can still change it
+ * Returns false if there is no mapping for the merchant
+ */
+export function resolveMerchantCategory(merchant: string, category: string): boolean {
+  const key = normalizeMerchant(merchant)
+  if (!getMapping.get(key)) return false
+
+  db.transaction(() => {
+    insertVote.run(key, category, RESOLVED_VOTE_WEIGHT, 'resolved')
+    touchMapping.run(key)
+    refreshMapping(key)
+  })()
+  return true
+}
+
+/**
+ * Delete a merchant mapping and its votes
  */
 export function deleteMerchantMapping(merchant: string): void {
   const key = normalizeMerchant(merchant)
   deleteMapping.run(key)
+  deleteVotes.run(key)
+}
+
+/**
+ * Delete several merchant mappings at once, returns how many existed
+ */
+export function deleteMerchantMappings(merchants: string[]): number {
+  const transaction = db.transaction((items: string[]) => {
+    let deleted = 0
+    for (const merchant of items) {
+      const key = normalizeMerchant(merchant)
+      deleted += deleteMapping.run(key).changes
+      deleteVotes.run(key)
+    }
+    return deleted
+  })
+  return transaction(merchants)
 }
 
 /**
@@ -167,24 +420,22 @@ export function getMappingStats(): {
   topCategories: Array<{ category: string; count: number }>
   recentMappings: MerchantMapping[]
 } {
-  const total = (db.prepare('SELECT COUNT(*) as count FROM merchant_categories').get() as { count: number }).count
-  
-  const topCategories = db.prepare(`
-    SELECT category, COUNT(*) as count
-    FROM merchant_categories
-    GROUP BY category
-    ORDER BY count DESC
-    LIMIT 10
-  `).all() as Array<{ category: string; count: number }>
-  
-  const recentMappings = db.prepare(`
-    SELECT merchant_key as merchant, merchant_display, category, confidence
-    FROM merchant_categories
-    ORDER BY updated_at DESC
-    LIMIT 10
-  `).all() as MerchantMapping[]
-  
-  return { total, topCategories, recentMappings }
+  // Categories come from the resolved votes, as on the management screen
+  const mappings = getAllMerchantMappings()
+
+  const counts = new Map<string, number>()
+  for (const { category } of mappings) {
+    counts.set(category, (counts.get(category) || 0) + 1)
+  }
+  const topCategories = Array.from(counts, ([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10)
+
+  const recentMappings = [...mappings]
+    .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''))
+    .slice(0, 10)
+
+  return { total: mappings.length, topCategories, recentMappings }
 }
 
 // ============ Settings ============
@@ -228,6 +479,705 @@ export function getAllSettingsMap(): Record<string, unknown> {
   return settings
 }
 
+// ============ Transactions ============
+
+export interface StoredTransaction {
+  id: string
+  date: string
+  amount: number
+  type: 'income' | 'expense'
+  category?: string
+  merchant?: string
+  referenceAccount?: string
+  isExcluded?: boolean
+  raw?: Record<string, unknown> // The import the transaction was processed from, kept in its own column
+  [key: string]: unknown
+}
+
+export interface TransactionQuery {
+  from?: string
+  to?: string
+  category?: string
+  account?: string
+  type?: 'income' | 'expense'
+  search?: string
+  limit?: number
+  offset?: number
+}
+
+const upsertTransaction = db.prepare(`
+  INSERT INTO transactions (id, date, amount, type, category, merchant, reference_account, is_excluded, data, raw, updated_at)
+  VALUES (@id, @date, @amount, @type, @category, @merchant, @referenceAccount, @isExcluded, @data, @raw, CURRENT_TIMESTAMP)
+  ON CONFLICT(id) DO UPDATE SET
+    date = excluded.date,
+    amount = excluded.amount,
+    type = excluded.type,
+    category = excluded.category,
+    merchant = excluded.merchant,
+    reference_account = excluded.reference_account,
+    is_excluded = excluded.is_excluded,
+    data = excluded.data,
+    raw = COALESCE(excluded.raw, raw),
+    updated_at = CURRENT_TIMESTAMP
+`)
+
+const getTransactionById = db.prepare('SELECT data, raw FROM transactions WHERE id = ?')
+const deleteTransactionById = db.prepare('DELETE FROM transactions WHERE id = ?')
+const deleteAllTransactions = db.prepare('DELETE FROM transactions')
+
+function toRow({ raw, ...tx }: StoredTransaction) {
+  return {
+    id: tx.id,
+    date: tx.date,
+    amount: tx.amount,
+    type: tx.type,
+    category: tx.category ?? null,
+    merchant: tx.merchant ?? null,
+    referenceAccount: tx.referenceAccount ?? null,
+    isExcluded: tx.isExcluded ? 1 : 0,
+    data: JSON.stringify(tx),
+    raw: raw ? JSON.stringify(raw) : null,
+  }
+}
+
+function fromRow(row: { data: string; raw: string | null }): StoredTransaction {
+  const tx = JSON.parse(row.data) as StoredTransaction
+  return row.raw ? { ...tx, raw: JSON.parse(row.raw) } : tx
+}
+
+/**
+ * Insert or replace transactions (wrapped in a DB transaction)
+ * - Existing rows with the same ID are overwritten; their raw import is kept if none is given
+ */
+export function saveTransactions(transactions: StoredTransaction[]): void {
+  const transaction = db.transaction((items: StoredTransaction[]) => {
+    for (const tx of items) {
+      upsertTransaction.run(toRow(tx))
+    }
+  })
+  transaction(transactions)
+}
+
+export function getTransaction(id: string): StoredTransaction | null {
+  const result = getTransactionById.get(id) as { data: string; raw: string | null } | undefined
+  return result ? fromRow(result) : null
+}
+
+/**
+ * Merge partial updates into a stored transaction
+ * Returns the updated transaction, or null if it doesn't exist
+ */
+export function updateTransaction(id: string, updates: Partial<StoredTransaction>): StoredTransaction | null {
+  const existing = getTransaction(id)
+  if (!existing) return null
+
+  const updated = { ...existing, ...updates, id }
+  upsertTransaction.run(toRow(updated))
+  return updated
+}
+
+export function deleteTransaction(id: string): boolean {
+  return deleteTransactionById.run(id).changes > 0
+}
+
+export function clearTransactions(): number {
+  return deleteAllTransactions.run().changes
+}
+
+/**
+ * Query transactions, most recent first
+ * Filters are combined with AND; search matches description, merchant or recipient (case-insensitive for ASCII)
+ */
+export function queryTransactions(query: TransactionQuery = {}): {
+  transactions: StoredTransaction[]
+  total: number
+} {
+  const conditions: string[] = []
+  const params: Record<string, unknown> = {}
+
+  if (query.from) {
+    conditions.push('date >= @from')
+    params.from = query.from
+  }
+  if (query.to) {
+    conditions.push('date <= @to')
+    params.to = query.to
+  }
+  if (query.category) {
+    conditions.push('category = @category')
+    params.category = query.category
+  }
+  if (query.account) {
+    conditions.push('reference_account = @account')
+    params.account = query.account
+  }
+  if (query.type) {
+    conditions.push('type = @type')
+    params.type = query.type
+  }
+  if (query.search) {
+    conditions.push(`(
+      json_extract(data, '$.description') LIKE @search ESCAPE '\\'
+      OR merchant LIKE @search ESCAPE '\\'
+      OR json_extract(data, '$.recipient') LIKE @search ESCAPE '\\'
+    )`)
+    params.search = `%${query.search.replace(/[\\%_]/g, char => `\\${char}`)}%`
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const total = (db.prepare(`SELECT COUNT(*) as count FROM transactions ${where}`).get(params) as { count: number }).count
+
+  const limit = query.limit ?? -1
+  const offset = query.offset ?? 0
+  const rows = db.prepare(`
+    SELECT data, raw FROM transactions ${where}
+    ORDER BY date DESC, id ASC
+    LIMIT @limit OFFSET @offset
+  `).all({ ...params, limit, offset }) as Array<{ data: string; raw: string | null }>
+
+  return {
+    transactions: rows.map(fromRow),
+    total,
+  }
+}
+
+// ============ Transaction Edits ============
+
+export interface TransactionSplit {
+  category: string
+  amount: number
+  note?: string
+}
+
+export interface TransactionEdit {
+  id: string
+  category?: string
+  merchant?: string
+  isExcluded?: boolean
+  splits?: TransactionSplit[] // An empty list removes a split
+}
+
+// Fields not present in an edit keep their previously stored value
+const upsertEdit = db.prepare(`
+  INSERT INTO transaction_edits (id, category, merchant, is_excluded, splits, updated_at)
+  VALUES (@id, @category, @merchant, @isExcluded, @splits, CURRENT_TIMESTAMP)
+  ON CONFLICT(id) DO UPDATE SET
+    category = COALESCE(excluded.category, category),
+    merchant = COALESCE(excluded.merchant, merchant),
+    is_excluded = COALESCE(excluded.is_excluded, is_excluded),
+    splits = COALESCE(excluded.splits, splits),
+    updated_at = CURRENT_TIMESTAMP
+`)
+
+const getAllEdits = db.prepare('SELECT id, category, merchant, is_excluded, splits FROM transaction_edits')
+
+/**
+ * Record manual edits and apply them to stored transactions
+ * - Edits are kept even if the transaction isn't in the ledger yet
+ */
+export function saveTransactionEdits(edits: TransactionEdit[]): void {
+  const transaction = db.transaction((items: TransactionEdit[]) => {
+    for (const edit of items) {
+      upsertEdit.run({
+        id: edit.id,
+        category: edit.category ?? null,
+        merchant: edit.merchant ?? null,
+        isExcluded: edit.isExcluded === undefined ? null : (edit.isExcluded ? 1 : 0),
+        splits: edit.splits === undefined ? null : JSON.stringify(edit.splits),
+      })
+
+      const { id, ...fields } = edit
+      updateTransaction(id, { ...fields, categorySource: 'manual' })
+    }
+  })
+  transaction(edits)
+}
+
+export function getTransactionEdits(): TransactionEdit[] {
+  const results = getAllEdits.all() as Array<{
+    id: string
+    category: string | null
+    merchant: string | null
+    is_excluded: number | null
+    splits: string | null
+  }>
+
+  return results.map(r => ({
+    id: r.id,
+    category: r.category ?? undefined,
+    merchant: r.merchant ?? undefined,
+    isExcluded: r.is_excluded === null ? undefined : r.is_excluded === 1,
+    splits: r.splits === null ? undefined : JSON.parse(r.splits) as TransactionSplit[],
+  }))
+}
+
+// ============ Exchange Rates ============
+
+export interface ExchangeRate {
+  date: string
+  currency: string
+  rate: number // Units of currency per 1 EUR
+}
+
+export interface ExchangeRateCoverage {
+  currency: string
+  from: string
+  to: string
+  count: number
+}
+
+const upsertExchangeRate = db.prepare(`
+  INSERT INTO exchange_rates (date, currency, rate) VALUES (@date, @currency, @rate)
+  ON CONFLICT(currency, date) DO UPDATE SET rate = excluded.rate
+`)
+
+const getRateCoverage = db.prepare(`
+  SELECT currency, MIN(date) as "from", MAX(date) as "to", COUNT(*) as count
+  FROM exchange_rates
+  GROUP BY currency
+  ORDER BY currency
+`)
+
+const deleteAllExchangeRates = db.prepare('DELETE FROM exchange_rates')
+
+/**
+ * Insert or replace exchange rates (wrapped in a DB transaction)
+ * - Re-importing an overlapping ECB file only updates the overlapping days
+ */
+export function saveExchangeRates(rates: ExchangeRate[]): void {
+  const transaction = db.transaction((items: ExchangeRate[]) => {
+    for (const rate of items) {
+      upsertExchangeRate.run(rate)
+    }
+  })
+  transaction(rates)
+}
+
+/**
+ * Get rates for the given currencies, oldest first
+ * - `from`/`to` limit the date range (inclusive)
+ */
+export function getExchangeRates(currencies: string[], from?: string, to?: string): ExchangeRate[] {
+  if (currencies.length === 0) return []
+
+  const conditions = [`currency IN (${currencies.map(() => '?').join(', ')})`]
+  const params: string[] = [...currencies]
+  if (from) {
+    conditions.push('date >= ?')
+    params.push(from)
+  }
+  if (to) {
+    conditions.push('date <= ?')
+    params.push(to)
+  }
+
+  return db.prepare(`
+    SELECT date, currency, rate FROM exchange_rates
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY currency, date
+  `).all(...params) as ExchangeRate[]
+}
+
+export function getExchangeRateCoverage(): ExchangeRateCoverage[] {
+  return getRateCoverage.all() as ExchangeRateCoverage[]
+}
+
+export function clearExchangeRates(): number {
+  return deleteAllExchangeRates.run().changes
+}
+
+// ============ Categorization Rules ============
+
+export interface TextMatch {
+  match: 'contains' | 'equals' | 'regex' // Case-insensitive
+  value: string
+}
+
+// All given conditions must hold
+export interface RuleConditions {
+  description?: TextMatch
+  recipient?: TextMatch
+  iban?: string // Recipient IBAN; also matches the anonymized form (country code + last 4 digits)
+  account?: TextMatch // Reference account number or name
+  minAmount?: number // Unsigned, inclusive
+  maxAmount?: number
+  type?: 'income' | 'expense'
+  weekdays?: number[] // 0 = Sunday
+  daysOfMonth?: number[] // 1-31
+  sourceCategory?: TextMatch // Category/subcategory from the bank export
+}
+
+export interface RuleActions {
+  category?: string
+  merchant?: string
+  tags?: string[]
+  exclude?: boolean
+  markTransfer?: boolean
+}
+
+export interface CategorizationRule {
+  id: number
+  name: string
+  priority: number // Higher runs first; the first matching rule wins
+  enabled: boolean
+  conditions: RuleConditions
+  actions: RuleActions
+}
+
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id'>
+
+interface RuleRow {
+  id: number
+  name: string
+  priority: number
+  enabled: number
+  conditions: string
+  actions: string
+}
+
+const selectRules = db.prepare('SELECT * FROM categorization_rules ORDER BY priority DESC, id ASC')
+const selectRuleById = db.prepare('SELECT * FROM categorization_rules WHERE id = ?')
+
+const insertRule = db.prepare(`
+  INSERT INTO categorization_rules (name, priority, enabled, conditions, actions)
+  VALUES (@name, @priority, @enabled, @conditions, @actions)
+`)
+
+const updateRuleRow = db.prepare(`
+  UPDATE categorization_rules SET
+    name = @name, priority = @priority, enabled = @enabled,
+    conditions = @conditions, actions = @actions, updated_at = CURRENT_TIMESTAMP
+  WHERE id = @id
+`)
+
+const deleteRuleById = db.prepare('DELETE FROM categorization_rules WHERE id = ?')
+
+function fromRuleRow(row: RuleRow): CategorizationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    enabled: row.enabled === 1,
+    conditions: JSON.parse(row.conditions) as RuleConditions,
+    actions: JSON.parse(row.actions) as RuleActions,
+  }
+}
+
+function toRuleRow(rule: CategorizationRuleInput) {
+  return {
+    name: rule.name,
+    priority: rule.priority,
+    enabled: rule.enabled ? 1 : 0,
+    conditions: JSON.stringify(rule.conditions),
+    actions: JSON.stringify(rule.actions),
+  }
+}
+
+export function getRules(): CategorizationRule[] {
+  return (selectRules.all() as RuleRow[]).map(fromRuleRow)
+}
+
+export function getRule(id: number): CategorizationRule | null {
+  const row = selectRuleById.get(id) as RuleRow | undefined
+  return row ? fromRuleRow(row) : null
+}
+
+export function createRule(rule: CategorizationRuleInput): CategorizationRule {
+  const result = insertRule.run(toRuleRow(rule))
+  return getRule(Number(result.lastInsertRowid))!
+}
+
+export function updateRule(id: number, updates: Partial<CategorizationRuleInput>): CategorizationRule | null {
+  const existing = getRule(id)
+  if (!existing) return null
+
+  updateRuleRow.run({ id, ...toRuleRow({ ...existing, ...updates }) })
+  return getRule(id)
+}
+
+export function deleteRule(id: number): boolean {
+  return deleteRuleById.run(id).changes > 0
+}
+
+// ============ Categories ============
+
+export type CategoryKind = 'expense' | 'income' | 'savings' | 'investment' | 'transfer'
+
+export interface Category {
+  id: number
+  name: string
+  parentId?: number
+  kind: CategoryKind
+  color: string
+  icon?: string
+  description?: string // Hint for AI categorization
+  sortOrder: number
+  aliases: string[] // Former names (renames, merges) still resolved to this category
+  isSystem: boolean // Referenced by name in the categorizer; can't be renamed or removed
+}
+
+export type CategoryInput = Omit<Category, 'id' | 'sortOrder' | 'aliases' | 'isSystem'> & { sortOrder?: number }
+
+interface CategoryRow {
+  id: number
+  name: string
+  parent_id: number | null
+  kind: CategoryKind
+  color: string
+  icon: string | null
+  description: string | null
+  sort_order: number
+  aliases: string
+  is_system: number
+}
+
+const selectCategories = db.prepare('SELECT * FROM categories ORDER BY sort_order, name')
+const selectCategoryById = db.prepare('SELECT * FROM categories WHERE id = ?')
+const selectCategoryByName = db.prepare('SELECT * FROM categories WHERE name = ? COLLATE NOCASE')
+const selectMaxSortOrder = db.prepare('SELECT COALESCE(MAX(sort_order), -1) as value FROM categories')
+
+const insertCategory = db.prepare(`
+  INSERT INTO categories (name, parent_id, kind, color, icon, description, sort_order, is_system)
+  VALUES (@name, @parentId, @kind, @color, @icon, @description, @sortOrder, @isSystem)
+`)
+
+const updateCategoryRow = db.prepare(`
+  UPDATE categories SET
+    name = @name, parent_id = @parentId, kind = @kind, color = @color, icon = @icon,
+    description = @description, sort_order = @sortOrder, updated_at = CURRENT_TIMESTAMP
+  WHERE id = @id
+`)
+
+const deleteCategoryById = db.prepare('DELETE FROM categories WHERE id = ?')
+const reparentCategories = db.prepare('UPDATE categories SET parent_id = ? WHERE parent_id = ?')
+const setCategoryParent = db.prepare('UPDATE categories SET parent_id = ? WHERE id = ?')
+const updateCategoryAliases = db.prepare('UPDATE categories SET aliases = ? WHERE id = ?')
+
+function fromCategoryRow(row: CategoryRow): Category {
+  return {
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id ?? undefined,
+    kind: row.kind,
+    color: row.color,
+    icon: row.icon ?? undefined,
+    description: row.description ?? undefined,
+    sortOrder: row.sort_order,
+    aliases: JSON.parse(row.aliases) as string[],
+    isSystem: row.is_system === 1,
+  }
+}
+
+function toCategoryRow(category: CategoryInput & { sortOrder: number; isSystem?: boolean }) {
+  return {
+    name: category.name,
+    parentId: category.parentId ?? null,
+    kind: category.kind,
+    color: category.color,
+    icon: category.icon ?? null,
+    description: category.description ?? null,
+    sortOrder: category.sortOrder,
+    isSystem: category.isSystem ? 1 : 0,
+  }
+}
+
+// Seed the taxonomy on first start
+if ((db.prepare('SELECT COUNT(*) as count FROM categories').get() as { count: number }).count === 0) {
+  db.transaction(() => {
+    DEFAULT_CATEGORIES.forEach((category, index) => {
+      insertCategory.run(toCategoryRow({ ...category, sortOrder: index }))
+    })
+  })()
+}
+
+export function getCategories(): Category[] {
+  return (selectCategories.all() as CategoryRow[]).map(fromCategoryRow)
+}
+
+export function getCategory(id: number): Category | null {
+  const row = selectCategoryById.get(id) as CategoryRow | undefined
+  return row ? fromCategoryRow(row) : null
+}
+
+// Names are unique regardless of case
+export function getCategoryByName(name: string): Category | null {
+  const row = selectCategoryByName.get(name) as CategoryRow | undefined
+  return row ? fromCategoryRow(row) : null
+}
+
+export function createCategory(input: CategoryInput): Category {
+  const sortOrder = input.sortOrder ?? (selectMaxSortOrder.get() as { value: number }).value + 1
+  const id = db.transaction(() => {
+    releaseAlias(input.name)
+    return Number(insertCategory.run(toCategoryRow({ ...input, sortOrder })).lastInsertRowid)
+  })()
+  return getCategory(id)!
+}
+
+/**
+ * Update a category
+ * - A new name is carried over to everything that refers to the old one
+ */
+export function updateCategory(id: number, updates: Partial<CategoryInput>): Category | null {
+  const existing = getCategory(id)
+  if (!existing) return null
+
+  const updated = { ...existing, ...updates }
+  db.transaction(() => {
+    updateCategoryRow.run({ id, ...toCategoryRow(updated) })
+    if (updated.name !== existing.name) {
+      releaseAlias(updated.name)
+      setAliases(id, [...existing.aliases, existing.name].filter(alias => alias !== updated.name))
+      renameCategoryReferences(existing.name, updated.name)
+    }
+  })()
+  return getCategory(id)
+}
+
+/**
+ * Merge a category into another one and remove it
+ * - Transactions, edits, learned mappings, rules and sheet mappings move to the target
+ * - Subcategories move under the target; when the target is one of them,
+ *   it takes the source's place in the tree and the others move under it
+ */
+export function mergeCategory(id: number, intoId: number): Category | null {
+  const source = getCategory(id)
+  const target = getCategory(intoId)
+  if (!source || !target) return null
+
+  db.transaction(() => {
+    if (target.parentId === source.id) {
+      setCategoryParent.run(source.parentId ?? null, target.id)
+      reparentCategories.run(target.id, source.id)
+    } else {
+      reparentCategories.run(target.parentId === undefined ? target.id : target.parentId, source.id)
+    }
+    setAliases(target.id, [...target.aliases, source.name, ...source.aliases].filter(alias => alias !== target.name))
+    renameCategoryReferences(source.name, target.name)
+    deleteCategoryById.run(source.id)
+  })()
+  return getCategory(intoId)
+}
+
+export function deleteCategory(id: number): boolean {
+  return db.transaction(() => {
+    reparentCategories.run(null, id)
+    return deleteCategoryById.run(id).changes > 0
+  })()
+}
+
+/**
+ * How many transactions, edits, learned mappings and rules use a category name
+ */
+export function getCategoryUsage(name: string): number {
+  const pattern = categoryPattern(name)
+  const count = (sql: string) => (db.prepare(sql).get({ name, pattern }) as { count: number }).count
+
+  return count('SELECT COUNT(*) as count FROM transactions WHERE category = @name OR data LIKE @pattern')
+    + count('SELECT COUNT(*) as count FROM transaction_edits WHERE category = @name OR splits LIKE @pattern')
+    + count('SELECT COUNT(*) as count FROM merchant_categories WHERE category = @name')
+    + count('SELECT COUNT(*) as count FROM merchant_category_votes WHERE category = @name')
+    + count('SELECT COUNT(*) as count FROM categorization_rules WHERE actions LIKE @pattern')
+}
+
+function setAliases(id: number, aliases: string[]): void {
+  updateCategoryAliases.run(JSON.stringify([...new Set(aliases)]), id)
+}
+
+// A name that is taken again no longer points at the category that used to have it
+function releaseAlias(name: string): void {
+  for (const category of getCategories()) {
+    if (category.aliases.includes(name)) {
+      setAliases(category.id, category.aliases.filter(alias => alias !== name))
+    }
+  }
+}
+
+// Matches a category name inside stored JSON (top-level category or a split part)
+function categoryPattern(name: string): string {
+  return `%"category":${JSON.stringify(name)}%`
+}
+
+// Parts that end up in the same category after a merge are combined
+function renameInSplits(splits: TransactionSplit[], from: string, to: string): TransactionSplit[] {
+  const combined: TransactionSplit[] = []
+  for (const split of splits) {
+    const category = split.category === from ? to : split.category
+    const existing = combined.find(c => c.category === category)
+    if (existing) {
+      existing.amount = Math.round((existing.amount + split.amount) * 100) / 100
+      const note = [existing.note, split.note].filter(Boolean).join(', ')
+      if (note) existing.note = note
+    } else {
+      combined.push({ ...split, category })
+    }
+  }
+  return combined
+}
+
+/**
+ * Point every reference to a category name at another name
+ * - Called inside the DB transaction of a rename or merge
+ */
+function renameCategoryReferences(from: string, to: string): void {
+  const pattern = categoryPattern(from)
+
+  db.prepare(`
+    UPDATE merchant_categories SET category = ?, updated_at = CURRENT_TIMESTAMP WHERE category = ?
+  `).run(to, from)
+
+  // Votes for both categories of a merge now count together
+  db.prepare('UPDATE merchant_category_votes SET category = ? WHERE category = ?').run(to, from)
+  const voted = db.prepare(`
+    SELECT DISTINCT merchant_key FROM merchant_category_votes WHERE category = ?
+  `).all(to) as Array<{ merchant_key: string }>
+  for (const { merchant_key } of voted) {
+    refreshMapping(merchant_key)
+  }
+
+  const edits = db.prepare(`
+    SELECT id, category, splits FROM transaction_edits WHERE category = @from OR splits LIKE @pattern
+  `).all({ from, pattern }) as Array<{ id: string; category: string | null; splits: string | null }>
+  const updateEdit = db.prepare('UPDATE transaction_edits SET category = ?, splits = ? WHERE id = ?')
+  for (const edit of edits) {
+    let category = edit.category === from ? to : edit.category
+    let splits = edit.splits === null ? null : renameInSplits(JSON.parse(edit.splits), from, to)
+    if (splits?.length === 1) {
+      category = splits[0].category
+      splits = []
+    }
+    updateEdit.run(category, splits === null ? null : JSON.stringify(splits), edit.id)
+  }
+
+  const rows = db.prepare(`
+    SELECT data FROM transactions WHERE category = @from OR data LIKE @pattern
+  `).all({ from, pattern }) as Array<{ data: string }>
+  for (const row of rows) {
+    const { splits, ...tx } = JSON.parse(row.data) as StoredTransaction & { splits?: TransactionSplit[] }
+    const renamed = splits ? renameInSplits(splits, from, to) : undefined
+    upsertTransaction.run(toRow({
+      ...tx,
+      category: renamed?.length === 1 ? renamed[0].category : (tx.category === from ? to : tx.category),
+      ...(renamed && renamed.length > 1 ? { splits: renamed } : {}),
+    }))
+  }
+
+  for (const rule of getRules().filter(r => r.actions.category === from)) {
+    updateRuleRow.run({ id: rule.id, ...toRuleRow({ ...rule, actions: { ...rule.actions, category: to } }) })
+  }
+
+  // Sheet column mappings; when merging into an already mapped category its own column wins
+  const sheetConfig = getSettingValue<{ categoryMappings?: Array<{ appCategory: string; sheetColumn: string }> } | null>('sheetConfig', null)
+  if (sheetConfig?.categoryMappings) {
+    const targetMapped = sheetConfig.categoryMappings.some(m => m.appCategory === to)
+    const categoryMappings = sheetConfig.categoryMappings
+      .filter(m => !(targetMapped && m.appCategory === from))
+      .map(m => (m.appCategory === from ? { ...m, appCategory: to } : m))
+    setSettingValue('sheetConfig', { ...sheetConfig, categoryMappings })
+  }
+}
+
 // ============ Maintenance ============
 
 export function optimizeDatabase(): void {
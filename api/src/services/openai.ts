@@ -1,4 +1,5 @@
 import OpenAI from 'openai'
+import { getCategories, type Category } from './database'
 
 interface TransactionInput {
   id: string;
@@ -29,27 +30,16 @@ function getOpenAIClient(): OpenAI {
   return openaiClient
 }
 
-const SYSTEM_PROMPT = `You are a transaction categorization assistant. Given a list of bank transactions, categorize each one into the most appropriate category.
+// Categories come from the user's taxonomy, with their descriptions as hints
+function buildSystemPrompt(categories: Category[]): string {
+  const list = categories
+    .map(c => `- ${c.name}${c.description ? ` (${c.description})` : ''}`)
+    .join('\n')
+
+  return `You are a transaction categorization assistant. Given a list of bank transactions, categorize each one into the most appropriate category.
 
 Available categories:
-- Groceries (supermarkets, food stores)
-- Eating Out (restaurants, cafes, food delivery)
-- Personal Entertainment (games, streaming, apps)
-- Subscriptions (recurring digital services)
-- Car (fuel, parking, car-related)
-- Public Transport (trains, buses, metro)
-- Internet (internet/phone bills)
-- Electricity (utility bills)
-- Insurance (all types of insurance)
-- Travel (flights, hotels, vacation)
-- Family (gifts to family, family expenses)
-- Radio Tax (broadcasting fees)
-- Health & Wellbeing (pharmacy, doctors, gym)
-- Other (anything that doesn't fit above)
-- Gifts (presents, donations)
-- Income (salary, refunds, incoming transfers)
-- Investment (stocks, ETFs, savings)
-- Transfer (between own accounts - internal)
+${list}
 
 For each transaction, return the category and extract the merchant name if possible.
 
@@ -58,9 +48,11 @@ Respond in JSON format only:
   { "id": "...", "category": "...", "merchant": "..." },
   ...
 ]`
+}
 
 export async function categorizeWithAI(transactions: TransactionInput[]): Promise<CategorizedTransaction[]> {
   const openai = getOpenAIClient()
+  const systemPrompt = buildSystemPrompt(getCategories())
 
   // Batch transactions for efficiency
   const BATCH_SIZE = 25
@@ -76,7 +68,7 @@ export async function categorizeWithAI(transactions: TransactionInput[]): Promis
     const response = await openai.chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'system', content: systemPrompt },
         { role: 'user', content: userMessage }
       ],
       temperature: 0.1,
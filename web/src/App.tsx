@@ -1,14 +1,73 @@
-import { useState, useRef, useEffect } from 'react'
-import { Transaction, DateRange, SheetConfig, RawTransaction } from './types'
+import { useState, useRef, useEffect, useMemo } from 'react'
+import {
+  Transaction,
+  DateRange,
+  SheetConfig,
+  RawTransaction,
+  TransactionEdit,
+  ImportDiagnostic,
+  StatementInfo,
+  Category,
+  CategorizationRule,
+} from './types'
 import Dashboard from './components/Dashboard'
-import FileUpload, { ImportOptions } from './components/FileUpload'
-import { parseFile } from './lib/parser'
-import { anonymizeTransactions, processWithoutAnonymization } from './lib/anonymizer'
-import { categorizeWithRules, setLearnedMappings } from './lib/categorizer'
-import { detectRecurring } from './lib/recurring'
-import { detectDoubleBookings } from './lib/double-booking'
-import { getLearnedMappings, saveLearnedMapping } from './lib/api'
-import { Shield, ShieldOff } from 'lucide-react'
+import FileUpload, { ImportOptions, ImportFile } from './components/FileUpload'
+import ImportSummary from './components/ImportSummary'
+import RecategorizePrompt from './components/RecategorizePrompt'
+import ValidationReport from './components/ValidationReport'
+import PipelineProgressPanel from './components/PipelineProgressPanel'
+import { getFileType, detectCurrency, ParseResult } from './lib/parser'
+import { applyResolutions, needsReview, DiagnosticResolution } from './lib/import-diagnostics'
+import { getLearnedMappingKey, findSimilarTransactions, normalizeIban, SimilarityBasis } from './lib/categorizer'
+import { isMaskedIban } from './lib/rules'
+import { toRawTransactions, toStoredTransactions } from './lib/ledger'
+import { getRecategorizationEdits, RecategorizeScope, TransactionUpdate } from './lib/recategorize'
+import { mergeEdit, toTransactionEdit } from './lib/edit-overlay'
+import { buildRateTable, getRequiredCurrencies, RateTable } from './lib/currency'
+import { renameCategoryIn } from './lib/categories'
+import { CategoryContext } from './lib/category-context'
+import { CategorizationChanges } from './lib/impact-preview'
+import {
+  parseInWorker,
+  processInWorker,
+  cancelPipeline,
+  PipelineCancelledError,
+  PipelineProgress,
+} from './lib/pipeline'
+import {
+  analyzeImport,
+  mergeImport,
+  combineImports,
+  tagSourceAccount,
+  ImportAnalysis,
+  FileImportResult,
+} from './lib/import-merge'
+import {
+  getLearnedMappings,
+  saveLearnedMapping,
+  saveBatchLearnedMappings,
+  LearnedMapping,
+  getStoredTransactions,
+  saveTransactions,
+  clearStoredTransactions,
+  getTransactionEdits,
+  saveTransactionEdits,
+  getBaseCurrency,
+  saveBaseCurrency,
+  getExchangeRates,
+  getCategories,
+  getSheetConfig,
+  getRules,
+  saveRule,
+} from './lib/api'
+import { Shield, ShieldOff, Upload, ArrowLeft } from 'lucide-react'
+
+// A selected file after parsing (or the reason it failed)
+interface ParsedFile {
+  input: ImportFile
+  result?: ParseResult
+  error?: string
+}
 
 function App() {
   const [transactions, setTransactions] = useState<Transaction[]>([])
@@ -17,203 +76,680 @@ function App() {
   const [dateRange, setDateRange] = useState<DateRange | null>(null)
   const [sheetConfig, setSheetConfig] = useState<SheetConfig | null>(null)
   const [anonymizationEnabled, setAnonymizationEnabled] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [pendingImport, setPendingImport] = useState<{
+    files: FileImportResult[]
+    incoming: RawTransaction[]
+    analysis?: ImportAnalysis
+  } | null>(null)
+  const [pendingReview, setPendingReview] = useState<{ files: ParsedFile[]; options: ImportOptions } | null>(null)
+  // A category change that could also apply to similar transactions, waiting for the user's choice
+  const [pendingRecategorization, setPendingRecategorization] = useState<{
+    transaction: Transaction
+    updates: Partial<Transaction>
+  } | null>(null)
+  // Statement balances of this session's imports, used to spot truncated exports
+  const [statements, setStatements] = useState<StatementInfo[]>([])
+  // Stage of the running parse/processing job in the worker
+  const [progress, setProgress] = useState<PipelineProgress | null>(null)
+  // Chosen base currency; until then totals use the most common transaction currency
+  const [baseCurrency, setBaseCurrency] = useState<string | null>(null)
+  const [exchangeRates, setExchangeRates] = useState<RateTable>(new Map())
+  const [ratesVersion, setRatesVersion] = useState(0) // Bumped after an import to refetch rates
+  // Category taxonomy from the API, shared with all components through CategoryContext
+  const [categories, setCategories] = useState<Category[]>([])
   
   // Store raw transactions to allow toggling anonymization
   const rawTransactionsRef = useRef<RawTransaction[]>([])
+  
+  // Manual edits by transaction ID, re-applied on every (re-)import
+  const editsRef = useRef<Map<string, TransactionEdit>>(new Map())
+
+  // Learned categorizations, handed to the worker with every processing job
+  const learnedMappingsRef = useRef<LearnedMapping[]>([])
+
+  // User categorization rules, handed to the worker with every processing job
+  const rulesRef = useRef<CategorizationRule[]>([])
 
   // Load learned categorizations on startup
   useEffect(() => {
     async function loadLearnedMappings() {
-      const mappings = await getLearnedMappings()
-      if (mappings.length > 0) {
-        setLearnedMappings(mappings)
-      }
+      learnedMappingsRef.current = await getLearnedMappings()
     }
     loadLearnedMappings()
   }, [])
 
-  const processTransactions = (raw: RawTransaction[], anonymize: boolean) => {
-    // Process with or without anonymization
-    const processed = anonymize 
-      ? anonymizeTransactions(raw).transactions
-      : processWithoutAnonymization(raw)
+  // Load the category taxonomy, user rules and sheet config (with the API's default column mappings) on startup
+  useEffect(() => {
+    getCategories().then(setCategories)
+    getSheetConfig().then(setSheetConfig)
+    getRules().then(rules => {
+      rulesRef.current = rules
+    })
+  }, [])
+
+  // Load manual edits so they can be re-applied to re-imported transactions
+  useEffect(() => {
+    async function loadEdits() {
+      const edits = await getTransactionEdits()
+      for (const edit of edits) {
+        mergeEdit(editsRef.current, edit)
+      }
+    }
+    loadEdits()
+  }, [])
+
+  // Restore the persisted transaction ledger on startup
+  useEffect(() => {
+    async function loadStoredTransactions() {
+      const stored = await getStoredTransactions()
+      if (stored.length === 0) return
+
+      // Reprocessing (e.g. toggling anonymization) starts from the stored imports
+      rawTransactionsRef.current = toRawTransactions(stored)
+      const transactions = stored.map(({ raw: _raw, ...tx }) => tx)
+      setTransactions(transactions)
+      updateDateRange(transactions)
+    }
+    loadStoredTransactions()
+  }, [])
+
+  // Load the base currency setting
+  useEffect(() => {
+    getBaseCurrency().then(setBaseCurrency)
+  }, [])
+
+  const effectiveBaseCurrency = useMemo(
+    () => baseCurrency || detectCurrency(transactions),
+    [baseCurrency, transactions]
+  )
+
+  // Fetch rates for the currencies in use whenever that set changes
+  const requiredCurrencies = useMemo(
+    () => getRequiredCurrencies(transactions, effectiveBaseCurrency).join(','),
+    [transactions, effectiveBaseCurrency]
+  )
+  useEffect(() => {
+    if (!requiredCurrencies) {
+      setExchangeRates(new Map())
+      return
+    }
+
+    let stale = false
+    getExchangeRates(requiredCurrencies.split(',')).then(rates => {
+      if (!stale) setExchangeRates(buildRateTable(rates))
+    })
+    return () => {
+      stale = true
+    }
+  }, [requiredCurrencies, ratesVersion])
+
+  const handleBaseCurrencyChange = (currency: string) => {
+    setBaseCurrency(currency)
+    saveBaseCurrency(currency)
+  }
+
+  // Set the date range to the full months covered by the transactions
+  const updateDateRange = (txs: Transaction[]) => {
+    if (txs.length === 0) return
+
+    const dates = txs.map(tx => new Date(tx.date).getTime())
+    const minDate = new Date(Math.min(...dates))
+    const maxDate = new Date(Math.max(...dates))
+    
+    // Set endDate to end of day (23:59:59.999) to include all transactions on that day
+    const endDate = new Date(maxDate.getFullYear(), maxDate.getMonth() + 1, 0)
+    endDate.setHours(23, 59, 59, 999)
     
-    // Apply rule-based categorization
-    const categorized = categorizeWithRules(processed)
+    setDateRange({
+      startDate: new Date(minDate.getFullYear(), minDate.getMonth(), 1),
+      endDate: endDate
+    })
+  }
+
+  // Anonymize, categorize and detect transfers/recurring payments in the worker
+  // Rejects with PipelineCancelledError when the user cancels
+  const processTransactions = async (raw: RawTransaction[], anonymize: boolean) => {
+    try {
+      return await processInWorker(
+        raw,
+        { anonymize, edits: editsRef.current, learnedMappings: learnedMappingsRef.current, categories, rules: rulesRef.current },
+        setProgress
+      )
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  // Process raw transactions, show them and persist them to the ledger
+  // With replace, the stored ledger is cleared first - only once processing went through
+  const applyRawTransactions = async (raw: RawTransaction[], replace = false) => {
+    const processed = await processTransactions(raw, anonymizationEnabled)
+    if (replace && rawTransactionsRef.current.length > 0) {
+      await clearStoredTransactions()
+    }
+
+    rawTransactionsRef.current = raw
+    setTransactions(processed)
     
-    // Detect double-bookings (internal transfers between own accounts)
-    const { transactions: withDoubleBookings } = detectDoubleBookings(categorized)
+    // Persist to the ledger so the import survives reloads
+    saveTransactions(toStoredTransactions(processed, raw))
     
-    // Detect recurring transactions
-    return detectRecurring(withDoubleBookings)
+    // Auto-detect date range from the actual transaction data
+    updateDateRange(processed)
   }
 
-  const handleFileUpload = async (file: File, options: ImportOptions) => {
+  const handleFileUpload = async (files: ImportFile[], options: ImportOptions) => {
     setIsLoading(true)
     setError(null)
     
     try {
-      // Parse file (CSV, Excel, or OFX)
-      let rawTransactions = await parseFile(file)
+      // Parse each file with its own format detection (CSV, Excel, OFX, QIF, CAMT or MT940)
+      const parsedFiles: ParsedFile[] = []
+      for (const [index, input] of files.entries()) {
+        try {
+          const result = await parseInWorker(input.file, { profile: input.profile, sheets: input.sheets }, categories, update =>
+            setProgress({
+              ...update,
+              // Spread the per-file percentage over all selected files
+              percent: update.percent !== undefined ? Math.round((index * 100 + update.percent) / files.length) : undefined,
+            })
+          )
+          parsedFiles.push({ input, result })
+        } catch (err) {
+          if (err instanceof PipelineCancelledError) throw err
+          parsedFiles.push({ input, error: err instanceof Error ? err.message : 'Failed to parse file' })
+        }
+      }
+      setProgress(null)
+
+      // Let the user fix or ignore row-level problems before anything is imported
+      if (parsedFiles.some(f => needsReview(f.result?.diagnostics))) {
+        setPendingReview({ files: parsedFiles, options })
+        return
+      }
+
+      await finishImport(parsedFiles, options, new Map())
+    } catch (err) {
+      if (!(err instanceof PipelineCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to parse file')
+      }
+    } finally {
+      setProgress(null)
+      setIsLoading(false)
+    }
+  }
+
+  const handleConfirmReview = async (resolutions: Map<ImportDiagnostic, DiagnosticResolution>) => {
+    if (!pendingReview) return
+
+    const { files, options } = pendingReview
+    setPendingReview(null)
+    try {
+      await finishImport(files, options, resolutions)
+    } catch (err) {
+      if (!(err instanceof PipelineCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to import files')
+      }
+    }
+  }
+
+  // Apply review fixes, source accounts and the date filter, then combine the files
+  const finishImport = async (
+    parsedFiles: ParsedFile[],
+    options: ImportOptions,
+    resolutions: Map<ImportDiagnostic, DiagnosticResolution>
+  ) => {
+    const results: FileImportResult[] = []
+    const perFile: RawTransaction[][] = []
+
+    for (const { input, result, error: parseError } of parsedFiles) {
+      const { file, account } = input
+      if (!result) {
+        results.push({
+          fileName: file.name,
+          format: getFileType(file).toUpperCase(),
+          parsed: 0,
+          imported: 0,
+          duplicates: 0,
+          statements: [],
+          error: parseError,
+        })
+        continue
+      }
+
+      const { statements, format, diagnostics = [] } = result
+      const parsed = applyResolutions(result.transactions, diagnostics, resolutions)
+      let rawTransactions = account ? tagSourceAccount(parsed, account) : parsed
       
       // Apply date filter if specified (filter early to reduce processing load)
       if (options.dateFilter !== 'all' && options.customStartDate) {
         const startTime = options.customStartDate.getTime()
         const endTime = options.customEndDate?.getTime() || Date.now()
         
-        const beforeCount = rawTransactions.length
         rawTransactions = rawTransactions.filter(tx => {
           const txTime = new Date(tx.date).getTime()
           return txTime >= startTime && txTime <= endTime
         })
         
-        console.log(`Date filter: ${beforeCount} → ${rawTransactions.length} transactions`)
+        console.log(`Date filter (${file.name}): ${parsed.length} → ${rawTransactions.length} transactions`)
       }
-      
-      rawTransactionsRef.current = rawTransactions
-      
-      // Process transactions
-      const processed = processTransactions(rawTransactions, anonymizationEnabled)
-      setTransactions(processed)
-      
-      // Auto-detect date range from the actual transaction data
-      if (processed.length > 0) {
-        const dates = processed.map(tx => new Date(tx.date).getTime())
-        const minDate = new Date(Math.min(...dates))
-        const maxDate = new Date(Math.max(...dates))
-        
-        // Set to the month range of the data
-        // Set endDate to end of day (23:59:59.999) to include all transactions on that day
-        const endDate = new Date(maxDate.getFullYear(), maxDate.getMonth() + 1, 0)
-        endDate.setHours(23, 59, 59, 999)
-        
-        setDateRange({
-          startDate: new Date(minDate.getFullYear(), minDate.getMonth(), 1),
-          endDate: endDate
-        })
+
+      perFile.push(rawTransactions)
+      results.push({
+        fileName: file.name,
+        format: format || getFileType(file).toUpperCase(),
+        account: account || statements[0]?.account,
+        parsed: parsed.length,
+        imported: rawTransactions.length,
+        duplicates: 0,
+        statements,
+      })
+    }
+
+    const failed = results.filter(r => r.error)
+    if (failed.length === parsedFiles.length) {
+      setError(failed.map(r => parsedFiles.length > 1 ? `${r.fileName}: ${r.error}` : r.error).join('; '))
+      return
+    }
+
+    // Merge all files into one dataset, dropping rows another file already contained
+    const { transactions: incoming, duplicates } = combineImports(perFile)
+    results.filter(r => !r.error).forEach((result, index) => {
+      result.duplicates = duplicates[index]
+      result.imported -= duplicates[index]
+    })
+    
+    // Incremental import: review duplicates before merging
+    if (options.mode === 'merge' && rawTransactionsRef.current.length > 0) {
+      setPendingImport({
+        files: results,
+        incoming,
+        analysis: analyzeImport(rawTransactionsRef.current, incoming),
+      })
+      return
+    }
+
+    // Several files: show the per-file summary first
+    if (results.length > 1) {
+      setPendingImport({ files: results, incoming })
+      return
+    }
+    
+    await replaceTransactions(incoming, results)
+  }
+
+  const replaceTransactions = async (raw: RawTransaction[], files: FileImportResult[]) => {
+    await applyRawTransactions(raw, true)
+    setStatements(files.flatMap(f => f.statements))
+    setShowImport(false)
+  }
+
+  const handleConfirmImport = async (acceptedConflicts: RawTransaction[]) => {
+    if (!pendingImport) return
+
+    try {
+      if (pendingImport.analysis) {
+        await applyRawTransactions(mergeImport(rawTransactionsRef.current, pendingImport.analysis, acceptedConflicts))
+        setStatements([...statements, ...pendingImport.files.flatMap(f => f.statements)])
+        setShowImport(false)
+      } else {
+        await replaceTransactions(pendingImport.incoming, pendingImport.files)
       }
+      setPendingImport(null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse file')
-    } finally {
-      setIsLoading(false)
+      // Cancelled: keep the summary open so the import can be confirmed again
+      if (!(err instanceof PipelineCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to import files')
+        setPendingImport(null)
+      }
     }
   }
 
-  const handleToggleAnonymization = () => {
+  const handleToggleAnonymization = async () => {
     const newValue = !anonymizationEnabled
-    setAnonymizationEnabled(newValue)
     
     // Re-process transactions with new anonymization setting
     if (rawTransactionsRef.current.length > 0) {
-      const processed = processTransactions(rawTransactionsRef.current, newValue)
-      setTransactions(processed)
+      try {
+        setTransactions(await processTransactions(rawTransactionsRef.current, newValue))
+      } catch (err) {
+        if (!(err instanceof PipelineCancelledError)) {
+          setError(err instanceof Error ? err.message : 'Failed to process transactions')
+        }
+        return
+      }
     }
+    setAnonymizationEnabled(newValue)
   }
 
   const handleClearData = () => {
+    if (!confirm('Delete all stored transactions? This cannot be undone.')) return
+
+    clearStoredTransactions()
+    rawTransactionsRef.current = []
     setTransactions([])
+    setStatements([])
     setDateRange(null)
     setError(null)
   }
 
-  const handleUpdateTransaction = (id: string, updates: Partial<Transaction>) => {
-    setTransactions(prev => {
-      const updated = prev.map(t => {
-        if (t.id !== id) return t
-        
-        const updatedTx = { ...t, ...updates, categorySource: 'manual' as const }
-        
-        // If category changed, save to learned mappings
-        if (updates.category && updates.category !== t.category) {
-          const merchantKey = t.merchant || t.recipient || t.description.slice(0, 30)
-          if (merchantKey) {
-            saveLearnedMapping(merchantKey, updates.category)
-          }
+  // Store manual edits in the overlay and apply them to what's loaded
+  const applyTransactionUpdates = (changes: TransactionUpdate[]) => {
+    const edits = changes
+      .map(({ id, updates }) => toTransactionEdit(id, updates))
+      .filter((edit): edit is TransactionEdit => edit !== null)
+    for (const edit of edits) {
+      mergeEdit(editsRef.current, edit)
+    }
+    if (edits.length > 0) {
+      saveTransactionEdits(edits)
+    }
+
+    const updatesById = new Map(changes.map(({ id, updates }) => [id, updates]))
+    setTransactions(prev => prev.map(t => {
+      const updates = updatesById.get(t.id)
+      return updates ? { ...t, ...updates, categorySource: 'manual' as const } : t
+    }))
+  }
+
+  // Remember a manual recategorization for transactions to come:
+  // as a learned mapping per merchant, or as a rule for the counterparty IBAN
+  const rememberCategory = async (transactions: Transaction[], category: string, basis: SimilarityBasis) => {
+    if (basis === 'iban') {
+      const tx = transactions[0]
+      const iban = normalizeIban(tx.recipientIban)
+      if (!iban || isMaskedIban(iban)) {
+        setError('Turn off anonymization to remember a category for an IBAN')
+        return
+      }
+      // Update the rule an earlier choice for this IBAN created rather than adding another
+      const existing = rulesRef.current.find(rule =>
+        Object.keys(rule.conditions).length === 1 && normalizeIban(rule.conditions.iban) === iban
+      )
+      try {
+        if (existing) {
+          const { id, name, priority, enabled, conditions, actions } = existing
+          await saveRule({ name, priority, enabled, conditions, actions: { ...actions, category } }, id)
+        } else {
+          await saveRule({
+            name: `${tx.merchant || tx.recipient || iban} → ${category}`,
+            priority: 0,
+            enabled: true,
+            conditions: { iban },
+            actions: { category },
+          })
         }
-        
-        return updatedTx
-      })
-      return updated
-    })
+        rulesRef.current = await getRules()
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save rule')
+      }
+      return
+    }
+
+    const merchants = [...new Set(transactions.map(getLearnedMappingKey).filter(Boolean))]
+    if (merchants.length === 0) return
+    if (merchants.length === 1) {
+      await saveLearnedMapping(merchants[0], category)
+    } else {
+      await saveBatchLearnedMappings(merchants.map(merchant => ({ merchant, category })))
+    }
+    learnedMappingsRef.current = await getLearnedMappings()
   }
 
-  const handleBulkUpdate = (ids: string[], updates: Partial<Transaction>) => {
-    setTransactions(prev =>
-      prev.map(t => ids.includes(t.id) ? { ...t, ...updates, categorySource: 'manual' as const } : t)
+  const handleUpdateTransaction = (id: string, updates: Partial<Transaction>) => {
+    const tx = transactions.find(t => t.id === id)
+    const category = updates.category
+    if (!tx || !category || category === tx.category) {
+      applyTransactionUpdates([{ id, updates }])
+      return
+    }
+
+    // Ask before touching anything when other loaded transactions look alike
+    const hasSimilar = findSimilarTransactions(tx, transactions, category, 'merchant').length > 0 ||
+      findSimilarTransactions(tx, transactions, category, 'iban').length > 0
+    if (hasSimilar) {
+      setPendingRecategorization({ transaction: tx, updates })
+      return
+    }
+
+    applyTransactionUpdates([{ id, updates }])
+    rememberCategory([tx], category, 'merchant')
+  }
+
+  const handleConfirmRecategorization = async (scope: RecategorizeScope, basis: SimilarityBasis, similar: Transaction[]) => {
+    if (!pendingRecategorization) return
+    const { transaction, updates } = pendingRecategorization
+    const category = updates.category!
+    setPendingRecategorization(null)
+
+    if (scope !== 'future') {
+      applyTransactionUpdates(getRecategorizationEdits(scope, transaction, updates, similar))
+      if (scope === 'all') {
+        rememberCategory([transaction, ...similar], category, basis)
+      }
+      return
+    }
+
+    // Remember first, then dry-run with it to find the similar transactions it would move
+    applyTransactionUpdates(getRecategorizationEdits('this', transaction, updates, similar))
+    await rememberCategory([transaction], category, basis)
+    try {
+      const dryRun = await handlePreviewCategorization({})
+      const pins = getRecategorizationEdits(scope, transaction, updates, similar, dryRun)
+        .filter(edit => edit.id !== transaction.id)
+      applyTransactionUpdates(pins)
+    } catch (err) {
+      if (!(err instanceof PipelineCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to keep similar transactions in place')
+      }
+    }
+  }
+
+  // Reload the taxonomy after it was edited
+  // The API has already applied a rename or merge to stored data; mirror it in what's loaded
+  const handleCategoriesChange = async (renamed?: { from: string; to: string }) => {
+    setCategories(await getCategories())
+    if (!renamed) return
+
+    const { from, to } = renamed
+    rawTransactionsRef.current = rawTransactionsRef.current.map(tx => renameCategoryIn(tx, from, to))
+    for (const [id, edit] of editsRef.current) {
+      editsRef.current.set(id, renameCategoryIn(edit, from, to))
+    }
+    setTransactions(prev => prev.map(tx => renameCategoryIn(tx, from, to)))
+
+    learnedMappingsRef.current = await getLearnedMappings()
+    rulesRef.current = await getRules()
+    if (sheetConfig) {
+      setSheetConfig(await getSheetConfig())
+    }
+  }
+
+  // Re-run categorization over the loaded history after rules or learned mappings changed
+  const recategorizeLoaded = async () => {
+    if (rawTransactionsRef.current.length === 0) return
+
+    try {
+      await applyRawTransactions(rawTransactionsRef.current)
+    } catch (err) {
+      if (!(err instanceof PipelineCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to process transactions')
+      }
+    }
+  }
+
+  const handleRulesChange = async () => {
+    rulesRef.current = await getRules()
+    await recategorizeLoaded()
+  }
+
+  const handleLearnedMappingsChange = async () => {
+    learnedMappingsRef.current = await getLearnedMappings()
+    await recategorizeLoaded()
+  }
+
+  // Dry run of categorization over the loaded history with changed rules or learned mappings
+  // Nothing loaded or stored is touched; the result is compared in lib/impact-preview.ts
+  const handlePreviewCategorization = (changes: CategorizationChanges) =>
+    processInWorker(
+      rawTransactionsRef.current,
+      {
+        anonymize: anonymizationEnabled,
+        edits: editsRef.current,
+        learnedMappings: changes.learnedMappings ?? learnedMappingsRef.current,
+        categories,
+        rules: changes.rules ?? rulesRef.current,
+      },
+      () => {}
     )
+
+  const handleBulkUpdate = (ids: string[], updates: Partial<Transaction>) => {
+    const category = updates.category
+    if (category) {
+      const idSet = new Set(ids)
+      const recategorized = transactions.filter(t => idSet.has(t.id) && t.category !== category)
+      if (recategorized.length > 0) {
+        rememberCategory(recategorized, category, 'merchant')
+      }
+    }
+
+    applyTransactionUpdates(ids.map(id => ({ id, updates })))
   }
 
   return (
-    <div className="min-h-screen bg-midnight-950">
-      <header className="border-b border-midnight-800 bg-midnight-900/50 backdrop-blur-sm sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-accent to-accent-dark flex items-center justify-center">
-                <span className="text-xl font-bold text-white">F</span>
-              </div>
-              <div>
-                <h1 className="text-xl font-bold text-white">FinKit</h1>
-                <p className="text-xs text-midnight-400">Transaction analysis & insights</p>
+    <CategoryContext.Provider value={categories}>
+      <div className="min-h-screen bg-midnight-950">
+        <header className="border-b border-midnight-800 bg-midnight-900/50 backdrop-blur-sm sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-accent to-accent-dark flex items-center justify-center">
+                  <span className="text-xl font-bold text-white">F</span>
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-white">FinKit</h1>
+                  <p className="text-xs text-midnight-400">Transaction analysis & insights</p>
+                </div>
               </div>
+              {transactions.length > 0 && (
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={handleToggleAnonymization}
+                    className={`
+                      flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all
+                      ${anonymizationEnabled 
+                        ? 'bg-accent/20 text-accent border border-accent/30 hover:bg-accent/30' 
+                        : 'bg-orange-500/20 text-orange-400 border border-orange-500/30 hover:bg-orange-500/30'
+                      }
+                    `}
+                    title={anonymizationEnabled ? 'Click to show original data' : 'Click to anonymize data'}
+                  >
+                    {anonymizationEnabled ? (
+                      <>
+                        <Shield className="w-4 h-4" />
+                        <span>Anonymized</span>
+                      </>
+                    ) : (
+                      <>
+                        <ShieldOff className="w-4 h-4" />
+                        <span>Original</span>
+                      </>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="btn-secondary text-sm flex items-center gap-2"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Import
+                  </button>
+                  <button
+                    onClick={handleClearData}
+                    className="btn-secondary text-sm"
+                  >
+                    Clear All Data
+                  </button>
+                </div>
+              )}
             </div>
-            {transactions.length > 0 && (
-              <div className="flex items-center gap-3">
-                <button
-                  onClick={handleToggleAnonymization}
-                  className={`
-                    flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all
-                    ${anonymizationEnabled 
-                      ? 'bg-accent/20 text-accent border border-accent/30 hover:bg-accent/30' 
-                      : 'bg-orange-500/20 text-orange-400 border border-orange-500/30 hover:bg-orange-500/30'
-                    }
-                  `}
-                  title={anonymizationEnabled ? 'Click to show original data' : 'Click to anonymize data'}
-                >
-                  {anonymizationEnabled ? (
-                    <>
-                      <Shield className="w-4 h-4" />
-                      <span>Anonymized</span>
-                    </>
-                  ) : (
-                    <>
-                      <ShieldOff className="w-4 h-4" />
-                      <span>Original</span>
-                    </>
-                  )}
-                </button>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {transactions.length === 0 || showImport ? (
+            <>
+              {transactions.length > 0 && (
                 <button
-                  onClick={handleClearData}
-                  className="btn-secondary text-sm"
+                  onClick={() => setShowImport(false)}
+                  className="flex items-center gap-2 text-sm text-midnight-400 hover:text-white mb-6"
                 >
-                  Clear All Data
+                  <ArrowLeft className="w-4 h-4" />
+                  Back to dashboard
                 </button>
-              </div>
-            )}
-          </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {transactions.length === 0 ? (
-          <FileUpload 
-            onFileUpload={handleFileUpload} 
-            isLoading={isLoading}
-            error={error}
+              )}
+              <FileUpload 
+                onFileUpload={handleFileUpload} 
+                isLoading={isLoading}
+                error={error}
+                hasExistingData={transactions.length > 0}
+              />
+            </>
+          ) : (
+            <Dashboard
+              transactions={transactions}
+              statements={statements}
+              dateRange={dateRange}
+              onDateRangeChange={setDateRange}
+              onUpdateTransaction={handleUpdateTransaction}
+              onBulkUpdate={handleBulkUpdate}
+              sheetConfig={sheetConfig}
+              onSheetConfigChange={setSheetConfig}
+              baseCurrency={effectiveBaseCurrency}
+              exchangeRates={exchangeRates}
+              onBaseCurrencyChange={handleBaseCurrencyChange}
+              onExchangeRatesImported={() => setRatesVersion(v => v + 1)}
+              onCategoriesChange={handleCategoriesChange}
+              onRulesChange={handleRulesChange}
+              onLearnedMappingsChange={handleLearnedMappingsChange}
+              onPreviewCategorization={handlePreviewCategorization}
+            />
+          )}
+        </main>
+
+        {progress && <PipelineProgressPanel progress={progress} onCancel={cancelPipeline} />}
+
+        {pendingReview && (
+          <ValidationReport
+            files={pendingReview.files
+              .filter(f => f.result)
+              .map(f => ({ fileName: f.input.file.name, diagnostics: f.result!.diagnostics || [] }))}
+            onConfirm={handleConfirmReview}
+            onCancel={() => setPendingReview(null)}
           />
-        ) : (
-          <Dashboard
+        )}
+
+        {pendingImport && (
+          <ImportSummary
+            files={pendingImport.files}
+            analysis={pendingImport.analysis}
+            incomingCount={pendingImport.incoming.length}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
+        {pendingRecategorization && (
+          <RecategorizePrompt
+            transaction={pendingRecategorization.transaction}
+            category={pendingRecategorization.updates.category!}
             transactions={transactions}
-            dateRange={dateRange}
-            onDateRangeChange={setDateRange}
-            onUpdateTransaction={handleUpdateTransaction}
-            onBulkUpdate={handleBulkUpdate}
-            sheetConfig={sheetConfig}
-            onSheetConfigChange={setSheetConfig}
+            onConfirm={handleConfirmRecategorization}
+            onCancel={() => setPendingRecategorization(null)}
           />
         )}
-      </main>
-    </div>
+      </div>
+    </CategoryContext.Provider>
   )
 }
 
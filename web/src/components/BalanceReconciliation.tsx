@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { CheckCircle, AlertTriangle, Copy, Scissors } from 'lucide-react'
+import { Transaction, StatementInfo } from '../types'
+import { reconcileBalances, BalanceIssue } from '../lib/reconciliation'
+
+interface BalanceReconciliationProps {
+  transactions: Transaction[]
+  statements: StatementInfo[]
+}
+
+const ISSUE_ICONS: Record<BalanceIssue['kind'], JSX.Element> = {
+  gap: <AlertTriangle className="w-4 h-4 text-orange-400 shrink-0 mt-0.5" />,
+  duplicate: <Copy className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />,
+  truncated: <Scissors className="w-4 h-4 text-orange-400 shrink-0 mt-0.5" />,
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+export default function BalanceReconciliation({ transactions, statements }: BalanceReconciliationProps) {
+  const accounts = useMemo(() => reconcileBalances(transactions, statements), [transactions, statements])
+  const [selected, setSelected] = useState(0)
+
+  if (accounts.length === 0) {
+    return (
+      <div className="card">
+        <h3 className="text-lg font-semibold text-white mb-2">Balances</h3>
+        <p className="text-midnight-400 text-sm">
+          None of the imported transactions carry a running balance. Exports with a Kontostand or Saldo column
+          can be reconciled here.
+        </p>
+      </div>
+    )
+  }
+
+  const account = accounts[Math.min(selected, accounts.length - 1)]
+  const chartData = account.history.map(point => ({
+    ...point,
+    displayDate: new Date(point.date).toLocaleDateString('de-DE', { day: '2-digit', month: 'short', year: '2-digit' }),
+  }))
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-midnight-800 border border-midnight-600 rounded-lg px-3 py-2 shadow-xl">
+          <p className="font-medium text-white mb-1">{label}</p>
+          <p className="text-sm text-accent">{formatCurrency(payload[0].value, account.currency)}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-lg font-semibold text-white">Balances</h3>
+        {accounts.length > 1 && (
+          <select
+            value={selected}
+            onChange={(e) => setSelected(Number(e.target.value))}
+            className="input text-sm py-1 max-w-xs"
+          >
+            {accounts.map((a, index) => (
+              <option key={a.account} value={index}>
+                {a.accountName ? `${a.accountName} (${a.account})` : a.account}
+                {a.isReconciled ? '' : ` - ${a.issues.length} issues`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="h-[240px] mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334e68" />
+            <XAxis
+              dataKey="displayDate"
+              stroke="#627d98"
+              fontSize={12}
+              tickLine={false}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              stroke="#627d98"
+              fontSize={12}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(v) => formatCurrency(v, account.currency)}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Line type="stepAfter" dataKey="balance" name="Balance" stroke="#10b981" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {account.isReconciled ? (
+        <div className="flex items-center gap-2 text-sm text-green-400">
+          <CheckCircle className="w-4 h-4" />
+          All {account.transactionCount} balances add up
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-midnight-400">
+            {account.issues.length} {account.issues.length === 1 ? 'issue' : 'issues'}
+          </h4>
+          {account.issues.map((issue, index) => (
+            <div key={index} className="flex items-start gap-3 bg-midnight-800 rounded-lg p-3">
+              {ISSUE_ICONS[issue.kind]}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">{issue.message}</p>
+                <p className="text-xs text-midnight-500 truncate mt-0.5">
+                  {new Date(issue.date).toLocaleDateString('de-DE')}
+                  {issue.transaction && ` · ${issue.transaction.recipient || issue.transaction.description}`}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
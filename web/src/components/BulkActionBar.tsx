@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react'
 import { X, ChevronDown, Tag, EyeOff, Eye } from 'lucide-react'
-import { AVAILABLE_CATEGORIES, CATEGORY_COLORS } from '../lib/categorizer'
+import { sortCategoryTree } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
 
 interface BulkActionBarProps {
   selectedCount: number
@@ -17,6 +18,7 @@ export default function BulkActionBar({
   onExclude,
   onInclude,
 }: BulkActionBarProps) {
+  const categories = useCategories()
   const [showDropdown, setShowDropdown] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
@@ -52,20 +54,20 @@ export default function BulkActionBar({
 
           {showDropdown && (
             <div className="absolute bottom-full left-0 mb-2 bg-midnight-800 border border-midnight-600 rounded-lg shadow-xl min-w-[200px] max-h-[300px] overflow-y-auto">
-              {AVAILABLE_CATEGORIES.map((category) => (
+              {sortCategoryTree(categories).map((category) => (
                 <button
-                  key={category}
+                  key={category.id}
                   onClick={() => {
-                    onCategoryChange(category)
+                    onCategoryChange(category.name)
                     setShowDropdown(false)
                   }}
-                  className="w-full flex items-center gap-3 px-3 py-2 hover:bg-midnight-700 text-left"
+                  className={`w-full flex items-center gap-3 px-3 py-2 hover:bg-midnight-700 text-left ${category.parentId !== undefined ? 'pl-7' : ''}`}
                 >
                   <span
                     className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: CATEGORY_COLORS[category] }}
+                    style={{ backgroundColor: category.color }}
                   />
-                  <span className="text-sm">{category}</span>
+                  <span className="text-sm">{category.name}</span>
                 </button>
               ))}
             </div>
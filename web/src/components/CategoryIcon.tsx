@@ -0,0 +1,59 @@
+import {
+  ArrowLeftRight, Baby, Bike, Book, Briefcase, Car, Coffee, Dog, Dumbbell, Film, Fuel, Gamepad2, Gift,
+  GraduationCap, HeartPulse, Home, Landmark, Music, PiggyBank, Plane, Radio, Receipt, Repeat, Shield, Shirt,
+  ShoppingBag, ShoppingCart, Smartphone, Sparkles, Tag, TrainFront, TrendingUp, Users, Utensils, Wallet, Wifi,
+  Wrench, Zap, LucideIcon,
+} from 'lucide-react'
+
+// Icons a category can pick, by the key stored in the API
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  'home': Home,
+  'utensils': Utensils,
+  'coffee': Coffee,
+  'shopping-cart': ShoppingCart,
+  'shopping-bag': ShoppingBag,
+  'shirt': Shirt,
+  'gamepad': Gamepad2,
+  'film': Film,
+  'music': Music,
+  'repeat': Repeat,
+  'car': Car,
+  'fuel': Fuel,
+  'bike': Bike,
+  'train': TrainFront,
+  'plane': Plane,
+  'wifi': Wifi,
+  'smartphone': Smartphone,
+  'zap': Zap,
+  'wrench': Wrench,
+  'shield': Shield,
+  'radio': Radio,
+  'heart': HeartPulse,
+  'dumbbell': Dumbbell,
+  'users': Users,
+  'baby': Baby,
+  'dog': Dog,
+  'gift': Gift,
+  'book': Book,
+  'graduation-cap': GraduationCap,
+  'briefcase': Briefcase,
+  'receipt': Receipt,
+  'landmark': Landmark,
+  'wallet': Wallet,
+  'piggy-bank': PiggyBank,
+  'trending-up': TrendingUp,
+  'arrow-left-right': ArrowLeftRight,
+  'sparkles': Sparkles,
+  'tag': Tag,
+}
+
+interface CategoryIconProps {
+  icon?: string
+  color?: string
+  className?: string
+}
+
+export default function CategoryIcon({ icon, color, className = 'w-4 h-4' }: CategoryIconProps) {
+  const Icon = (icon && CATEGORY_ICONS[icon]) || Tag
+  return <Icon className={className} style={color ? { color } : undefined} />
+}
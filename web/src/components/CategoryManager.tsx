@@ -0,0 +1,321 @@
+import { useState } from 'react'
+import { X, Plus, Pencil, Trash2, GitMerge, Lock, Loader2 } from 'lucide-react'
+import { Category, CategoryInput, CategoryKind } from '../types'
+import { isDefaultTaxonomy, sortCategoryTree } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { createCategory, updateCategory, mergeCategory, deleteCategory } from '../lib/api'
+import CategoryIcon, { CATEGORY_ICONS } from './CategoryIcon'
+
+interface CategoryManagerProps {
+  onChange: (renamed?: { from: string; to: string }) => void // Called after every saved change
+  onClose: () => void
+}
+
+const KINDS: Array<{ value: CategoryKind; label: string }> = [
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' },
+  { value: 'savings', label: 'Savings' },
+  { value: 'investment', label: 'Investment' },
+  { value: 'transfer', label: 'Transfer' },
+]
+
+interface CategoryFormProps {
+  initial: CategoryInput
+  category?: Category // The category being edited, if any
+  categories: Category[]
+  saving: boolean
+  onSubmit: (input: CategoryInput) => void
+  onCancel: () => void
+}
+
+function CategoryForm({ initial, category, categories, saving, onSubmit, onCancel }: CategoryFormProps) {
+  const [input, setInput] = useState<CategoryInput>(initial)
+
+  // One level deep: only top-level categories can be parents, and a parent can't become a child
+  const hasChildren = category !== undefined && categories.some(c => c.parentId === category.id)
+  const parents = categories.filter(c => c.parentId === undefined && c.id !== category?.id)
+
+  const update = (updates: Partial<CategoryInput>) => setInput({ ...input, ...updates })
+
+  return (
+    <div className="bg-midnight-800 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-[1fr,140px] gap-3">
+        <input
+          type="text"
+          value={input.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Category name"
+          className="input text-sm"
+          disabled={category?.isSystem}
+          autoFocus
+        />
+        <select
+          value={input.kind}
+          onChange={(e) => update({ kind: e.target.value as CategoryKind })}
+          className="input text-sm"
+          disabled={category?.isSystem}
+        >
+          {KINDS.map(kind => (
+            <option key={kind.value} value={kind.value}>{kind.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-[1fr,140px] gap-3">
+        <select
+          value={input.parentId ?? ''}
+          onChange={(e) => {
+            const parent = categories.find(c => c.id === Number(e.target.value))
+            // New subcategories start with their parent's type
+            update({ parentId: parent?.id ?? null, ...(parent && !category ? { kind: parent.kind } : {}) })
+          }}
+          className="input text-sm"
+          disabled={hasChildren}
+          title={hasChildren ? 'Categories with subcategories stay top-level' : undefined}
+        >
+          <option value="">No parent (top-level)</option>
+          {parents.map(parent => (
+            <option key={parent.id} value={parent.id}>Subcategory of {parent.name}</option>
+          ))}
+        </select>
+        <input
+          type="color"
+          value={input.color}
+          onChange={(e) => update({ color: e.target.value })}
+          className="input h-10 p-1 cursor-pointer"
+          title="Color"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {Object.keys(CATEGORY_ICONS).map(icon => (
+          <button
+            key={icon}
+            onClick={() => update({ icon })}
+            className={`p-1.5 rounded-lg transition-colors ${input.icon === icon ? 'bg-midnight-600 ring-1 ring-accent' : 'hover:bg-midnight-700'}`}
+            title={icon}
+          >
+            <CategoryIcon icon={icon} color={input.icon === icon ? input.color : undefined} className="w-4 h-4 text-midnight-300" />
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        value={input.description || ''}
+        onChange={(e) => update({ description: e.target.value })}
+        placeholder="Description for AI categorization, e.g. supermarkets, food stores"
+        className="input text-sm w-full"
+      />
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="btn-secondary text-sm" disabled={saving}>
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit({ ...input, name: input.name.trim(), description: input.description?.trim() || undefined })}
+          className="btn-primary text-sm flex items-center gap-2"
+          disabled={saving || !input.name.trim()}
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {category ? 'Save' : 'Add Category'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default function CategoryManager({ onChange, onClose }: CategoryManagerProps) {
+  const categories = useCategories()
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [merging, setMerging] = useState<{ id: number; into: number | null } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Run a change against the API and reload the taxonomy; errors stay in the dialog
+  const run = async (action: () => Promise<{ from: string; to: string } | void>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const renamed = await action()
+      onChange(renamed || undefined)
+      setEditingId(null)
+      setMerging(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save category')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreate = (input: CategoryInput) => run(async () => {
+    await createCategory(input)
+  })
+
+  const handleUpdate = (category: Category, input: CategoryInput) => run(async () => {
+    await updateCategory(category.id, input)
+    if (input.name !== category.name) return { from: category.name, to: input.name }
+  })
+
+  const handleMerge = (category: Category, intoId: number) => {
+    const target = categories.find(c => c.id === intoId)
+    if (!target) return
+    if (!confirm(`Move all transactions, edits and learned mappings of "${category.name}" to "${target.name}" and remove "${category.name}"?`)) return
+
+    run(async () => {
+      await mergeCategory(category.id, intoId)
+      return { from: category.name, to: target.name }
+    })
+  }
+
+  const handleDelete = (category: Category) => {
+    if (!confirm(`Delete the category "${category.name}"?`)) return
+    run(() => deleteCategory(category.id))
+  }
+
+  const toInput = (category: Category): CategoryInput => ({
+    name: category.name,
+    kind: category.kind,
+    color: category.color,
+    icon: category.icon,
+    description: category.description,
+    parentId: category.parentId ?? null,
+  })
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-midnight-700 shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Categories</h2>
+            <p className="text-sm text-midnight-400">
+              Renaming or merging also updates transactions, learned mappings and sheet columns
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-1">
+          {error && (
+            <p className="text-sm text-red-400 mb-3">{error}</p>
+          )}
+
+          {sortCategoryTree(categories).map(category => (
+            <div key={category.id} className={category.parentId !== undefined ? 'ml-8' : ''}>
+              {editingId === category.id ? (
+                <CategoryForm
+                  initial={toInput(category)}
+                  category={category}
+                  categories={categories}
+                  saving={saving}
+                  onSubmit={(input) => handleUpdate(category, input)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-midnight-800 group">
+                  <CategoryIcon icon={category.icon} color={category.color} />
+                  <span className="text-sm text-white flex-1 truncate" title={category.description}>
+                    {category.name}
+                  </span>
+                  {category.isSystem && (
+                    <span title="Built-in category"><Lock className="w-3 h-3 text-midnight-500" /></span>
+                  )}
+                  <span className="text-xs text-midnight-400 capitalize w-20 text-right">{category.kind}</span>
+
+                  {merging?.id === category.id ? (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={merging.into ?? ''}
+                        onChange={(e) => setMerging({ id: category.id, into: Number(e.target.value) || null })}
+                        className="input text-xs py-1"
+                      >
+                        <option value="">Merge into...</option>
+                        {sortCategoryTree(categories).filter(c => c.id !== category.id).map(c => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => merging.into && handleMerge(category, merging.into)}
+                        className="btn-primary text-xs py-1"
+                        disabled={!merging.into || saving}
+                      >
+                        Merge
+                      </button>
+                      <button onClick={() => setMerging(null)} className="p-1 text-midnight-400 hover:text-white">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => setEditingId(category.id)}
+                        className="p-1.5 hover:bg-midnight-700 rounded-lg text-midnight-400 hover:text-white"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {!category.isSystem && (
+                        <>
+                          <button
+                            onClick={() => setMerging({ id: category.id, into: null })}
+                            className="p-1.5 hover:bg-midnight-700 rounded-lg text-midnight-400 hover:text-white"
+                            title="Merge into another category"
+                          >
+                            <GitMerge className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(category)}
+                            className="p-1.5 hover:bg-midnight-700 rounded-lg text-midnight-400 hover:text-red-400"
+                            title="Delete (only if unused)"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {isDefaultTaxonomy(categories) && (
+            <p className="text-sm text-midnight-400">Categories are not available - is the API running?</p>
+          )}
+
+          <div className="pt-3">
+            {editingId === 'new' ? (
+              <CategoryForm
+                initial={{ name: '', kind: 'expense', color: '#64748b', icon: 'tag', parentId: null }}
+                categories={categories}
+                saving={saving}
+                onSubmit={handleCreate}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <button
+                onClick={() => setEditingId('new')}
+                className="flex items-center gap-1 text-sm text-accent hover:text-accent-light"
+                disabled={isDefaultTaxonomy(categories)}
+              >
+                <Plus className="w-4 h-4" />
+                Add Category
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end p-6 border-t border-midnight-700 shrink-0">
+          <button onClick={onClose} className="btn-secondary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
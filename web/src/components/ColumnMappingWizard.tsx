@@ -0,0 +1,263 @@
+import { useState } from 'react'
+import { Columns, AlertTriangle } from 'lucide-react'
+import { BankProfile } from '../types'
+import { CSVPreview, parseRowsWithProfile } from '../lib/parser'
+
+interface ColumnMappingWizardProps {
+  fileName: string
+  preview: CSVPreview
+  initialProfile?: BankProfile
+  onConfirm: (profile: BankProfile) => void
+  onCancel: () => void
+}
+
+const FIELD_OPTIONS = [
+  { value: '', label: 'Ignore' },
+  { value: 'date', label: 'Booking date' },
+  { value: 'valueDate', label: 'Value date' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'debit', label: 'Debit (money out)' },
+  { value: 'credit', label: 'Credit (money in)' },
+  { value: 'description', label: 'Description' },
+  { value: 'recipient', label: 'Payee / payer' },
+  { value: 'recipientIban', label: 'Payee IBAN' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'originalAmount', label: 'Original amount (foreign currency)' },
+  { value: 'originalCurrency', label: 'Original currency' },
+  { value: 'exchangeRate', label: 'Exchange rate' },
+  { value: 'balance', label: 'Balance after booking' },
+  { value: 'creditorId', label: 'Creditor ID' },
+  { value: 'mandateRef', label: 'Mandate reference' },
+  { value: 'endToEndId', label: 'End-to-end reference' },
+  { value: 'category', label: 'Category' },
+  { value: 'referenceAccount', label: 'Own account' },
+  { value: 'referenceAccountName', label: 'Own account name' },
+] as const
+
+const DATE_FORMAT_OPTIONS: Array<{ value: BankProfile['dateFormat']; label: string }> = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'DD.MM.YYYY', label: 'DD.MM.YYYY' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+]
+
+const NUMBER_FORMAT_OPTIONS: Array<{ value: BankProfile['numberFormat']; label: string }> = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'de', label: '1.234,56' },
+  { value: 'en', label: '1,234.56' },
+]
+
+const SIGN_OPTIONS: Array<{ value: BankProfile['signConvention']; label: string }> = [
+  { value: 'signed', label: 'Expenses are negative' },
+  { value: 'inverted', label: 'Expenses are positive' },
+  { value: 'debit-credit', label: 'Separate debit / credit columns' },
+]
+
+// Pre-fill the mapping from header names we can guess
+function guessField(header: string): string {
+  const lower = header.toLowerCase()
+  if (/valuta|wertstellung|value date/.test(lower)) return 'valueDate'
+  if (/gläubiger|glaeubiger|creditor id/.test(lower)) return 'creditorId'
+  if (/mandat/.test(lower)) return 'mandateRef'
+  if (/end-to-end|kundenreferenz/.test(lower)) return 'endToEndId'
+  if (/wechselkurs|exchange rate|kurs/.test(lower)) return 'exchangeRate'
+  if (/fremdw|original/.test(lower)) {
+    return /betrag|amount/.test(lower) ? 'originalAmount' : 'originalCurrency'
+  }
+  if (/dat|tag/.test(lower)) return 'date'
+  if (/soll|debit|ausgang|withdrawal/.test(lower)) return 'debit'
+  if (/haben|credit|eingang|deposit/.test(lower)) return 'credit'
+  if (/saldo|kontostand|balance/.test(lower)) return 'balance'
+  if (/betrag|amount|umsatz|summe/.test(lower)) return 'amount'
+  if (/iban/.test(lower)) return 'recipientIban'
+  if (/zweck|beschreibung|description|memo|text|reference/.test(lower)) return 'description'
+  if (/empf|auftrag|payee|name|beg/.test(lower)) return 'recipient'
+  if (/währung|waehrung|currency/.test(lower)) return 'currency'
+  if (/kategorie|category/.test(lower)) return 'category'
+  return ''
+}
+
+export default function ColumnMappingWizard({ fileName, preview, initialProfile, onConfirm, onCancel }: ColumnMappingWizardProps) {
+  const [name, setName] = useState(initialProfile?.name || fileName.replace(/\.[^.]+$/, ''))
+  const [columns, setColumns] = useState<Record<string, string>>(() =>
+    initialProfile?.columns ||
+    Object.fromEntries(preview.headers.map(header => [header, guessField(header)]))
+  )
+  const [dateFormat, setDateFormat] = useState<BankProfile['dateFormat']>(initialProfile?.dateFormat || 'auto')
+  const [numberFormat, setNumberFormat] = useState<BankProfile['numberFormat']>(initialProfile?.numberFormat || 'auto')
+  const [signConvention, setSignConvention] = useState<BankProfile['signConvention']>(
+    initialProfile?.signConvention ||
+    (Object.values(columns).includes('debit') ? 'debit-credit' : 'signed')
+  )
+
+  const profile: BankProfile = {
+    name: name.trim(),
+    headerSignature: preview.headerSignature,
+    columns,
+    dateFormat,
+    numberFormat,
+    signConvention,
+  }
+
+  const assigned = Object.values(columns)
+  const missing = [
+    !assigned.includes('date') && 'a date column',
+    signConvention === 'debit-credit'
+      ? !assigned.includes('debit') && !assigned.includes('credit') && 'a debit or credit column'
+      : !assigned.includes('amount') && 'an amount column',
+    !profile.name && 'a profile name',
+  ].filter(Boolean) as string[]
+
+  // Only a handful of sample rows, cheap enough to re-parse on every render
+  const parsedPreview = parseRowsWithProfile(preview.rows, preview.headers, profile)
+
+  const handleChangeColumn = (header: string, field: string) => {
+    setColumns({ ...columns, [header]: field })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-midnight-700 shrink-0">
+          <h3 className="text-xl font-semibold text-white mb-1 flex items-center gap-2">
+            <Columns className="w-5 h-5 text-accent" />
+            Map Columns
+          </h3>
+          <p className="text-midnight-400 text-sm">
+            We don't recognize the layout of <span className="text-midnight-200">{fileName}</span>.
+            Tell us what each column contains - the mapping is saved and reused for files with the same headers.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          {/* Columns with sample values */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-midnight-400">
+                  <th className="pb-2 pr-4 font-medium">Column</th>
+                  <th className="pb-2 pr-4 font-medium">Contains</th>
+                  <th className="pb-2 font-medium">Sample values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.headers.map(header => (
+                  <tr key={header} className="border-t border-midnight-800">
+                    <td className="py-2 pr-4 text-white whitespace-nowrap">{header}</td>
+                    <td className="py-2 pr-4">
+                      <select
+                        value={columns[header] || ''}
+                        onChange={(e) => handleChangeColumn(header, e.target.value)}
+                        className="input px-2 py-1 text-sm"
+                      >
+                        {FIELD_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 text-midnight-400 truncate max-w-xs">
+                      {preview.rows.slice(0, 3).map(row => row[header]).filter(Boolean).join(' · ') || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Formats */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-midnight-300 mb-1">Date format</span>
+              <select
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as BankProfile['dateFormat'])}
+                className="input w-full text-sm"
+              >
+                {DATE_FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-midnight-300 mb-1">Number format</span>
+              <select
+                value={numberFormat}
+                onChange={(e) => setNumberFormat(e.target.value as BankProfile['numberFormat'])}
+                className="input w-full text-sm"
+              >
+                {NUMBER_FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-midnight-300 mb-1">Amounts</span>
+              <select
+                value={signConvention}
+                onChange={(e) => setSignConvention(e.target.value as BankProfile['signConvention'])}
+                className="input w-full text-sm"
+              >
+                {SIGN_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Parsed preview */}
+          <section>
+            <h4 className="text-sm font-medium text-midnight-300 mb-2">Preview</h4>
+            {parsedPreview.length > 0 ? (
+              <div className="space-y-1">
+                {parsedPreview.slice(0, 3).map((tx, index) => (
+                  <div key={index} className="flex items-center justify-between gap-3 bg-midnight-800 rounded-lg px-3 py-2 text-sm">
+                    <span className="text-midnight-400 shrink-0">{tx.date}</span>
+                    <span className="text-white truncate flex-1">{tx.recipient || tx.description || '—'}</span>
+                    <span className={`shrink-0 ${tx.amount < 0 ? 'text-expense' : 'text-income'}`}>
+                      {tx.amount.toFixed(2)} {tx.currency}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-midnight-500">No rows can be read with this mapping yet.</p>
+            )}
+          </section>
+
+          {/* Profile name */}
+          <label className="block">
+            <span className="block text-sm font-medium text-midnight-300 mb-1">Save as bank profile</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Postbank Giro"
+              className="input w-full text-sm"
+            />
+          </label>
+
+          {missing.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-orange-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              Still needed: {missing.join(', ')}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-midnight-700 shrink-0">
+          <button onClick={onCancel} className="flex-1 btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(profile)}
+            disabled={missing.length > 0}
+            className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save & continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef } from 'react'
+import { X, Upload, Loader2, AlertTriangle } from 'lucide-react'
+import { ExchangeRateCoverage } from '../lib/currency'
+import { getExchangeRateCoverage, importExchangeRates } from '../lib/api'
+
+interface CurrencySettingsProps {
+  baseCurrency: string
+  currencies: string[] // Currencies of the loaded transactions
+  missingRates: string[]
+  onBaseCurrencyChange: (currency: string) => void
+  onRatesImported: () => void
+  onClose: () => void
+}
+
+const COMMON_CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'PLN', 'CZK', 'SEK', 'NOK', 'DKK', 'JPY']
+
+export default function CurrencySettings({
+  baseCurrency,
+  currencies,
+  missingRates,
+  onBaseCurrencyChange,
+  onRatesImported,
+  onClose,
+}: CurrencySettingsProps) {
+  const [coverage, setCoverage] = useState<ExchangeRateCoverage[]>([])
+  const [importing, setImporting] = useState(false)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    getExchangeRateCoverage().then(setCoverage)
+  }, [])
+
+  const options = Array.from(new Set([
+    ...COMMON_CURRENCIES,
+    ...currencies,
+    ...coverage.map(c => c.currency),
+  ])).sort()
+
+  const handleImport = async (file: File) => {
+    setImporting(true)
+    setMessage(null)
+
+    try {
+      const { imported, currencies: currencyCount } = await importExchangeRates(await file.text())
+      setMessage({ text: `Imported ${imported} rates for ${currencyCount} currencies`, isError: false })
+      setCoverage(await getExchangeRateCoverage())
+      onRatesImported()
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to import exchange rates', isError: true })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-midnight-700 shrink-0">
+          <h2 className="text-xl font-semibold text-white">Currency</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <section>
+            <label className="block text-sm font-medium text-midnight-300 mb-2">Base currency</label>
+            <select
+              value={baseCurrency}
+              onChange={(e) => onBaseCurrencyChange(e.target.value)}
+              className="input w-full"
+            >
+              {options.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+            <p className="text-xs text-midnight-500 mt-1">
+              Totals, charts and the export are computed in this currency. Other transactions are converted with
+              the rate of their booking date, or with the bank's own conversion where the export has one.
+            </p>
+          </section>
+
+          {missingRates.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg">
+              <AlertTriangle className="w-4 h-4 text-orange-400 shrink-0 mt-0.5" />
+              <p className="text-sm text-orange-300">
+                No rates for {missingRates.join(', ')} on some booking dates - these transactions are left out of
+                the totals until matching rates are imported.
+              </p>
+            </div>
+          )}
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-midnight-300">Exchange rates</h3>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importing}
+                className="btn-secondary text-sm flex items-center gap-2"
+              >
+                {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import ECB CSV
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImport(file)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+            <p className="text-xs text-midnight-500 mb-3">
+              Euro reference rates from the ECB (eurofxref-hist.csv for the full history, or eurofxref.csv for the
+              latest day). Rates are stored in the API database; importing again updates overlapping days.
+            </p>
+
+            {message && (
+              <p className={`text-sm mb-3 ${message.isError ? 'text-red-400' : 'text-accent'}`}>{message.text}</p>
+            )}
+
+            {coverage.length > 0 ? (
+              <div className="grid grid-cols-[60px,1fr,60px] gap-x-3 gap-y-1 text-sm">
+                {coverage.map(c => (
+                  <div key={c.currency} className="contents">
+                    <span className="text-white font-mono">{c.currency}</span>
+                    <span className="text-midnight-400">{c.from} – {c.to}</span>
+                    <span className="text-midnight-500 text-right">{c.count}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-midnight-400">No rates imported yet.</p>
+            )}
+          </section>
+        </div>
+
+        <div className="flex justify-end p-6 border-t border-midnight-700 shrink-0">
+          <button onClick={onClose} className="btn-secondary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react'
-import { Transaction, DateRange, SheetConfig, AnalysisSummary } from '../types'
+import { Brain, Coins, Tags, Wand2 } from 'lucide-react'
+import { Transaction, DateRange, SheetConfig, AnalysisSummary, StatementInfo } from '../types'
 import SummaryCards from './SummaryCards'
 import TransactionTable from './TransactionTable'
 import SearchFilter from './SearchFilter'
@@ -9,86 +10,151 @@ import TopExpenses from './charts/TopExpenses'
 import SettingsPanel from './SettingsPanel'
 import ExportButton from './ExportButton'
 import IncomeReview from './IncomeReview'
-import { CATEGORY_COLORS } from '../lib/categorizer'
+import BalanceReconciliation from './BalanceReconciliation'
+import CurrencySettings from './CurrencySettings'
+import SplitEditor from './SplitEditor'
+import CategoryManager from './CategoryManager'
+import RuleManager from './RuleManager'
+import LearnedMappingsManager from './LearnedMappingsManager'
+import { getCategoryColor, getCategoryKind } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { convertToBase, getMissingRates, RateTable } from '../lib/currency'
+import { getAllocations, getCategories } from '../lib/splits'
+import { CategorizationChanges } from '../lib/impact-preview'
 
 interface DashboardProps {
   transactions: Transaction[]
+  statements: StatementInfo[]
   dateRange: DateRange | null
   onDateRangeChange: (range: DateRange | null) => void
   onUpdateTransaction: (id: string, updates: Partial<Transaction>) => void
   onBulkUpdate: (ids: string[], updates: Partial<Transaction>) => void
   sheetConfig: SheetConfig | null
   onSheetConfigChange: (config: SheetConfig | null) => void
+  baseCurrency: string
+  exchangeRates: RateTable
+  onBaseCurrencyChange: (currency: string) => void
+  onExchangeRatesImported: () => void
+  onCategoriesChange: (renamed?: { from: string; to: string }) => void
+  onRulesChange: () => void
+  onLearnedMappingsChange: () => void
+  onPreviewCategorization: (changes: CategorizationChanges) => Promise<Transaction[]>
 }
 
-type Tab = 'transactions' | 'income' | 'analytics' | 'trends'
+type Tab = 'transactions' | 'income' | 'analytics' | 'trends' | 'balances'
 
 export default function Dashboard({
   transactions,
+  statements,
   dateRange,
   onDateRangeChange,
   onUpdateTransaction,
   onBulkUpdate,
   sheetConfig,
   onSheetConfigChange,
+  baseCurrency,
+  exchangeRates,
+  onBaseCurrencyChange,
+  onExchangeRatesImported,
+  onCategoriesChange,
+  onRulesChange,
+  onLearnedMappingsChange,
+  onPreviewCategorization,
 }: DashboardProps) {
+  const categories = useCategories()
   const [activeTab, setActiveTab] = useState<Tab>('transactions')
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategories, setSelectedCategories] = useState<string[]>([])
   const [showTransfers, setShowTransfers] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
+  const [showCurrency, setShowCurrency] = useState(false)
+  const [showCategories, setShowCategories] = useState(false)
+  const [showRules, setShowRules] = useState(false)
+  const [showLearned, setShowLearned] = useState(false)
+  const [splittingId, setSplittingId] = useState<string | null>(null)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
 
+  // Amounts in the base currency (balances stay in account currency, so reconciliation uses the originals)
+  const convertedTransactions = useMemo(
+    () => convertToBase(transactions, baseCurrency, exchangeRates),
+    [transactions, baseCurrency, exchangeRates]
+  )
+  const missingRates = useMemo(
+    () => getMissingRates(convertedTransactions, baseCurrency),
+    [convertedTransactions, baseCurrency]
+  )
+
+  // Dry runs for the rule and learned-category previews, in the same currency as the loaded history
+  const previewCategorization = async (changes: CategorizationChanges) =>
+    convertToBase(await onPreviewCategorization(changes), baseCurrency, exchangeRates)
+
   // Date-filtered transactions (used for Income Review - includes all income regardless of transfer status)
   const dateFilteredTransactions = useMemo(() => {
-    if (!dateRange) return transactions
-    return transactions.filter(tx => {
+    if (!dateRange) return convertedTransactions
+    return convertedTransactions.filter(tx => {
       const txDate = new Date(tx.date)
       return txDate >= dateRange.startDate && txDate <= dateRange.endDate
     })
-  }, [transactions, dateRange])
+  }, [convertedTransactions, dateRange])
+
+  // Selecting a category also selects its subcategories
+  const filterCategories = useMemo(() => {
+    const parentIds = categories.filter(c => selectedCategories.includes(c.name)).map(c => c.id)
+    const children = categories.filter(c => c.parentId !== undefined && parentIds.includes(c.parentId))
+    return [...selectedCategories, ...children.map(c => c.name)]
+  }, [categories, selectedCategories])
 
   // Filter transactions based on date range, search, and categories
   const filteredTransactions = useMemo(() => {
     return dateFilteredTransactions.filter(tx => {
       // Exclude transfers unless explicitly shown
-      if (!showTransfers && tx.category === 'Transfer') {
+      if (!showTransfers && (tx.isTransfer || getCategoryKind(categories, tx.category) === 'transfer')) {
         return false
       }
 
       // Search filter
       if (searchQuery) {
         const query = searchQuery.toLowerCase()
-        const searchableText = `${tx.description} ${tx.merchant || ''} ${tx.category || ''} ${tx.recipient || ''}`.toLowerCase()
+        const searchableText = `${tx.description} ${tx.merchant || ''} ${tx.category || ''} ${tx.recipient || ''} ${tx.tags?.join(' ') || ''}`.toLowerCase()
         if (!searchableText.includes(query)) {
           return false
         }
       }
 
-      // Category filter
-      if (selectedCategories.length > 0 && !selectedCategories.includes(tx.category || 'Other')) {
+      // Category filter (split transactions match on any of their parts)
+      if (filterCategories.length > 0 && !getCategories(tx).some(c => filterCategories.includes(c))) {
         return false
       }
 
       return true
     })
-  }, [dateFilteredTransactions, searchQuery, selectedCategories, showTransfers])
+  }, [dateFilteredTransactions, searchQuery, filterCategories, showTransfers, categories])
+
+  // Totals, charts and the export only add up amounts in the base currency
+  const analyzedTransactions = useMemo(
+    () => filteredTransactions.filter(tx => tx.currency === baseCurrency),
+    [filteredTransactions, baseCurrency]
+  )
 
   // Calculate summary
   const summary: AnalysisSummary = useMemo(() => {
-    const expenses = filteredTransactions.filter(tx => tx.type === 'expense' && !tx.isExcluded)
-    const income = filteredTransactions.filter(tx => tx.type === 'income' && !tx.isExcluded)
+    const expenses = analyzedTransactions.filter(tx => tx.type === 'expense' && !tx.isExcluded)
+    const income = analyzedTransactions.filter(tx => tx.type === 'income' && !tx.isExcluded)
+
+    // Split transactions count per part; with a category filter only the matching parts count
+    const expenseAllocations = expenses
+      .flatMap(getAllocations)
+      .filter(a => filterCategories.length === 0 || filterCategories.includes(a.category))
 
-    const totalExpense = expenses.reduce((sum, tx) => sum + tx.amount, 0)
+    const totalExpense = expenseAllocations.reduce((sum, a) => sum + a.amount, 0)
     const totalIncome = income.reduce((sum, tx) => sum + tx.amount, 0)
 
     // Category breakdown
     const categoryMap = new Map<string, { total: number; count: number }>()
-    for (const tx of expenses) {
-      const cat = tx.category || 'Other'
-      const existing = categoryMap.get(cat) || { total: 0, count: 0 }
-      categoryMap.set(cat, {
-        total: existing.total + tx.amount,
+    for (const allocation of expenseAllocations) {
+      const existing = categoryMap.get(allocation.category) || { total: 0, count: 0 }
+      categoryMap.set(allocation.category, {
+        total: existing.total + allocation.amount,
         count: existing.count + 1,
       })
     }
@@ -99,7 +165,7 @@ export default function Dashboard({
         total: data.total,
         count: data.count,
         percentage: totalExpense > 0 ? (data.total / totalExpense) * 100 : 0,
-        color: CATEGORY_COLORS[category] || '#64748b',
+        color: getCategoryColor(categories, category),
       }))
       .sort((a, b) => b.total - a.total)
 
@@ -132,9 +198,10 @@ export default function Dashboard({
       avgDailySpend,
       categorySummary,
       topMerchants,
-      currency: transactions[0]?.currency || 'EUR',
+      currency: baseCurrency,
+      missingRates,
     }
-  }, [filteredTransactions, dateRange, transactions])
+  }, [analyzedTransactions, filterCategories, dateRange, baseCurrency, missingRates, categories])
 
   const handleSelectAll = () => {
     if (selectedIds.size === filteredTransactions.length) {
@@ -164,6 +231,7 @@ export default function Dashboard({
     { id: 'income', label: 'Income Review' },
     { id: 'analytics', label: 'Analytics' },
     { id: 'trends', label: 'Trends' },
+    { id: 'balances', label: 'Balances' },
   ]
 
   return (
@@ -209,8 +277,41 @@ export default function Dashboard({
         </div>
 
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowCategories(true)}
+            className="btn-secondary text-sm flex items-center gap-2"
+            title="Manage categories"
+          >
+            <Tags className="w-4 h-4" />
+            <span className="hidden sm:inline">Categories</span>
+          </button>
+          <button
+            onClick={() => setShowRules(true)}
+            className="btn-secondary text-sm flex items-center gap-2"
+            title="Manage categorization rules"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span className="hidden sm:inline">Rules</span>
+          </button>
+          <button
+            onClick={() => setShowLearned(true)}
+            className="btn-secondary text-sm flex items-center gap-2"
+            title="Review categories learned from your recategorizations"
+          >
+            <Brain className="w-4 h-4" />
+            <span className="hidden sm:inline">Learned</span>
+          </button>
+          <button
+            onClick={() => setShowCurrency(true)}
+            className="btn-secondary text-sm flex items-center gap-2"
+            title="Base currency and exchange rates"
+          >
+            <Coins className="w-4 h-4" />
+            <span className="hidden sm:inline">{baseCurrency}</span>
+          </button>
           <ExportButton
             transactions={filteredTransactions}
+            currency={baseCurrency}
             sheetConfig={sheetConfig}
             dateRange={dateRange}
             onOpenSettings={() => setShowSettings(true)}
@@ -229,13 +330,13 @@ export default function Dashboard({
           onBulkCategoryChange={handleBulkCategoryChange}
           onBulkExclude={handleBulkExclude}
           onBulkInclude={handleBulkInclude}
-          currency={summary.currency}
+          onSplitTransaction={setSplittingId}
         />
       )}
 
       {activeTab === 'income' && (
         <IncomeReview
-          transactions={dateFilteredTransactions}
+          transactions={dateFilteredTransactions.filter(tx => tx.currency === baseCurrency)}
           onUpdateTransaction={onUpdateTransaction}
           currency={summary.currency}
         />
@@ -250,12 +351,17 @@ export default function Dashboard({
 
       {activeTab === 'trends' && (
         <SpendingTrend 
-          transactions={filteredTransactions} 
+          transactions={analyzedTransactions} 
           dateRange={dateRange}
           currency={summary.currency}
         />
       )}
 
+      {/* Reconciled against all transactions - date or search filters would show up as gaps */}
+      {activeTab === 'balances' && (
+        <BalanceReconciliation transactions={transactions} statements={statements} />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <SettingsPanel
@@ -267,6 +373,56 @@ export default function Dashboard({
           onClose={() => setShowSettings(false)}
         />
       )}
+
+      {/* Splits are edited in the booked currency, not the converted one */}
+      {splittingId && transactions.some(tx => tx.id === splittingId) && (
+        <SplitEditor
+          transaction={transactions.find(tx => tx.id === splittingId)!}
+          onSave={(splits) => {
+            onUpdateTransaction(splittingId, { splits })
+            setSplittingId(null)
+          }}
+          onClose={() => setSplittingId(null)}
+        />
+      )}
+
+      {showCurrency && (
+        <CurrencySettings
+          baseCurrency={baseCurrency}
+          currencies={Array.from(new Set(transactions.map(tx => tx.currency)))}
+          missingRates={missingRates}
+          onBaseCurrencyChange={onBaseCurrencyChange}
+          onRatesImported={onExchangeRatesImported}
+          onClose={() => setShowCurrency(false)}
+        />
+      )}
+
+      {showCategories && (
+        <CategoryManager
+          onChange={onCategoriesChange}
+          onClose={() => setShowCategories(false)}
+        />
+      )}
+
+      {showRules && (
+        <RuleManager
+          transactions={convertedTransactions}
+          currency={baseCurrency}
+          onPreview={previewCategorization}
+          onChange={onRulesChange}
+          onClose={() => setShowRules(false)}
+        />
+      )}
+
+      {showLearned && (
+        <LearnedMappingsManager
+          transactions={convertedTransactions}
+          currency={baseCurrency}
+          onPreview={previewCategorization}
+          onChange={onLearnedMappingsChange}
+          onClose={() => setShowLearned(false)}
+        />
+      )}
     </div>
   )
 }
@@ -1,10 +1,12 @@
 import { useState } from 'react'
-import { Copy, Settings } from 'lucide-react'
+import { Copy, Download, Settings } from 'lucide-react'
 import { Transaction, SheetConfig, DateRange } from '../types'
 import ExportPreview from './ExportPreview'
+import { downloadQIF } from '../lib/qif-export'
 
 interface ExportButtonProps {
   transactions: Transaction[]
+  currency: string
   sheetConfig: SheetConfig | null
   dateRange: DateRange | null
   onOpenSettings: () => void
@@ -12,6 +14,7 @@ interface ExportButtonProps {
 
 export default function ExportButton({
   transactions,
+  currency,
   sheetConfig,
   dateRange,
   onOpenSettings,
@@ -29,6 +32,16 @@ export default function ExportButton({
         <span className="hidden sm:inline">Settings</span>
       </button>
 
+      <button
+        onClick={() => downloadQIF(transactions)}
+        className="btn-secondary text-sm flex items-center gap-2"
+        title="Download as QIF for Quicken, MoneyMoney and other desktop tools"
+        disabled={transactions.length === 0}
+      >
+        <Download className="w-4 h-4" />
+        <span className="hidden sm:inline">QIF</span>
+      </button>
+
       <button
         onClick={() => setShowPreview(true)}
         className="btn-primary flex items-center gap-2"
@@ -41,6 +54,7 @@ export default function ExportButton({
       {showPreview && (
         <ExportPreview
           transactions={transactions}
+          currency={currency}
           sheetConfig={sheetConfig}
           dateRange={dateRange}
           onCancel={() => setShowPreview(false)}
@@ -1,19 +1,22 @@
 import { useMemo, useState } from 'react'
 import { X, Copy, Check } from 'lucide-react'
 import { Transaction, SheetConfig, DateRange } from '../types'
-import { EXPENSE_CATEGORIES, SHEET_COLUMNS } from '../lib/categorizer'
+import { getCategoryKind, getSheetColumn } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { getAllocations } from '../lib/splits'
 
 interface ExportPreviewProps {
   transactions: Transaction[]
+  currency: string // Base currency all amounts are in
   sheetConfig?: SheetConfig | null
   dateRange: DateRange | null
   onCancel: () => void
 }
 
-function formatCurrency(amount: number): string {
+function formatCurrency(amount: number, currency: string): string {
   return new Intl.NumberFormat('de-DE', {
     style: 'currency',
-    currency: 'EUR',
+    currency,
     minimumFractionDigits: 2,
   }).format(amount)
 }
@@ -25,11 +28,13 @@ function formatForSheet(amount: number): string {
 
 export default function ExportPreview({
   transactions,
+  currency,
   sheetConfig,
   dateRange,
   onCancel,
 }: ExportPreviewProps) {
   const [copied, setCopied] = useState(false)
+  const categories = useCategories()
 
   const previewData = useMemo(() => {
     // Calculate totals by category
@@ -39,20 +44,22 @@ export default function ExportPreview({
     let grossInvestment = 0
 
     for (const tx of transactions) {
-      if (tx.isExcluded) continue
+      // Amounts without an exchange rate can't be added to the base currency totals
+      if (tx.isExcluded || tx.currency !== currency) continue
 
       if (tx.type === 'income') {
         totalIncome += tx.amount
       } else {
-        const category = tx.category || 'Other'
-
-        // Check for savings/investment categories
-        if (category === 'Savings') {
-          grossSavings += tx.amount
-        } else if (category === 'Investment') {
-          grossInvestment += tx.amount
-        } else if (category !== 'Transfer') {
-          categoryTotals.set(category, (categoryTotals.get(category) || 0) + tx.amount)
+        for (const { category, amount } of getAllocations(tx)) {
+          // Savings and investment categories have columns of their own
+          const kind = getCategoryKind(categories, category)
+          if (kind === 'savings') {
+            grossSavings += amount
+          } else if (kind === 'investment') {
+            grossInvestment += amount
+          } else if (kind !== 'transfer') {
+            categoryTotals.set(category, (categoryTotals.get(category) || 0) + amount)
+          }
         }
       }
     }
@@ -60,17 +67,22 @@ export default function ExportPreview({
     // Build row data matching exact sheet structure
     const rowData: Array<{ column: string; label: string; value: number; isFormula: boolean }> = []
 
-    // Add all expense categories in order (B-R)
-    for (const category of EXPENSE_CATEGORIES) {
-      const column = SHEET_COLUMNS[category]
-      if (column) {
-        rowData.push({
-          column,
-          label: category,
-          value: categoryTotals.get(category) || 0,
-          isFormula: false,
-        })
+    // One cell per mapped column (B-R); subcategories without a column add to their parent's
+    const mappings = sheetConfig?.categoryMappings || []
+    const columns = Array.from(new Set(mappings.map(m => m.sheetColumn)))
+      .sort((a, b) => a.length - b.length || a.localeCompare(b))
+
+    for (const column of columns) {
+      let value = 0
+      for (const [category, total] of categoryTotals) {
+        if (getSheetColumn(categories, mappings, category) === column) value += total
       }
+      rowData.push({
+        column,
+        label: mappings.filter(m => m.sheetColumn === column).map(m => m.appCategory).join(', '),
+        value,
+        isFormula: false,
+      })
     }
 
     // Calculate total expenditure (sum of B-R)
@@ -88,7 +100,7 @@ export default function ExportPreview({
       grossInvestment,
       netIncome: incomeAfterExpenditure - grossSavings - grossInvestment,
     }
-  }, [transactions])
+  }, [transactions, currency, categories, sheetConfig])
 
   // Format month like "July 2025"
   const month = dateRange
@@ -163,7 +175,7 @@ export default function ExportPreview({
                         }`}
                       title={label}
                     >
-                      {formatCurrency(value)}
+                      {formatCurrency(value, currency)}
                     </div>
                   </div>
                 ))}
@@ -172,14 +184,14 @@ export default function ExportPreview({
                 <div className="flex flex-col items-center">
                   <span className="text-xs text-midnight-500 mb-1">S</span>
                   <div className="bg-expense/20 px-3 py-2 rounded text-sm text-expense whitespace-nowrap" title="Total Expenditure">
-                    {formatCurrency(previewData.totalExpenditure)}
+                    {formatCurrency(previewData.totalExpenditure, currency)}
                   </div>
                 </div>
 
                 <div className="flex flex-col items-center">
                   <span className="text-xs text-midnight-500 mb-1">T</span>
                   <div className="bg-income/20 px-3 py-2 rounded text-sm text-income whitespace-nowrap" title="Income">
-                    {formatCurrency(previewData.income)}
+                    {formatCurrency(previewData.income, currency)}
                   </div>
                 </div>
 
@@ -187,21 +199,21 @@ export default function ExportPreview({
                   <span className="text-xs text-midnight-500 mb-1">U</span>
                   <div className={`px-3 py-2 rounded text-sm whitespace-nowrap ${previewData.incomeAfterExpenditure >= 0 ? 'bg-income/20 text-income' : 'bg-expense/20 text-expense'
                     }`} title="Income After Expenditure">
-                    {formatCurrency(previewData.incomeAfterExpenditure)}
+                    {formatCurrency(previewData.incomeAfterExpenditure, currency)}
                   </div>
                 </div>
 
                 <div className="flex flex-col items-center">
                   <span className="text-xs text-midnight-500 mb-1">V</span>
                   <div className="bg-blue-500/20 px-3 py-2 rounded text-sm text-blue-400 whitespace-nowrap" title="Gross Savings">
-                    {formatCurrency(previewData.grossSavings)}
+                    {formatCurrency(previewData.grossSavings, currency)}
                   </div>
                 </div>
 
                 <div className="flex flex-col items-center">
                   <span className="text-xs text-midnight-500 mb-1">W</span>
                   <div className="bg-cyan-500/20 px-3 py-2 rounded text-sm text-cyan-400 whitespace-nowrap" title="Gross Investment">
-                    {formatCurrency(previewData.grossInvestment)}
+                    {formatCurrency(previewData.grossInvestment, currency)}
                   </div>
                 </div>
 
@@ -209,7 +221,7 @@ export default function ExportPreview({
                   <span className="text-xs text-midnight-500 mb-1">X</span>
                   <div className={`px-3 py-2 rounded text-sm whitespace-nowrap ${previewData.netIncome >= 0 ? 'bg-income/20 text-income' : 'bg-expense/20 text-expense'
                     }`} title="Net Income">
-                    {formatCurrency(previewData.netIncome)}
+                    {formatCurrency(previewData.netIncome, currency)}
                   </div>
                 </div>
               </div>
@@ -232,7 +244,7 @@ export default function ExportPreview({
                       <span className="text-xs font-mono text-midnight-500">{column}</span>
                       <span className="text-sm text-white truncate">{label}</span>
                     </div>
-                    <span className="text-sm font-medium text-white">{formatCurrency(value)}</span>
+                    <span className="text-sm font-medium text-white">{formatCurrency(value, currency)}</span>
                   </div>
                 ))}
             </div>
@@ -242,22 +254,22 @@ export default function ExportPreview({
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 border-t border-midnight-700">
             <div className="text-center">
               <p className="text-xs text-midnight-400">Total Expenditure</p>
-              <p className="text-lg font-semibold text-expense">{formatCurrency(previewData.totalExpenditure)}</p>
+              <p className="text-lg font-semibold text-expense">{formatCurrency(previewData.totalExpenditure, currency)}</p>
             </div>
             <div className="text-center">
               <p className="text-xs text-midnight-400">Income</p>
-              <p className="text-lg font-semibold text-income">{formatCurrency(previewData.income)}</p>
+              <p className="text-lg font-semibold text-income">{formatCurrency(previewData.income, currency)}</p>
             </div>
             <div className="text-center">
               <p className="text-xs text-midnight-400">Savings + Investment</p>
               <p className="text-lg font-semibold text-blue-400">
-                {formatCurrency(previewData.grossSavings + previewData.grossInvestment)}
+                {formatCurrency(previewData.grossSavings + previewData.grossInvestment, currency)}
               </p>
             </div>
             <div className="text-center">
               <p className="text-xs text-midnight-400">Net Income</p>
               <p className={`text-lg font-semibold ${previewData.netIncome >= 0 ? 'text-income' : 'text-expense'}`}>
-                {formatCurrency(previewData.netIncome)}
+                {formatCurrency(previewData.netIncome, currency)}
               </p>
             </div>
           </div>
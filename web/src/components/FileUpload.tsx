@@ -1,17 +1,43 @@
 import { useCallback, useState } from 'react'
-import { Upload, FileSpreadsheet, AlertCircle, Loader2, Calendar } from 'lucide-react'
-import { isFileSupported, getSupportedExtensions } from '../lib/parser'
+import { Upload, FileSpreadsheet, AlertCircle, Loader2, Calendar, Layers, Columns } from 'lucide-react'
+import { BankProfile } from '../types'
+import {
+  isFileSupported,
+  getSupportedExtensions,
+  getFileType,
+  previewCSV,
+  listExcelSheets,
+  CSVPreview,
+  ExcelSheetInfo,
+} from '../lib/parser'
+import { getBankProfiles, saveBankProfile } from '../lib/api'
+import ColumnMappingWizard from './ColumnMappingWizard'
 
 export interface ImportOptions {
   dateFilter: 'all' | '1m' | '3m' | '6m' | '1y' | 'custom'
+  mode: 'replace' | 'merge'
   customStartDate?: Date
   customEndDate?: Date
 }
 
+// One file of a (multi-file) import
+export interface ImportFile {
+  file: File
+  profile?: BankProfile // Column mapping for an unrecognized CSV layout
+  account?: string // Source account label (or IBAN) for files that don't name their account
+  sheets?: string[] // Excel sheets to import
+}
+
+interface PendingFile extends ImportFile {
+  preview?: CSVPreview // Only kept for CSVs that need a column mapping
+  sheetInfo?: ExcelSheetInfo[] // Only kept for workbooks with several data sheets
+}
+
 interface FileUploadProps {
-  onFileUpload: (file: File, options: ImportOptions) => Promise<void>
+  onFileUpload: (files: ImportFile[], options: ImportOptions) => Promise<void>
   isLoading: boolean
   error: string | null
+  hasExistingData?: boolean
 }
 
 const DATE_FILTER_OPTIONS = [
@@ -22,11 +48,23 @@ const DATE_FILTER_OPTIONS = [
   { value: 'all', label: 'All Time' },
 ] as const
 
-export default function FileUpload({ onFileUpload, isLoading, error }: FileUploadProps) {
+const IMPORT_MODE_OPTIONS = [
+  { value: 'merge', label: 'Add to existing', description: 'Skip transactions already loaded' },
+  { value: 'replace', label: 'Replace all', description: 'Discard stored transactions' },
+] as const
+
+// Index of the next CSV that still needs a column mapping, or -1
+function findUnmapped(files: PendingFile[]): number {
+  return files.findIndex(f => f.preview && !f.profile)
+}
+
+export default function FileUpload({ onFileUpload, isLoading, error, hasExistingData = false }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
-  const [pendingFile, setPendingFile] = useState<File | null>(null)
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([])
   const [showOptions, setShowOptions] = useState(false)
   const [dateFilter, setDateFilter] = useState<ImportOptions['dateFilter']>('3m')
+  const [mode, setMode] = useState<ImportOptions['mode']>('merge')
+  const [mappingIndex, setMappingIndex] = useState<number | null>(null)
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -38,31 +76,104 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
     setIsDragging(false)
   }, [])
 
-  const handleFileSelect = (file: File) => {
-    if (isFileSupported(file)) {
-      setPendingFile(file)
+  const handleFilesSelect = async (selected: File[]) => {
+    const supported = selected.filter(isFileSupported)
+    if (supported.length === 0) return
+
+    // Unknown CSV layouts need a column mapping - reuse a saved profile for the same headers
+    const profiles = supported.some(f => getFileType(f) === 'csv') ? await getBankProfiles() : []
+    const files: PendingFile[] = []
+
+    for (const file of supported) {
+      const pending: PendingFile = { file, account: '' }
+      if (getFileType(file) === 'csv') {
+        try {
+          const preview = await previewCSV(file)
+          if (preview.bankFormat === 'Generic CSV') {
+            pending.preview = preview
+            pending.profile = profiles.find(p => p.headerSignature === preview.headerSignature)
+          }
+        } catch (err) {
+          console.warn('CSV preview failed:', err)
+        }
+      }
+
+      // Workbooks with several data sheets: pre-select recognized bank formats, else the largest sheet
+      if (getFileType(file) === 'excel') {
+        try {
+          const sheets = (await listExcelSheets(file)).filter(sheet => sheet.rowCount > 0)
+          if (sheets.length > 1) {
+            const recognized = sheets.filter(sheet => sheet.bankFormat !== 'Generic CSV')
+            const largest = sheets.reduce((a, b) => (b.rowCount > a.rowCount ? b : a))
+            pending.sheetInfo = sheets
+            pending.sheets = (recognized.length > 0 ? recognized : [largest]).map(sheet => sheet.name)
+          }
+        } catch (err) {
+          console.warn('Reading workbook sheets failed:', err)
+        }
+      }
+      files.push(pending)
+    }
+
+    setPendingFiles(files)
+    const unmapped = findUnmapped(files)
+    if (unmapped !== -1) {
+      setMappingIndex(unmapped)
+    } else {
+      setShowOptions(true)
+    }
+  }
+
+  const handleConfirmMapping = async (confirmed: BankProfile) => {
+    if (mappingIndex === null) return
+
+    await saveBankProfile(confirmed)
+    const files = pendingFiles.map((f, i) => (i === mappingIndex ? { ...f, profile: confirmed } : f))
+    setPendingFiles(files)
+
+    // Continue with the next unmapped file, then the import options
+    const unmapped = findUnmapped(files)
+    if (unmapped !== -1) {
+      setMappingIndex(unmapped)
+    } else {
+      setMappingIndex(null)
       setShowOptions(true)
     }
   }
 
+  const handleEditMapping = (index: number) => {
+    setShowOptions(false)
+    setMappingIndex(index)
+  }
+
+  const handleAccountChange = (index: number, account: string) => {
+    setPendingFiles(pendingFiles.map((f, i) => (i === index ? { ...f, account } : f)))
+  }
+
+  const handleToggleSheet = (index: number, sheet: string) => {
+    setPendingFiles(pendingFiles.map((f, i) => {
+      if (i !== index) return f
+      const sheets = f.sheets || []
+      return { ...f, sheets: sheets.includes(sheet) ? sheets.filter(s => s !== sheet) : [...sheets, sheet] }
+    }))
+  }
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
-    const file = e.dataTransfer.files[0]
-    if (file) handleFileSelect(file)
+    handleFilesSelect(Array.from(e.dataTransfer.files))
   }, [])
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) handleFileSelect(file)
+    handleFilesSelect(Array.from(e.target.files || []))
     // Reset input so same file can be re-selected
     e.target.value = ''
   }, [])
 
   const handleConfirmImport = () => {
-    if (!pendingFile) return
+    if (pendingFiles.length === 0) return
 
-    const options: ImportOptions = { dateFilter }
+    const options: ImportOptions = { dateFilter, mode: hasExistingData ? mode : 'replace' }
 
     // Calculate date range based on filter
     if (dateFilter !== 'all' && dateFilter !== 'custom') {
@@ -73,15 +184,26 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
     }
 
     setShowOptions(false)
-    onFileUpload(pendingFile, options)
-    setPendingFile(null)
+    onFileUpload(
+      pendingFiles.map(({ file, profile, account, sheets }) => ({
+        file,
+        profile,
+        sheets,
+        account: account?.trim() || undefined,
+      })),
+      options
+    )
+    setPendingFiles([])
   }
 
   const handleCancel = () => {
     setShowOptions(false)
-    setPendingFile(null)
+    setMappingIndex(null)
+    setPendingFiles([])
   }
 
+  const mappingFile = mappingIndex !== null ? pendingFiles[mappingIndex] : undefined
+
   return (
     <div className="max-w-2xl mx-auto">
       <div className="text-center mb-8">
@@ -93,26 +215,80 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
         </p>
       </div>
 
+      {/* Column Mapping Wizard */}
+      {mappingFile?.preview && (
+        <ColumnMappingWizard
+          key={mappingFile.file.name}
+          fileName={mappingFile.file.name}
+          preview={mappingFile.preview}
+          initialProfile={mappingFile.profile}
+          onConfirm={handleConfirmMapping}
+          onCancel={handleCancel}
+        />
+      )}
+
       {/* Import Options Modal */}
-      {showOptions && pendingFile && (
+      {showOptions && pendingFiles.length > 0 && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-md w-full p-6">
             <h3 className="text-xl font-semibold text-white mb-2">Import Options</h3>
             <p className="text-midnight-400 text-sm mb-6">
-              Filter transactions to import only what you need
+              {pendingFiles.length > 1
+                ? `${pendingFiles.length} files will be combined into one dataset`
+                : 'Filter transactions to import only what you need'}
             </p>
 
-            {/* File Info */}
-            <div className="bg-midnight-800 rounded-lg p-4 mb-6">
-              <div className="flex items-center gap-3">
-                <FileSpreadsheet className="w-8 h-8 text-accent" />
-                <div className="flex-1 min-w-0">
-                  <p className="text-white font-medium truncate">{pendingFile.name}</p>
-                  <p className="text-midnight-400 text-sm">
-                    {(pendingFile.size / 1024).toFixed(1)} KB
-                  </p>
+            {/* Files */}
+            <div className="space-y-2 mb-6 max-h-64 overflow-y-auto">
+              {pendingFiles.map((pending, index) => (
+                <div key={index} className="bg-midnight-800 rounded-lg p-4">
+                  <div className="flex items-center gap-3">
+                    <FileSpreadsheet className="w-8 h-8 text-accent shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white font-medium truncate">{pending.file.name}</p>
+                      <p className="text-midnight-400 text-sm">
+                        {(pending.file.size / 1024).toFixed(1)} KB
+                      </p>
+                    </div>
+                  </div>
+                  <input
+                    type="text"
+                    value={pending.account || ''}
+                    onChange={(e) => handleAccountChange(index, e.target.value)}
+                    placeholder="Source account, e.g. N26 or its IBAN (optional)"
+                    className="input w-full mt-3 text-sm"
+                  />
+                  {pending.sheetInfo && (
+                    <div className="mt-3 pt-3 border-t border-midnight-700 space-y-1">
+                      {pending.sheetInfo.map(sheet => (
+                        <label key={sheet.name} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={pending.sheets?.includes(sheet.name) || false}
+                            onChange={() => handleToggleSheet(index, sheet.name)}
+                            className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+                          />
+                          <span className="text-white truncate flex-1">{sheet.name}</span>
+                          <span className="text-midnight-400 shrink-0">
+                            {sheet.rowCount} rows{sheet.bankFormat !== 'Generic CSV' ? ` · ${sheet.bankFormat}` : ''}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  {pending.preview && (
+                    <div className="flex items-center justify-between gap-3 mt-3 pt-3 border-t border-midnight-700 text-sm">
+                      <span className="text-midnight-400 truncate">
+                        <Columns className="w-4 h-4 inline mr-2" />
+                        {pending.profile ? `Bank profile: ${pending.profile.name}` : 'No column mapping'}
+                      </span>
+                      <button onClick={() => handleEditMapping(index)} className="text-accent hover:text-accent-light shrink-0">
+                        Edit mapping
+                      </button>
+                    </div>
+                  )}
                 </div>
-              </div>
+              ))}
             </div>
 
             {/* Date Filter */}
@@ -143,6 +319,34 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
               </p>
             </div>
 
+            {/* Import Mode */}
+            {hasExistingData && (
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-midnight-300 mb-3">
+                  <Layers className="w-4 h-4 inline mr-2" />
+                  Existing transactions
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {IMPORT_MODE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setMode(option.value)}
+                      className={`
+                        px-4 py-3 rounded-lg text-sm font-medium transition-all text-left
+                        ${mode === option.value
+                          ? 'bg-accent text-white'
+                          : 'bg-midnight-800 text-midnight-300 hover:bg-midnight-700'
+                        }
+                      `}
+                    >
+                      {option.label}
+                      <span className="block text-xs font-normal opacity-75 mt-0.5">{option.description}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3">
               <button
@@ -153,7 +357,8 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
               </button>
               <button
                 onClick={handleConfirmImport}
-                className="flex-1 btn-primary"
+                disabled={pendingFiles.some(f => f.sheetInfo && !f.sheets?.length)}
+                className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Import
               </button>
@@ -178,6 +383,7 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
         <input
           type="file"
           accept={getSupportedExtensions()}
+          multiple
           onChange={handleInputChange}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           disabled={isLoading}
@@ -208,10 +414,10 @@ export default function FileUpload({ onFileUpload, isLoading, error }: FileUploa
               </div>
               <div>
                 <p className="text-lg font-medium text-white">
-                  {isDragging ? 'Drop your file here' : 'Drop your file here or click to browse'}
+                  {isDragging ? 'Drop your files here' : 'Drop your files here or click to browse'}
                 </p>
                 <p className="text-sm text-midnight-400 mt-1">
-                  CSV, Excel (.xlsx), and OFX formats supported
+                  CSV, Excel (.xlsx), OFX, QIF, CAMT (.xml) and MT940 (.sta) formats supported
                 </p>
               </div>
             </>
@@ -0,0 +1,129 @@
+import { ArrowRight, AlertTriangle } from 'lucide-react'
+import { Transaction } from '../types'
+import { CategorizationPreview } from '../lib/impact-preview'
+import { getCategoryColor } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+
+interface ImpactPreviewProps {
+  preview: CategorizationPreview
+  currency: string
+  summary?: string // e.g. how many transactions a rule matches
+  warnings?: string[]
+}
+
+// Rows shown in the before/after list
+const MAX_CHANGES = 100
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+// Changes besides the category, e.g. "merchant Landlord · excluded"
+function describeOtherChanges(before: Transaction, after: Transaction): string {
+  const parts: string[] = []
+  if (before.merchant !== after.merchant && after.merchant) parts.push(`merchant ${after.merchant}`)
+  if (Boolean(before.isExcluded) !== Boolean(after.isExcluded)) parts.push(after.isExcluded ? 'excluded' : 'included')
+  if (Boolean(before.isTransfer) !== Boolean(after.isTransfer)) parts.push(after.isTransfer ? 'transfer' : 'no transfer')
+  const added = (after.tags || []).filter(tag => !before.tags?.includes(tag))
+  if (added.length > 0) parts.push(added.map(tag => `#${tag}`).join(' '))
+  return parts.join(' · ')
+}
+
+function CategoryLabel({ category }: { category?: string }) {
+  const categories = useCategories()
+  return (
+    <span className="flex items-center gap-1.5 min-w-0">
+      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getCategoryColor(categories, category) }} />
+      <span className="truncate">{category || 'Uncategorized'}</span>
+    </span>
+  )
+}
+
+export default function ImpactPreview({ preview, currency, summary, warnings = [] }: ImpactPreviewProps) {
+  const { changes, shifts, movedAmount } = preview
+
+  return (
+    <div className="space-y-3 border-t border-midnight-700 pt-4">
+      <div className="flex items-baseline justify-between gap-4">
+        <p className="text-sm text-white">
+          {changes.length === 0
+            ? 'No loaded transaction would change'
+            : `${changes.length} transaction${changes.length === 1 ? '' : 's'} would change`}
+          {summary && <span className="text-midnight-400"> · {summary}</span>}
+        </p>
+        {movedAmount > 0 && (
+          <p className="text-sm text-midnight-300 shrink-0">
+            {formatCurrency(movedAmount, currency)} moved
+          </p>
+        )}
+      </div>
+
+      {warnings.map(warning => (
+        <p key={warning} className="flex items-start gap-2 text-sm text-orange-400">
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          {warning}
+        </p>
+      ))}
+
+      {shifts.length > 0 && (
+        <div className="space-y-1">
+          {shifts.map(shift => (
+            <div key={`${shift.from}\n${shift.to}`} className="grid grid-cols-[1fr,auto,1fr,auto] gap-2 items-center text-xs text-midnight-300">
+              <CategoryLabel category={shift.from} />
+              <ArrowRight className="w-3 h-3 text-midnight-500" />
+              <CategoryLabel category={shift.to} />
+              <span className="text-right">
+                {shift.count} · {formatCurrency(shift.amount, currency)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {changes.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-midnight-700">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-midnight-800">
+              <tr className="text-left text-midnight-400">
+                <th className="px-3 py-2 font-medium">Date</th>
+                <th className="px-3 py-2 font-medium">Description</th>
+                <th className="px-3 py-2 font-medium text-right">Amount</th>
+                <th className="px-3 py-2 font-medium">Before</th>
+                <th className="px-3 py-2 font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.slice(0, MAX_CHANGES).map(({ before, after }) => (
+                <tr key={before.id} className="border-t border-midnight-800 text-midnight-200">
+                  <td className="px-3 py-1.5 whitespace-nowrap">{new Date(before.date).toLocaleDateString('de-DE')}</td>
+                  <td className="px-3 py-1.5 max-w-[220px] truncate" title={before.description}>
+                    {before.merchant || before.recipient || before.description}
+                  </td>
+                  <td className={`px-3 py-1.5 text-right whitespace-nowrap ${before.type === 'income' ? 'text-green-400' : ''}`}>
+                    {formatCurrency(before.amount, before.currency)}
+                  </td>
+                  <td className="px-3 py-1.5 max-w-[140px]"><CategoryLabel category={before.category} /></td>
+                  <td className="px-3 py-1.5 max-w-[180px]">
+                    <CategoryLabel category={after.category} />
+                    {describeOtherChanges(before, after) && (
+                      <span className="block text-midnight-400 truncate">{describeOtherChanges(before, after)}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {changes.length > MAX_CHANGES && (
+            <p className="px-3 py-2 text-xs text-midnight-400 border-t border-midnight-800">
+              and {changes.length - MAX_CHANGES} more
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import { Plus, Copy, AlertTriangle, ChevronDown, ChevronRight, FileSpreadsheet } from 'lucide-react'
+import { RawTransaction } from '../types'
+import { ImportAnalysis, FileImportResult } from '../lib/import-merge'
+
+interface ImportSummaryProps {
+  files: FileImportResult[]
+  analysis?: ImportAnalysis // Only for merge imports into existing data
+  incomingCount: number
+  onConfirm: (acceptedConflicts: RawTransaction[]) => void
+  onCancel: () => void
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+export default function ImportSummary({ files, analysis, incomingCount, onConfirm, onCancel }: ImportSummaryProps) {
+  const [accepted, setAccepted] = useState<Set<number>>(new Set())
+  const [showFuzzy, setShowFuzzy] = useState(false)
+
+  const fuzzyDuplicates = analysis?.duplicates.filter(d => d.match === 'fuzzy') || []
+  const importCount = analysis ? analysis.newRows.length + accepted.size : incomingCount
+
+  const handleToggleConflict = (index: number) => {
+    const next = new Set(accepted)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setAccepted(next)
+  }
+
+  const handleConfirm = () => {
+    onConfirm(analysis?.conflicts.filter((_, i) => accepted.has(i)).map(c => c.incoming) || [])
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-midnight-700 shrink-0">
+          <h3 className="text-xl font-semibold text-white mb-1">{analysis ? 'Merge Import' : 'Import Summary'}</h3>
+          <p className="text-midnight-400 text-sm truncate">
+            {files.length === 1 ? files[0].fileName : `${files.length} files`}
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          {/* Per-file results */}
+          {files.length > 1 && (
+            <section className="space-y-2">
+              {files.map((file, index) => (
+                <div key={index} className="flex items-start gap-3 bg-midnight-800 rounded-lg p-3">
+                  <FileSpreadsheet className={`w-5 h-5 mt-0.5 shrink-0 ${file.error ? 'text-red-400' : 'text-accent'}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-white truncate">{file.fileName}</span>
+                      <span className="text-xs text-midnight-400 shrink-0">{file.format}</span>
+                    </div>
+                    {file.error ? (
+                      <p className="text-xs text-red-400 mt-1">{file.error}</p>
+                    ) : (
+                      <p className="text-xs text-midnight-500 mt-1">
+                        {file.account ? `${file.account} · ` : ''}
+                        {file.imported} of {file.parsed} rows
+                        {file.duplicates > 0 && ` · ${file.duplicates} already in another file`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {/* Counts */}
+          {analysis && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-midnight-800 rounded-lg p-4">
+                <div className="flex items-center gap-2 text-income text-sm">
+                  <Plus className="w-4 h-4" />
+                  New
+                </div>
+                <p className="text-2xl font-bold text-white mt-1">{analysis.newRows.length}</p>
+              </div>
+              <div className="bg-midnight-800 rounded-lg p-4">
+                <div className="flex items-center gap-2 text-midnight-300 text-sm">
+                  <Copy className="w-4 h-4" />
+                  Duplicates
+                </div>
+                <p className="text-2xl font-bold text-white mt-1">{analysis.duplicates.length}</p>
+                {fuzzyDuplicates.length > 0 && (
+                  <p className="text-xs text-midnight-500 mt-1">{fuzzyDuplicates.length} with changed text</p>
+                )}
+              </div>
+              <div className="bg-midnight-800 rounded-lg p-4">
+                <div className="flex items-center gap-2 text-orange-400 text-sm">
+                  <AlertTriangle className="w-4 h-4" />
+                  Conflicts
+                </div>
+                <p className="text-2xl font-bold text-white mt-1">{analysis.conflicts.length}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Conflicts */}
+          {analysis && analysis.conflicts.length > 0 && (
+            <section>
+              <h4 className="text-sm font-medium text-midnight-300 mb-1">Conflicts</h4>
+              <p className="text-xs text-midnight-500 mb-3">
+                Same date, amount and account as an existing transaction, but a different description.
+                Tick the ones that are separate bookings to import them.
+              </p>
+              <div className="space-y-2">
+                {analysis.conflicts.map((conflict, index) => (
+                  <label
+                    key={index}
+                    className="flex items-start gap-3 bg-midnight-800 rounded-lg p-3 cursor-pointer hover:bg-midnight-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={accepted.has(index)}
+                      onChange={() => handleToggleConflict(index)}
+                      className="mt-1 rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="text-sm text-white truncate">{conflict.incoming.description || '—'}</span>
+                        <span className="text-sm text-midnight-300 shrink-0">
+                          {formatDate(conflict.incoming.date)} · {formatCurrency(conflict.incoming.amount, conflict.incoming.currency)}
+                        </span>
+                      </div>
+                      {conflict.candidates.map((candidate, i) => (
+                        <p key={i} className="text-xs text-midnight-500 truncate mt-1">
+                          Existing: {candidate.description || '—'}
+                        </p>
+                      ))}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Fuzzy duplicates */}
+          {fuzzyDuplicates.length > 0 && (
+            <section>
+              <button
+                onClick={() => setShowFuzzy(!showFuzzy)}
+                className="flex items-center gap-1 text-sm font-medium text-midnight-300 hover:text-white"
+              >
+                {showFuzzy ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                Duplicates with changed text ({fuzzyDuplicates.length})
+              </button>
+              {showFuzzy && (
+                <div className="space-y-2 mt-3">
+                  {fuzzyDuplicates.map((duplicate, index) => (
+                    <div key={index} className="bg-midnight-800 rounded-lg p-3">
+                      <div className="flex items-center justify-between text-xs text-midnight-400 mb-1">
+                        <span>{formatDate(duplicate.incoming.date)} · {formatCurrency(duplicate.incoming.amount, duplicate.incoming.currency)}</span>
+                        <span>{Math.round(duplicate.similarity * 100)}% similar</span>
+                      </div>
+                      <p className="text-xs text-midnight-500 truncate">Existing: {duplicate.existing.description}</p>
+                      <p className="text-xs text-midnight-300 truncate">Incoming: {duplicate.incoming.description}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-midnight-700 shrink-0">
+          <button onClick={onCancel} className="flex-1 btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleConfirm} className="flex-1 btn-primary">
+            {!analysis
+              ? `Import ${importCount} transactions`
+              : importCount > 0 ? `Merge ${importCount} transactions` : 'Nothing new to merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
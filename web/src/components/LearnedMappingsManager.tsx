@@ -0,0 +1,350 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
+import { X, Search, Trash2, Loader2, AlertTriangle } from 'lucide-react'
+import { Transaction } from '../types'
+import { getLearnedMappings, resolveLearnedMapping, deleteLearnedMappings, LearnedMapping } from '../lib/api'
+import { sortCategoryTree, findCategory } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { CategorizationChanges, CategorizationPreview, diffCategorization } from '../lib/impact-preview'
+import ImpactPreview from './ImpactPreview'
+
+interface LearnedMappingsManagerProps {
+  transactions: Transaction[] // Loaded history, to count and preview what each mapping affects
+  currency: string
+  onPreview: (changes: CategorizationChanges) => Promise<Transaction[]>
+  onChange: () => void // Called after every saved change
+  onClose: () => void
+}
+
+// SQLite timestamps are UTC without a zone ("2024-03-01 12:00:00")
+function formatUpdatedAt(updatedAt?: string): string {
+  if (!updatedAt) return ''
+  return new Date(`${updatedAt.replace(' ', 'T')}Z`).toLocaleDateString('de-DE')
+}
+
+export default function LearnedMappingsManager({ transactions, currency, onPreview, onChange, onClose }: LearnedMappingsManagerProps) {
+  const categories = useCategories()
+  const [mappings, setMappings] = useState<LearnedMapping[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [ambiguousOnly, setAmbiguousOnly] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [pending, setPending] = useState<{ merchant: string; category: string } | null>(null)
+  const [preview, setPreview] = useState<CategorizationPreview | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const previewRequest = useRef(0) // Only the latest preview is shown
+
+  useEffect(() => {
+    getLearnedMappings().then(loaded => {
+      setMappings(loaded)
+      setLoading(false)
+    })
+  }, [])
+
+  // Loaded transactions each mapping currently categorizes (manual edits win over mappings)
+  const affected = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const tx of transactions) {
+      if (tx.categorySource === 'learned' && tx.learnedMapping) {
+        counts.set(tx.learnedMapping, (counts.get(tx.learnedMapping) || 0) + 1)
+      }
+    }
+    return counts
+  }, [transactions])
+
+  const ambiguousCount = mappings.filter(m => m.ambiguous).length
+  // The filter switches itself off once everything is resolved
+  const showAmbiguousOnly = ambiguousOnly && ambiguousCount > 0
+
+  const filteredMappings = useMemo(() => {
+    const query = search.toLowerCase().trim()
+    return mappings.filter(m =>
+      (!showAmbiguousOnly || m.ambiguous) &&
+      (!query || `${m.merchantDisplay || ''} ${m.merchant} ${m.category}`.toLowerCase().includes(query))
+    )
+  }, [mappings, search, showAmbiguousOnly])
+
+  // Picking another category dry-runs the change; it is only saved once confirmed
+  const handleCategoryChange = async (mapping: LearnedMapping, category: string) => {
+    const request = ++previewRequest.current
+    setPreview(null)
+    if (category === mapping.category) {
+      setPending(null)
+      return
+    }
+
+    setPending({ merchant: mapping.merchant, category })
+    try {
+      const changed = mappings.map(m => (m.merchant === mapping.merchant ? { ...m, category } : m))
+      const after = await onPreview({ learnedMappings: changed })
+      if (request === previewRequest.current) setPreview(diffCategorization(transactions, after, currency))
+    } catch (err) {
+      if (request === previewRequest.current) setError(err instanceof Error ? err.message : 'Preview failed')
+    }
+  }
+
+  const cancelPending = () => {
+    previewRequest.current++
+    setPending(null)
+    setPreview(null)
+  }
+
+  // Run a change against the API, reload the list and re-categorize; errors stay in the dialog
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await action()
+      const loaded = await getLearnedMappings()
+      setMappings(loaded)
+      setSelected(prev => new Set(loaded.filter(m => prev.has(m.merchant)).map(m => m.merchant)))
+      setPending(null)
+      setPreview(null)
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save mapping')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = (merchants: string[]) => {
+    const count = merchants.reduce((sum, merchant) => sum + (affected.get(merchant) || 0), 0)
+    const what = merchants.length === 1 ? `the mapping for "${merchants[0]}"` : `${merchants.length} mappings`
+    if (!confirm(`Delete ${what}? ${count} loaded transactions currently use ${merchants.length === 1 ? 'it' : 'them'}.`)) return
+    run(() => deleteLearnedMappings(merchants))
+  }
+
+  const toggleSelected = (merchant: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(merchant)) next.delete(merchant)
+      else next.add(merchant)
+      return next
+    })
+  }
+
+  const allVisibleSelected = filteredMappings.length > 0 && filteredMappings.every(m => selected.has(m.merchant))
+
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      for (const m of filteredMappings) {
+        if (allVisibleSelected) next.delete(m.merchant)
+        else next.add(m.merchant)
+      }
+      return next
+    })
+  }
+
+  const categoryOptions = sortCategoryTree(categories)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-midnight-700 shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Learned Categories</h2>
+            <p className="text-sm text-midnight-400">
+              Merchants learned from your recategorizations; choosing a category here settles conflicting votes
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-b border-midnight-700 shrink-0">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-midnight-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search merchant or category"
+              className="input text-sm w-full pl-9"
+            />
+          </div>
+          {ambiguousCount > 0 && (
+            <button
+              onClick={() => setAmbiguousOnly(!showAmbiguousOnly)}
+              className={`text-sm flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${showAmbiguousOnly
+                ? 'bg-orange-500/20 text-orange-300'
+                : 'bg-midnight-800 text-orange-400 hover:bg-midnight-700'
+                }`}
+              title="Merchants whose recategorizations disagree"
+            >
+              <AlertTriangle className="w-4 h-4" />
+              {ambiguousCount} ambiguous
+            </button>
+          )}
+          {selected.size > 0 && (
+            <button
+              onClick={() => handleDelete(Array.from(selected))}
+              className="btn-secondary text-sm flex items-center gap-2 text-red-400"
+              disabled={saving}
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete {selected.size}
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {error && (
+            <p className="text-sm text-red-400 px-6 pt-4">{error}</p>
+          )}
+
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-midnight-400 p-6">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading learned categories...
+            </div>
+          ) : mappings.length === 0 ? (
+            <p className="text-sm text-midnight-400 p-6">
+              Nothing learned yet. Changing a transaction's category teaches it for that merchant.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-midnight-900 z-10">
+                <tr className="text-left text-xs text-midnight-400 border-b border-midnight-700">
+                  <th className="pl-6 pr-2 py-2 w-8">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                      className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+                    />
+                  </th>
+                  <th className="px-2 py-2 font-medium">Merchant</th>
+                  <th className="px-2 py-2 font-medium">Category</th>
+                  <th className="px-2 py-2 font-medium text-right" title="Votes for the category (recent ones count more)">Confidence</th>
+                  <th className="px-2 py-2 font-medium">Updated</th>
+                  <th className="px-2 py-2 font-medium text-right" title="Loaded transactions it categorizes">Affects</th>
+                  <th className="pl-2 pr-6 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {filteredMappings.map(mapping => {
+                  const isPending = pending?.merchant === mapping.merchant
+                  return (
+                    <Fragment key={mapping.merchant}>
+                      <tr className="border-b border-midnight-800 hover:bg-midnight-800/50 group">
+                        <td className="pl-6 pr-2 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(mapping.merchant)}
+                            onChange={() => toggleSelected(mapping.merchant)}
+                            className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+                          />
+                        </td>
+                        <td className="px-2 py-2 max-w-[240px]">
+                          <p className="text-white truncate" title={mapping.merchantDisplay}>
+                            {mapping.merchantDisplay || mapping.merchant}
+                          </p>
+                          {mapping.merchantDisplay && mapping.merchantDisplay !== mapping.merchant && (
+                            <p className="text-xs text-midnight-500 truncate">{mapping.merchant}</p>
+                          )}
+                        </td>
+                        <td className="px-2 py-2">
+                          <select
+                            value={isPending ? pending.category : mapping.category}
+                            onChange={(e) => handleCategoryChange(mapping, e.target.value)}
+                            className="input text-xs py-1"
+                            disabled={saving}
+                          >
+                            {!findCategory(categories, mapping.category) && (
+                              <option value={mapping.category}>{mapping.category}</option>
+                            )}
+                            {categoryOptions.map(category => (
+                              <option key={category.id} value={category.name}>
+                                {category.parentId !== undefined ? `  ${category.name}` : category.name}
+                              </option>
+                            ))}
+                          </select>
+                          {mapping.votes && mapping.votes.length > 1 && (
+                            <p
+                              className={`text-xs mt-1 flex items-center gap-1 ${mapping.ambiguous ? 'text-orange-400' : 'text-midnight-500'}`}
+                              title="Votes per category; recent votes weigh more"
+                            >
+                              {mapping.ambiguous && <AlertTriangle className="w-3 h-3 shrink-0" />}
+                              {mapping.votes.map(v => `${v.category} ${Math.round(v.votes)}`).join(' · ')}
+                            </p>
+                          )}
+                          {mapping.ambiguous && !isPending && (
+                            <button
+                              onClick={() => run(() => resolveLearnedMapping(mapping.merchant, mapping.category))}
+                              className="text-xs text-accent hover:text-accent-light mt-1"
+                              disabled={saving}
+                            >
+                              Keep {mapping.category}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-right text-midnight-300">{mapping.confidence}</td>
+                        <td className="px-2 py-2 text-midnight-300 whitespace-nowrap">{formatUpdatedAt(mapping.updatedAt)}</td>
+                        <td className="px-2 py-2 text-right text-midnight-300">{affected.get(mapping.merchant) || 0}</td>
+                        <td className="pl-2 pr-6 py-2 text-right">
+                          <button
+                            onClick={() => handleDelete([mapping.merchant])}
+                            className="p-1.5 hover:bg-midnight-700 rounded-lg text-midnight-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Delete"
+                            disabled={saving}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                      {isPending && (
+                        <tr className="border-b border-midnight-800 bg-midnight-800/30">
+                          <td />
+                          <td colSpan={6} className="pl-2 pr-6 pb-4 space-y-3">
+                            {preview ? (
+                              <ImpactPreview preview={preview} currency={currency} />
+                            ) : (
+                              <div className="flex items-center gap-2 text-sm text-midnight-400 pt-4">
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Checking which transactions would change...
+                              </div>
+                            )}
+                            <div className="flex justify-end gap-2">
+                              <button onClick={cancelPending} className="btn-secondary text-sm" disabled={saving}>
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => run(() => resolveLearnedMapping(pending.merchant, pending.category))}
+                                className="btn-primary text-sm flex items-center gap-2"
+                                disabled={saving}
+                              >
+                                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Change to {pending.category}
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {!loading && mappings.length > 0 && filteredMappings.length === 0 && (
+            <p className="text-sm text-midnight-400 p-6">No learned categories match your filters</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-midnight-700 shrink-0">
+          <p className="text-sm text-midnight-400">{mappings.length} learned merchants</p>
+          <button onClick={onClose} className="btn-secondary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { Loader2, X } from 'lucide-react'
+import { PipelineProgress, PipelineStage } from '../lib/pipeline'
+
+interface PipelineProgressPanelProps {
+  progress: PipelineProgress
+  onCancel: () => void
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  parsing: 'Parsing',
+  anonymizing: 'Anonymizing',
+  categorizing: 'Categorizing',
+  'double-bookings': 'Matching transfers between accounts',
+  recurring: 'Detecting recurring payments',
+}
+
+export default function PipelineProgressPanel({ progress, onCancel }: PipelineProgressPanelProps) {
+  const { stage, fileName, percent } = progress
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-80 bg-midnight-900 border border-midnight-700 rounded-xl shadow-2xl p-4">
+      <div className="flex items-center gap-3">
+        <Loader2 className="w-5 h-5 text-accent animate-spin shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-white">
+            {STAGE_LABELS[stage]}{percent !== undefined && ` ${percent}%`}
+          </p>
+          {fileName && <p className="text-xs text-midnight-400 truncate">{fileName}</p>}
+        </div>
+        <button
+          onClick={onCancel}
+          className="p-1 rounded-lg text-midnight-400 hover:text-white hover:bg-midnight-700"
+          title="Cancel"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {percent !== undefined && (
+        <div className="h-1.5 bg-midnight-800 rounded-full mt-3 overflow-hidden">
+          <div className="h-full bg-accent transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react'
+import { X } from 'lucide-react'
+import { Transaction } from '../types'
+import { findSimilarTransactions, SimilarityBasis } from '../lib/categorizer'
+import { getCategoryColor } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { RecategorizeScope } from '../lib/recategorize'
+
+interface RecategorizePromptProps {
+  transaction: Transaction
+  category: string
+  transactions: Transaction[] // Loaded history to look for similar transactions in
+  onConfirm: (scope: RecategorizeScope, basis: SimilarityBasis, similar: Transaction[]) => void
+  onCancel: () => void // Nothing changes
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+export default function RecategorizePrompt({ transaction, category, transactions, onConfirm, onCancel }: RecategorizePromptProps) {
+  const categories = useCategories()
+  const bySimilarity = useMemo(() => ({
+    merchant: findSimilarTransactions(transaction, transactions, category, 'merchant'),
+    iban: findSimilarTransactions(transaction, transactions, category, 'iban'),
+  }), [transaction, transactions, category])
+
+  const [basis, setBasis] = useState<SimilarityBasis>(bySimilarity.merchant.length > 0 ? 'merchant' : 'iban')
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+
+  const similar = bySimilarity[basis]
+  const selected = similar.filter(tx => !excluded.has(tx.id))
+  const name = transaction.merchant || transaction.recipient || transaction.description
+
+  const handleToggle = (id: string) => {
+    const next = new Set(excluded)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setExcluded(next)
+  }
+
+  const bases: Array<{ value: SimilarityBasis; label: string; count: number }> = [
+    { value: 'merchant', label: transaction.creditorId ? 'Same direct debit' : 'Same merchant', count: bySimilarity.merchant.length },
+    { value: 'iban', label: 'Same IBAN', count: bySimilarity.iban.length },
+  ]
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-midnight-700 shrink-0">
+          <div className="min-w-0">
+            <h3 className="text-xl font-semibold text-white mb-1">Apply to similar transactions?</h3>
+            <p className="text-midnight-400 text-sm truncate">
+              Moving "{name}" to <span className="text-white">{category}</span>
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4 shrink-0">
+          {bases.filter(b => b.count > 0).map(b => (
+            <button
+              key={b.value}
+              onClick={() => setBasis(b.value)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${basis === b.value
+                ? 'bg-accent text-white'
+                : 'bg-midnight-800 text-midnight-300 hover:bg-midnight-700'
+                }`}
+            >
+              {b.label} ({b.count})
+            </button>
+          ))}
+        </div>
+        <p className="px-6 pt-2 text-xs text-midnight-400 shrink-0">
+          {basis === 'iban'
+            ? 'Remembered as a rule for this IBAN'
+            : 'Remembered as a learned category for this merchant'}
+        </p>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-1">
+          {similar.map(tx => (
+            <label
+              key={tx.id}
+              className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-midnight-800 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={!excluded.has(tx.id)}
+                onChange={() => handleToggle(tx.id)}
+                className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+              />
+              <span className="text-xs text-midnight-400 w-24 shrink-0">{formatDate(tx.date)}</span>
+              <span className="text-sm text-white flex-1 truncate" title={tx.description}>{tx.description}</span>
+              <span className="flex items-center gap-1.5 text-xs text-midnight-300 w-32 shrink-0">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getCategoryColor(categories, tx.category) }} />
+                <span className="truncate">{tx.category || 'Uncategorized'}</span>
+              </span>
+              <span className={`text-sm text-right w-24 shrink-0 ${tx.type === 'income' ? 'text-green-400' : 'text-midnight-200'}`}>
+                {formatCurrency(tx.amount, tx.currency)}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-midnight-700 shrink-0">
+          <button
+            onClick={() => onConfirm('this', basis, similar)}
+            className="flex-1 btn-secondary"
+            title="Change only this transaction and don't learn from it"
+          >
+            Just this one
+          </button>
+          <button
+            onClick={() => onConfirm('future', basis, similar)}
+            className="flex-1 btn-secondary"
+            title="Keep the similar transactions as they are, but categorize future ones like this"
+          >
+            Future only
+          </button>
+          <button
+            onClick={() => onConfirm('all', basis, selected)}
+            className="flex-1 btn-primary"
+          >
+            Apply to {selected.length + 1}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
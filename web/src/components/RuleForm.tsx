@@ -0,0 +1,412 @@
+import { useState } from 'react'
+import { Loader2, Eye } from 'lucide-react'
+import { CategorizationRuleInput, RuleConditions, RuleActions, TextMatch } from '../types'
+import { sortCategoryTree } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { RuleImpact } from '../lib/impact-preview'
+import ImpactPreview from './ImpactPreview'
+
+interface RuleFormProps {
+  initial?: CategorizationRuleInput
+  saving: boolean
+  currency: string
+  onPreview: (rule: CategorizationRuleInput) => Promise<RuleImpact> // Dry run against the loaded history
+  onSubmit: (rule: CategorizationRuleInput) => void
+  onCancel: () => void
+}
+
+// Everything is edited as text; empty fields are left out of the rule
+interface RuleDraft {
+  name: string
+  priority: string
+  enabled: boolean
+  description: TextMatch
+  recipient: TextMatch
+  account: TextMatch
+  sourceCategory: TextMatch
+  iban: string
+  minAmount: string
+  maxAmount: string
+  type: '' | 'income' | 'expense'
+  weekdays: number[]
+  daysOfMonth: string
+  category: string
+  merchant: string
+  tags: string
+  exclude: boolean
+  markTransfer: boolean
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const EMPTY_TEXT: TextMatch = { match: 'contains', value: '' }
+
+function toDraft(rule?: CategorizationRuleInput): RuleDraft {
+  const conditions = rule?.conditions || {}
+  const actions = rule?.actions || {}
+  return {
+    name: rule?.name || '',
+    priority: String(rule?.priority ?? 0),
+    enabled: rule?.enabled ?? true,
+    description: conditions.description || EMPTY_TEXT,
+    recipient: conditions.recipient || EMPTY_TEXT,
+    account: conditions.account || EMPTY_TEXT,
+    sourceCategory: conditions.sourceCategory || EMPTY_TEXT,
+    iban: conditions.iban || '',
+    minAmount: conditions.minAmount?.toString() || '',
+    maxAmount: conditions.maxAmount?.toString() || '',
+    type: conditions.type || '',
+    weekdays: conditions.weekdays || [],
+    daysOfMonth: conditions.daysOfMonth?.join(', ') || '',
+    category: actions.category || '',
+    merchant: actions.merchant || '',
+    tags: actions.tags?.join(', ') || '',
+    exclude: actions.exclude || false,
+    markTransfer: actions.markTransfer || false,
+  }
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = parseFloat(value.replace(',', '.'))
+  return isNaN(amount) ? undefined : amount
+}
+
+// "1, 15, 28-31" -> [1, 15, 28, 29, 30, 31]
+function parseDays(value: string): number[] {
+  const days = new Set<number>()
+  for (const part of value.split(',')) {
+    const [start, end] = part.split('-').map(s => parseInt(s.trim(), 10))
+    if (isNaN(start)) continue
+    for (let day = start; day <= (isNaN(end) ? start : end); day++) {
+      if (day >= 1 && day <= 31) days.add(day)
+    }
+  }
+  return Array.from(days).sort((a, b) => a - b)
+}
+
+function fromDraft(draft: RuleDraft): CategorizationRuleInput {
+  const conditions: RuleConditions = {}
+  const text = (match: TextMatch) => (match.value.trim() ? { match: match.match, value: match.value.trim() } : undefined)
+
+  conditions.description = text(draft.description)
+  conditions.recipient = text(draft.recipient)
+  conditions.account = text(draft.account)
+  conditions.sourceCategory = text(draft.sourceCategory)
+  conditions.iban = draft.iban.trim() || undefined
+  conditions.minAmount = parseAmount(draft.minAmount)
+  conditions.maxAmount = parseAmount(draft.maxAmount)
+  conditions.type = draft.type || undefined
+  conditions.weekdays = draft.weekdays.length > 0 ? [...draft.weekdays].sort((a, b) => a - b) : undefined
+  const days = parseDays(draft.daysOfMonth)
+  conditions.daysOfMonth = days.length > 0 ? days : undefined
+
+  const tags = draft.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+  const actions: RuleActions = {
+    category: draft.category || undefined,
+    merchant: draft.merchant.trim() || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    exclude: draft.exclude || undefined,
+    markTransfer: draft.markTransfer || undefined,
+  }
+
+  // Drop unset keys so the stored JSON only holds what the rule uses
+  const compact = <T extends object>(value: T): T =>
+    Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+
+  return {
+    name: draft.name.trim(),
+    priority: parseInt(draft.priority, 10) || 0,
+    enabled: draft.enabled,
+    conditions: compact(conditions),
+    actions: compact(actions),
+  }
+}
+
+interface TextMatchInputProps {
+  label: string
+  value: TextMatch
+  placeholder: string
+  onChange: (value: TextMatch) => void
+}
+
+function TextMatchInput({ label, value, placeholder, onChange }: TextMatchInputProps) {
+  return (
+    <div className="grid grid-cols-[110px,110px,1fr] gap-2 items-center">
+      <span className="text-sm text-midnight-300">{label}</span>
+      <select
+        value={value.match}
+        onChange={(e) => onChange({ ...value, match: e.target.value as TextMatch['match'] })}
+        className="input text-sm"
+      >
+        <option value="contains">contains</option>
+        <option value="equals">equals</option>
+        <option value="regex">matches regex</option>
+      </select>
+      <input
+        type="text"
+        value={value.value}
+        onChange={(e) => onChange({ ...value, value: e.target.value })}
+        placeholder={placeholder}
+        className="input text-sm"
+      />
+    </div>
+  )
+}
+
+// Warnings about rules that overlap with the previewed one
+function getWarnings(impact: RuleImpact): string[] {
+  const warnings: string[] = []
+  if (impact.matched === 0) {
+    warnings.push('The rule does not match any loaded transaction')
+  }
+  for (const { rule, count } of impact.shadowedBy) {
+    warnings.push(`Shadowed by "${rule.name}" (priority ${rule.priority}), which comes first for ${count} of the matching transactions`)
+  }
+  for (const { rule, count } of impact.shadows) {
+    warnings.push(`Shadows "${rule.name}" (priority ${rule.priority}) on ${count} transactions it currently handles`)
+  }
+  if (impact.manual > 0) {
+    warnings.push(`${impact.manual} matching transactions keep their manually edited category`)
+  }
+  return warnings
+}
+
+export default function RuleForm({ initial, saving, currency, onPreview, onSubmit, onCancel }: RuleFormProps) {
+  const categories = useCategories()
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(initial))
+  const [impact, setImpact] = useState<RuleImpact | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  // A preview is only valid for the draft it was made for
+  const update = (updates: Partial<RuleDraft>) => {
+    setDraft({ ...draft, ...updates })
+    setImpact(null)
+  }
+
+  const handlePreview = async () => {
+    setPreviewing(true)
+    setPreviewError(null)
+    try {
+      setImpact(await onPreview(fromDraft(draft)))
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Preview failed')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const toggleWeekday = (day: number) => {
+    update({ weekdays: draft.weekdays.includes(day) ? draft.weekdays.filter(d => d !== day) : [...draft.weekdays, day] })
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-[1fr,100px] gap-3">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Rule name, e.g. Rent to landlord"
+          className="input text-sm"
+          autoFocus
+        />
+        <input
+          type="number"
+          value={draft.priority}
+          onChange={(e) => update({ priority: e.target.value })}
+          className="input text-sm"
+          title="Priority - higher runs first"
+        />
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium text-white">When all of these match</h3>
+        <TextMatchInput
+          label="Description"
+          value={draft.description}
+          placeholder="e.g. miete"
+          onChange={(description) => update({ description })}
+        />
+        <TextMatchInput
+          label="Recipient"
+          value={draft.recipient}
+          placeholder="Recipient or merchant"
+          onChange={(recipient) => update({ recipient })}
+        />
+        <TextMatchInput
+          label="Account"
+          value={draft.account}
+          placeholder="Your account number or name"
+          onChange={(account) => update({ account })}
+        />
+        <TextMatchInput
+          label="Bank category"
+          value={draft.sourceCategory}
+          placeholder="Category from the export, e.g. Wohnen/Miete"
+          onChange={(sourceCategory) => update({ sourceCategory })}
+        />
+        <div className="grid grid-cols-[110px,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">IBAN</span>
+          <input
+            type="text"
+            value={draft.iban}
+            onChange={(e) => update({ iban: e.target.value })}
+            placeholder="DE89 3704 0044 0532 0130 00"
+            className="input text-sm font-mono"
+          />
+        </div>
+        <div className="grid grid-cols-[110px,1fr,1fr,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">Amount</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft.minAmount}
+            onChange={(e) => update({ minAmount: e.target.value })}
+            placeholder="From"
+            className="input text-sm"
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft.maxAmount}
+            onChange={(e) => update({ maxAmount: e.target.value })}
+            placeholder="To"
+            className="input text-sm"
+          />
+          <select
+            value={draft.type}
+            onChange={(e) => update({ type: e.target.value as RuleDraft['type'] })}
+            className="input text-sm"
+          >
+            <option value="">Income or expense</option>
+            <option value="expense">Expense</option>
+            <option value="income">Income</option>
+          </select>
+        </div>
+        <div className="grid grid-cols-[110px,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">Weekdays</span>
+          <div className="flex gap-1">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={label}
+                onClick={() => toggleWeekday(day)}
+                className={`px-2 py-1 rounded text-xs transition-colors ${draft.weekdays.includes(day)
+                  ? 'bg-accent text-white'
+                  : 'bg-midnight-800 text-midnight-400 hover:bg-midnight-700'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-[110px,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">Days of month</span>
+          <input
+            type="text"
+            value={draft.daysOfMonth}
+            onChange={(e) => update({ daysOfMonth: e.target.value })}
+            placeholder="e.g. 1, 15, 28-31"
+            className="input text-sm"
+          />
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium text-white">Then</h3>
+        <div className="grid grid-cols-[110px,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">Category</span>
+          <select
+            value={draft.category}
+            onChange={(e) => update({ category: e.target.value })}
+            className="input text-sm"
+          >
+            <option value="">Keep the built-in categorization</option>
+            {sortCategoryTree(categories).map(category => (
+              <option key={category.id} value={category.name}>
+                {category.parentId !== undefined ? `  ${category.name}` : category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-[110px,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">Merchant</span>
+          <input
+            type="text"
+            value={draft.merchant}
+            onChange={(e) => update({ merchant: e.target.value })}
+            placeholder="Display name, e.g. Landlord"
+            className="input text-sm"
+          />
+        </div>
+        <div className="grid grid-cols-[110px,1fr] gap-2 items-center">
+          <span className="text-sm text-midnight-300">Tags</span>
+          <input
+            type="text"
+            value={draft.tags}
+            onChange={(e) => update({ tags: e.target.value })}
+            placeholder="Comma-separated, e.g. flat, fixed costs"
+            className="input text-sm"
+          />
+        </div>
+        <div className="flex gap-6 pl-[118px]">
+          <label className="flex items-center gap-2 text-sm text-midnight-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.exclude}
+              onChange={(e) => update({ exclude: e.target.checked })}
+              className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+            />
+            Exclude from totals
+          </label>
+          <label className="flex items-center gap-2 text-sm text-midnight-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.markTransfer}
+              onChange={(e) => update({ markTransfer: e.target.checked })}
+              className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+            />
+            Internal transfer
+          </label>
+        </div>
+      </section>
+
+      {previewError && (
+        <p className="text-sm text-red-400">{previewError}</p>
+      )}
+
+      {impact && (
+        <ImpactPreview
+          preview={impact}
+          currency={currency}
+          summary={`matches ${impact.matched}`}
+          warnings={getWarnings(impact)}
+        />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={handlePreview}
+          className="btn-secondary text-sm flex items-center gap-2 mr-auto"
+          disabled={previewing || saving}
+          title="Show which loaded transactions this rule would change"
+        >
+          {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          Preview
+        </button>
+        <button onClick={onCancel} className="btn-secondary text-sm" disabled={saving}>
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit(fromDraft(draft))}
+          className="btn-primary text-sm flex items-center gap-2"
+          disabled={saving || !draft.name.trim()}
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Rule
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react'
+import { X, Plus, Pencil, Trash2, Loader2 } from 'lucide-react'
+import { CategorizationRule, CategorizationRuleInput, RuleConditions, RuleActions, Transaction } from '../types'
+import { sortRules } from '../lib/rules'
+import { getRules, saveRule, deleteRule } from '../lib/api'
+import { CategorizationChanges, DRAFT_RULE_ID, getRuleImpact, RuleImpact } from '../lib/impact-preview'
+import RuleForm from './RuleForm'
+
+interface RuleManagerProps {
+  transactions: Transaction[] // Loaded history the preview compares against
+  currency: string
+  onPreview: (changes: CategorizationChanges) => Promise<Transaction[]>
+  onChange: () => void // Called after every saved change
+  onClose: () => void
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// One-line summaries for the rule list
+function describeConditions(conditions: RuleConditions): string {
+  const parts: string[] = []
+  const text = (label: string, match?: { match: string; value: string }) => {
+    if (match) parts.push(`${label} ${match.match === 'regex' ? 'matches' : match.match} "${match.value}"`)
+  }
+
+  text('description', conditions.description)
+  text('recipient', conditions.recipient)
+  text('account', conditions.account)
+  text('bank category', conditions.sourceCategory)
+  if (conditions.iban) parts.push(`IBAN ${conditions.iban}`)
+  if (conditions.type) parts.push(conditions.type)
+  if (conditions.minAmount !== undefined && conditions.maxAmount !== undefined) {
+    parts.push(`amount ${conditions.minAmount} - ${conditions.maxAmount}`)
+  } else if (conditions.minAmount !== undefined) {
+    parts.push(`amount ≥ ${conditions.minAmount}`)
+  } else if (conditions.maxAmount !== undefined) {
+    parts.push(`amount ≤ ${conditions.maxAmount}`)
+  }
+  if (conditions.weekdays) parts.push(`on ${conditions.weekdays.map(d => WEEKDAY_NAMES[d]).join(', ')}`)
+  if (conditions.daysOfMonth) parts.push(`day ${conditions.daysOfMonth.join(', ')}`)
+
+  return parts.join(' · ')
+}
+
+function describeActions(actions: RuleActions): string {
+  const parts: string[] = []
+  if (actions.markTransfer) parts.push('transfer')
+  if (actions.category) parts.push(actions.category)
+  if (actions.merchant) parts.push(`merchant "${actions.merchant}"`)
+  if (actions.tags) parts.push(actions.tags.map(tag => `#${tag}`).join(' '))
+  if (actions.exclude) parts.push('excluded')
+  return parts.join(' · ')
+}
+
+function toInput(rule: CategorizationRule): CategorizationRuleInput {
+  const { name, priority, enabled, conditions, actions } = rule
+  return { name, priority, enabled, conditions, actions }
+}
+
+export default function RuleManager({ transactions, currency, onPreview, onChange, onClose }: RuleManagerProps) {
+  const [rules, setRules] = useState<CategorizationRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getRules().then(loaded => {
+      setRules(sortRules(loaded))
+      setLoading(false)
+    })
+  }, [])
+
+  // Run a change against the API, reload the list and re-categorize; errors stay in the dialog
+  const run = async (action: () => Promise<unknown>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await action()
+      setRules(sortRules(await getRules()))
+      onChange()
+      setEditingId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Dry-run the rule on its own (everything it matches) and together with the other rules (what would change)
+  const previewRule = async (input: CategorizationRuleInput, id = DRAFT_RULE_ID): Promise<RuleImpact> => {
+    const rule: CategorizationRule = { ...input, id }
+    const others = rules.filter(r => r.id !== id)
+    const [isolated, candidate] = await Promise.all([
+      onPreview({ rules: [{ ...rule, enabled: true }] }),
+      onPreview({ rules: [...others, rule] }),
+    ])
+    return getRuleImpact(rule, rules, transactions, isolated, candidate, currency)
+  }
+
+  const handleToggle = (rule: CategorizationRule) => {
+    run(() => saveRule({ ...toInput(rule), enabled: !rule.enabled }, rule.id))
+  }
+
+  const handleDelete = (rule: CategorizationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return
+    run(() => deleteRule(rule.id))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-midnight-700 shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Rules</h2>
+            <p className="text-sm text-midnight-400">
+              The first matching rule (highest priority) is applied before the built-in categorization
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-1">
+          {error && (
+            <p className="text-sm text-red-400 mb-3">{error}</p>
+          )}
+
+          {loading && (
+            <div className="flex items-center gap-2 text-sm text-midnight-400">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading rules...
+            </div>
+          )}
+
+          {rules.map(rule => (
+            <div key={rule.id}>
+              {editingId === rule.id ? (
+                <div className="bg-midnight-800 rounded-lg p-4">
+                  <RuleForm
+                    initial={toInput(rule)}
+                    saving={saving}
+                    currency={currency}
+                    onPreview={(input) => previewRule(input, rule.id)}
+                    onSubmit={(input) => run(() => saveRule(input, rule.id))}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-midnight-800 group">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => handleToggle(rule)}
+                    disabled={saving}
+                    className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+                    title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                  />
+                  <div className={`flex-1 min-w-0 ${rule.enabled ? '' : 'opacity-50'}`}>
+                    <p className="text-sm text-white truncate">{rule.name}</p>
+                    <p className="text-xs text-midnight-400 truncate">
+                      {describeConditions(rule.conditions)} → {describeActions(rule.actions)}
+                    </p>
+                  </div>
+                  <span className="text-xs text-midnight-400 w-12 text-right" title="Priority">
+                    {rule.priority}
+                  </span>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => setEditingId(rule.id)}
+                      className="p-1.5 hover:bg-midnight-700 rounded-lg text-midnight-400 hover:text-white"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-1.5 hover:bg-midnight-700 rounded-lg text-midnight-400 hover:text-red-400"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {!loading && rules.length === 0 && editingId !== 'new' && (
+            <p className="text-sm text-midnight-400">
+              No rules yet. Rules categorize, rename, tag or exclude transactions that match their conditions.
+            </p>
+          )}
+
+          <div className="pt-3">
+            {editingId === 'new' ? (
+              <div className="bg-midnight-800 rounded-lg p-4">
+                <RuleForm
+                  saving={saving}
+                  currency={currency}
+                  onPreview={(input) => previewRule(input)}
+                  onSubmit={(input) => run(() => saveRule(input))}
+                  onCancel={() => setEditingId(null)}
+                />
+              </div>
+            ) : (
+              <button
+                onClick={() => setEditingId('new')}
+                className="flex items-center gap-1 text-sm text-accent hover:text-accent-light"
+                disabled={loading}
+              >
+                <Plus className="w-4 h-4" />
+                Add Rule
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end p-6 border-t border-midnight-700 shrink-0">
+          <button onClick={onClose} className="btn-secondary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 import { Search, X, Calendar, ChevronDown } from 'lucide-react'
 import { useState, useRef, useEffect, useMemo } from 'react'
 import { DateRange, Transaction } from '../types'
-import { AVAILABLE_CATEGORIES } from '../lib/categorizer'
+import { sortCategoryTree } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
 
 // Helper function to set a date to end of day (23:59:59.999) to include all transactions on that day
 function setEndOfDay(date: Date): Date {
@@ -37,6 +38,7 @@ export default function SearchFilter({
     totalCount,
     transactions = [],
 }: SearchFilterProps) {
+    const categories = useCategories()
     const [showCategoryDropdown, setShowCategoryDropdown] = useState(false)
     const [showDatePicker, setShowDatePicker] = useState(false)
     const categoryRef = useRef<HTMLDivElement>(null)
@@ -269,18 +271,18 @@ export default function SearchFilter({
                             >
                                 Clear All
                             </button>
-                            {AVAILABLE_CATEGORIES.filter(c => c !== 'Transfer').map((category) => (
+                            {sortCategoryTree(categories).filter(c => c.kind !== 'transfer').map((category) => (
                                 <label
-                                    key={category}
-                                    className="flex items-center gap-3 px-4 py-2 hover:bg-midnight-700 cursor-pointer"
+                                    key={category.id}
+                                    className={`flex items-center gap-3 px-4 py-2 hover:bg-midnight-700 cursor-pointer ${category.parentId !== undefined ? 'pl-8' : ''}`}
                                 >
                                     <input
                                         type="checkbox"
-                                        checked={selectedCategories.includes(category)}
-                                        onChange={() => handleCategoryToggle(category)}
+                                        checked={selectedCategories.includes(category.name)}
+                                        onChange={() => handleCategoryToggle(category.name)}
                                         className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
                                     />
-                                    <span className="text-sm">{category}</span>
+                                    <span className="text-sm">{category.name}</span>
                                 </label>
                             ))}
                         </div>
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react'
 import { X, Plus, Trash2, Loader2, RefreshCw } from 'lucide-react'
 import { SheetConfig, CategoryMapping } from '../types'
-import { AVAILABLE_CATEGORIES } from '../lib/categorizer'
+import { getCategoryNames } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
 import { getSheetConfig, saveSheetConfig } from '../lib/api'
 
 interface SettingsPanelProps {
@@ -15,39 +16,17 @@ interface SheetTab {
   index: number
 }
 
-// Default column mappings matching your Google Sheet structure:
-// Month | Rent | Eating Out | Personal Entertainment | Subscriptions | Car(Miles) | Public Transport | 
-// Internet | Electricity | Insurance | Travel | Groceries | Family | Radio Tax | Health & Wellbeing | 
-// Shopping | Other | Gifts | Total Expenditure | Income | Income After Expenditure | Gross Savings | 
-// Gross Investment | Net Income
-const DEFAULT_MAPPINGS: CategoryMapping[] = [
-  { appCategory: 'Rent', sheetColumn: 'B' },
-  { appCategory: 'Eating Out', sheetColumn: 'C' },
-  { appCategory: 'Personal Entertainment', sheetColumn: 'D' },
-  { appCategory: 'Subscriptions', sheetColumn: 'E' },
-  { appCategory: 'Car', sheetColumn: 'F' },           // Car(Miles)
-  { appCategory: 'Public Transport', sheetColumn: 'G' },
-  { appCategory: 'Internet', sheetColumn: 'H' },
-  { appCategory: 'Electricity', sheetColumn: 'I' },
-  { appCategory: 'Insurance', sheetColumn: 'J' },
-  { appCategory: 'Travel', sheetColumn: 'K' },
-  { appCategory: 'Groceries', sheetColumn: 'L' },
-  { appCategory: 'Family', sheetColumn: 'M' },
-  { appCategory: 'Radio Tax', sheetColumn: 'N' },
-  { appCategory: 'Health & Wellbeing', sheetColumn: 'O' },
-  { appCategory: 'Shopping', sheetColumn: 'P' },
-  { appCategory: 'Other', sheetColumn: 'Q' },
-  { appCategory: 'Gifts', sheetColumn: 'R' },
-]
-
 // Columns that are calculated formulas and should not be overwritten
 const DEFAULT_CONSTANTS = ['S', 'T', 'U', 'V', 'W', 'X'] // Total Expenditure, Income, etc.
 
 export default function SettingsPanel({ config, onSave, onClose }: SettingsPanelProps) {
+  const categories = useCategories()
+  // Income and transfers have no column of their own
+  const mappableCategories = getCategoryNames(categories, ['expense', 'savings', 'investment'])
   const [sheetId, setSheetId] = useState(config?.sheetId || '')
   const [tabName, setTabName] = useState(config?.tabName || '2026')
   const [monthFormat, setMonthFormat] = useState<'short' | 'long' | 'numeric'>(config?.monthFormat || 'short')
-  const [mappings, setMappings] = useState<CategoryMapping[]>(config?.categoryMappings || DEFAULT_MAPPINGS)
+  const [mappings, setMappings] = useState<CategoryMapping[]>(config?.categoryMappings || [])
   const [constantColumns, setConstantColumns] = useState<string[]>(config?.constantColumns || DEFAULT_CONSTANTS)
   const [availableTabs, setAvailableTabs] = useState<SheetTab[]>([])
   const [loadingTabs, setLoadingTabs] = useState(false)
@@ -66,7 +45,7 @@ export default function SettingsPanel({ config, onSave, onClose }: SettingsPanel
           setSheetId(serverConfig.sheetId || '')
           setTabName(serverConfig.tabName || '2026')
           setMonthFormat(serverConfig.monthFormat || 'short')
-          setMappings(serverConfig.categoryMappings || DEFAULT_MAPPINGS)
+          setMappings(serverConfig.categoryMappings || [])
           setConstantColumns(serverConfig.constantColumns || DEFAULT_CONSTANTS)
         }
         setLoading(false)
@@ -134,9 +113,7 @@ export default function SettingsPanel({ config, onSave, onClose }: SettingsPanel
   }
 
   const handleAddMapping = () => {
-    const unmappedCategories = AVAILABLE_CATEGORIES.filter(
-      c => !mappings.find(m => m.appCategory === c) && c !== 'Transfer' && c !== 'Income'
-    )
+    const unmappedCategories = mappableCategories.filter(c => !mappings.find(m => m.appCategory === c))
     if (unmappedCategories.length > 0) {
       setMappings([...mappings, { appCategory: unmappedCategories[0], sheetColumn: '' }])
     }
@@ -316,7 +293,7 @@ export default function SettingsPanel({ config, onSave, onClose }: SettingsPanel
                         onChange={(e) => handleMappingChange(index, 'appCategory', e.target.value)}
                         className="input text-sm"
                       >
-                        {AVAILABLE_CATEGORIES.filter(c => c !== 'Transfer' && c !== 'Income').map(cat => (
+                        {mappableCategories.map(cat => (
                           <option key={cat} value={cat}>{cat}</option>
                         ))}
                       </select>
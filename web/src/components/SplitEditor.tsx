@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import { X, Plus, Trash2 } from 'lucide-react'
+import { Transaction, TransactionSplit } from '../types'
+import { sortCategoryTree } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import { validateSplits } from '../lib/splits'
+
+interface SplitEditorProps {
+  transaction: Transaction // As booked, not converted to the base currency
+  onSave: (splits: TransactionSplit[]) => void // Empty to remove the split
+  onClose: () => void
+}
+
+// Amounts are edited as text so "12," can be typed on the way to "12,50"
+interface SplitRow {
+  category: string
+  amount: string
+  note: string
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0
+}
+
+function toRows(tx: Transaction): SplitRow[] {
+  if (tx.splits && tx.splits.length > 0) {
+    return tx.splits.map(split => ({ category: split.category, amount: split.amount.toFixed(2), note: split.note || '' }))
+  }
+  return [
+    { category: tx.category || 'Other', amount: tx.amount.toFixed(2), note: '' },
+    { category: '', amount: '', note: '' },
+  ]
+}
+
+export default function SplitEditor({ transaction, onSave, onClose }: SplitEditorProps) {
+  const categories = useCategories()
+  const [rows, setRows] = useState<SplitRow[]>(() => toRows(transaction))
+
+  const splits: TransactionSplit[] = rows.map(row => ({
+    category: row.category,
+    amount: Math.round(parseAmount(row.amount) * 100) / 100,
+    ...(row.note.trim() ? { note: row.note.trim() } : {}),
+  }))
+  const errors = validateSplits(splits, transaction.amount)
+  const remaining = transaction.amount - splits.reduce((sum, split) => sum + split.amount, 0)
+
+  const updateRow = (index: number, updates: Partial<SplitRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  // New parts start with whatever is still unallocated
+  const handleAddRow = () => {
+    setRows([...rows, { category: '', amount: remaining > 0 ? remaining.toFixed(2) : '', note: '' }])
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-midnight-700 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-xl font-semibold text-white">Split Transaction</h2>
+            <p className="text-sm text-midnight-400 truncate">
+              {transaction.merchant || transaction.recipient || transaction.description} ·{' '}
+              {formatCurrency(transaction.amount, transaction.currency)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-2">
+          <div className="grid grid-cols-[1fr,110px,1fr,40px] gap-2 text-xs text-midnight-400 px-2">
+            <span>Category</span>
+            <span>Amount</span>
+            <span>Note</span>
+            <span></span>
+          </div>
+
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr,110px,1fr,40px] gap-2 items-center">
+              <select
+                value={row.category}
+                onChange={(e) => updateRow(index, { category: e.target.value })}
+                className="input text-sm"
+              >
+                <option value="">Choose...</option>
+                {sortCategoryTree(categories).map(category => (
+                  <option key={category.id} value={category.name}>
+                    {category.parentId !== undefined ? `  ${category.name}` : category.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={row.amount}
+                onChange={(e) => updateRow(index, { amount: e.target.value })}
+                placeholder="0.00"
+                className="input text-sm text-right"
+              />
+              <input
+                type="text"
+                value={row.note}
+                onChange={(e) => updateRow(index, { note: e.target.value })}
+                placeholder="Optional"
+                className="input text-sm"
+              />
+              <button
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                className="p-2 hover:bg-midnight-800 rounded-lg text-midnight-400 hover:text-red-400"
+                disabled={rows.length <= 2}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between pt-2">
+            <button
+              onClick={handleAddRow}
+              className="flex items-center gap-1 text-sm text-accent hover:text-accent-light"
+            >
+              <Plus className="w-4 h-4" />
+              Add Part
+            </button>
+            <span className={`text-sm ${Math.abs(remaining) < 0.005 ? 'text-midnight-400' : 'text-orange-400'}`}>
+              Unallocated: {formatCurrency(remaining, transaction.currency)}
+            </span>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-orange-300 space-y-0.5 pt-2">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 p-6 border-t border-midnight-700 shrink-0">
+          <div>
+            {transaction.splits && transaction.splits.length > 0 && (
+              <button onClick={() => onSave([])} className="btn-secondary">
+                Remove Split
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={() => onSave(splits)} className="btn-primary" disabled={errors.length > 0}>
+              Save Split
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
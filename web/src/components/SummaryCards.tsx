@@ -1,4 +1,4 @@
-import { TrendingUp, TrendingDown, Wallet, CalendarDays } from 'lucide-react'
+import { TrendingUp, TrendingDown, Wallet, CalendarDays, AlertTriangle } from 'lucide-react'
 import { AnalysisSummary } from '../types'
 
 interface SummaryCardsProps {
@@ -47,20 +47,28 @@ export default function SummaryCards({ summary }: SummaryCardsProps) {
   ]
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-      {cards.map((card) => (
-        <div key={card.label} className="card">
-          <div className="flex items-center justify-between">
-            <p className="text-midnight-400 text-sm font-medium">{card.label}</p>
-            <div className={`w-10 h-10 rounded-lg ${card.bgColor} flex items-center justify-center`}>
-              <card.icon className={`w-5 h-5 ${card.color}`} />
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {cards.map((card) => (
+          <div key={card.label} className="card">
+            <div className="flex items-center justify-between">
+              <p className="text-midnight-400 text-sm font-medium">{card.label}</p>
+              <div className={`w-10 h-10 rounded-lg ${card.bgColor} flex items-center justify-center`}>
+                <card.icon className={`w-5 h-5 ${card.color}`} />
+              </div>
             </div>
+            <p className={`text-2xl font-bold mt-2 ${card.color}`}>
+              {card.value}
+            </p>
           </div>
-          <p className={`text-2xl font-bold mt-2 ${card.color}`}>
-            {card.value}
-          </p>
-        </div>
-      ))}
+        ))}
+      </div>
+      {summary.missingRates.length > 0 && (
+        <p className="flex items-center gap-2 text-sm text-orange-300">
+          <AlertTriangle className="w-4 h-4 text-orange-400" />
+          Transactions in {summary.missingRates.join(', ')} without an exchange rate to {summary.currency} are not included
+        </p>
+      )}
     </div>
   )
 }
@@ -1,7 +1,9 @@
-import { useState, useRef, useEffect } from 'react'
-import { ChevronDown, Check, RefreshCw, ArrowUpDown, ArrowLeftRight } from 'lucide-react'
+import { useState, useRef, useEffect, Fragment } from 'react'
+import { ChevronDown, ChevronRight, Check, RefreshCw, ArrowUpDown, ArrowLeftRight, Split } from 'lucide-react'
 import { Transaction } from '../types'
-import { AVAILABLE_CATEGORIES, CATEGORY_COLORS } from '../lib/categorizer'
+import { getCategoryColor, sortCategoryTree } from '../lib/categories'
+import { useCategories } from '../lib/category-context'
+import CategoryIcon from './CategoryIcon'
 import RecurringBadge from './RecurringBadge'
 import BulkActionBar from './BulkActionBar'
 
@@ -14,7 +16,7 @@ interface TransactionTableProps {
   onBulkCategoryChange: (category: string) => void
   onBulkExclude: () => void
   onBulkInclude: () => void
-  currency: string
+  onSplitTransaction: (id: string) => void
 }
 
 type SortField = 'date' | 'amount' | 'category' | 'description'
@@ -35,6 +37,37 @@ function formatDate(date: string): string {
   })
 }
 
+// Booking details shown when a row is expanded (only the ones the import provided)
+function getDetails(tx: Transaction): Array<{ label: string; value: string }> {
+  // Balances are in the account's currency, which is the booked one for converted rows
+  const accountCurrency = tx.bookedCurrency || tx.currency
+  const details = [
+    { label: 'Booking date', value: new Date(tx.date).toLocaleDateString('de-DE') },
+    { label: 'Value date', value: tx.valueDate && tx.valueDate !== tx.date ? new Date(tx.valueDate).toLocaleDateString('de-DE') : '' },
+    { label: 'Counterparty IBAN', value: tx.recipientIban || '' },
+    { label: 'Creditor ID', value: tx.creditorId || '' },
+    { label: 'Mandate reference', value: tx.mandateRef || '' },
+    { label: 'End-to-end reference', value: tx.endToEndId || '' },
+    { label: 'Account', value: tx.referenceAccountName || tx.referenceAccount || '' },
+    { label: 'Balance after booking', value: tx.balance !== undefined ? formatCurrency(tx.balance, accountCurrency) : '' },
+    {
+      label: 'Split',
+      value: (tx.splits || [])
+        .map(split => `${split.category} ${formatCurrency(split.amount, tx.currency)}${split.note ? ` (${split.note})` : ''}`)
+        .join(' · '),
+    },
+    { label: 'Booked amount', value: tx.bookedAmount !== undefined ? formatCurrency(tx.bookedAmount, accountCurrency) : '' },
+    {
+      label: 'Original amount',
+      value: tx.originalAmount !== undefined && tx.originalCurrency
+        ? formatCurrency(tx.originalAmount, tx.originalCurrency) + (tx.exchangeRate ? ` @ ${tx.exchangeRate}` : '')
+        : '',
+    },
+    { label: 'Tags', value: (tx.tags || []).map(tag => `#${tag}`).join(' ') },
+  ]
+  return details.filter(detail => detail.value)
+}
+
 export default function TransactionTable({
   transactions,
   selectedIds,
@@ -44,9 +77,11 @@ export default function TransactionTable({
   onBulkCategoryChange,
   onBulkExclude,
   onBulkInclude,
-  currency,
+  onSplitTransaction,
 }: TransactionTableProps) {
+  const categories = useCategories()
   const [editingId, setEditingId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
   const [sortField, setSortField] = useState<SortField>('date')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
   const [categorySearch, setCategorySearch] = useState('')
@@ -114,8 +149,8 @@ export default function TransactionTable({
     onSelectionChange(newSelected)
   }
 
-  const filteredCategories = AVAILABLE_CATEGORIES.filter(c =>
-    c.toLowerCase().includes(categorySearch.toLowerCase())
+  const filteredCategories = sortCategoryTree(categories).filter(c =>
+    c.name.toLowerCase().includes(categorySearch.toLowerCase())
   )
 
   const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
@@ -169,124 +204,168 @@ export default function TransactionTable({
           </thead>
             <tbody>
               {sortedTransactions.map((tx) => (
-                <tr
-                  key={tx.id}
-                  className={`
-                    border-b border-midnight-800 hover:bg-midnight-800/50 transition-colors
-                    ${selectedIds.has(tx.id) ? 'bg-midnight-800/30' : ''}
-                    ${tx.isExcluded ? 'opacity-50' : ''}
-                  `}
-                >
-                  <td className="p-4">
-                    <input
-                      type="checkbox"
-                      checked={selectedIds.has(tx.id)}
-                      onChange={() => handleToggleSelect(tx.id)}
-                      className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
-                    />
-                  </td>
-                  <td className="p-4">
-                    <span className="text-sm text-midnight-300">{formatDate(tx.date)}</span>
-                  </td>
-                  <td className="p-4 max-w-0">
-                    <div className="flex items-center gap-2">
-                      <div className="flex-1 min-w-0 overflow-hidden">
-                        <p className="text-sm text-white truncate" title={tx.merchant || tx.recipient || tx.description}>
-                          {tx.merchant || tx.recipient || tx.description.slice(0, 40)}
-                        </p>
-                        <p className="text-xs text-midnight-500 truncate" title={tx.description}>{tx.description}</p>
+                <Fragment key={tx.id}>
+                  <tr
+                    className={`
+                      border-b border-midnight-800 hover:bg-midnight-800/50 transition-colors
+                      ${selectedIds.has(tx.id) ? 'bg-midnight-800/30' : ''}
+                      ${tx.isExcluded ? 'opacity-50' : ''}
+                    `}
+                  >
+                    <td className="p-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(tx.id)}
+                        onChange={() => handleToggleSelect(tx.id)}
+                        className="rounded border-midnight-500 bg-midnight-700 text-accent focus:ring-accent"
+                      />
+                    </td>
+                    <td className="p-4">
+                      <span className="text-sm text-midnight-300">{formatDate(tx.date)}</span>
+                    </td>
+                    <td className="p-4 max-w-0">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setExpandedId(expandedId === tx.id ? null : tx.id)}
+                          className="text-midnight-500 hover:text-white shrink-0"
+                          title="Show details"
+                        >
+                          {expandedId === tx.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                        <div className="flex-1 min-w-0 overflow-hidden">
+                          <p className="text-sm text-white truncate" title={tx.merchant || tx.recipient || tx.description}>
+                            {tx.merchant || tx.recipient || tx.description.slice(0, 40)}
+                          </p>
+                          <p className="text-xs text-midnight-500 truncate" title={tx.description}>{tx.description}</p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {tx.isExcluded && !tx.doubleBookingMatch && (
+                            <span 
+                              className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-orange-500/20 text-orange-400 border border-orange-500/30"
+                              title="Excluded from totals"
+                            >
+                              <span className="hidden sm:inline">Excluded</span>
+                            </span>
+                          )}
+                          {tx.doubleBookingMatch && (
+                            <span 
+                              className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-400 border border-blue-500/30"
+                              title={`Internal transfer - ${tx.isExcluded ? 'excluded from totals' : 'counted in totals'}`}
+                            >
+                              <ArrowLeftRight className="w-3 h-3" />
+                              <span className="hidden sm:inline">Transfer</span>
+                            </span>
+                          )}
+                          {tx.isRecurring && <RecurringBadge frequency={tx.recurringFrequency} />}
+                        </div>
                       </div>
-                      <div className="flex items-center gap-1 shrink-0">
-                        {tx.isExcluded && !tx.doubleBookingMatch && (
-                          <span 
-                            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-orange-500/20 text-orange-400 border border-orange-500/30"
-                            title="Excluded from totals"
-                          >
-                            <span className="hidden sm:inline">Excluded</span>
-                          </span>
+                    </td>
+                    <td className="p-4 relative">
+                      <button
+                        onClick={() => setEditingId(editingId === tx.id ? null : tx.id)}
+                        className={`
+                          flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-all
+                          ${editingId === tx.id 
+                            ? 'bg-accent/20 ring-2 ring-accent' 
+                            : 'hover:bg-midnight-700'
+                          }
+                        `}
+                        style={{ 
+                          backgroundColor: editingId !== tx.id ? `${getCategoryColor(categories, tx.category || 'Other')}20` : undefined
+                        }}
+                      >
+                        {tx.splits && tx.splits.length > 0 ? (
+                          <>
+                            <Split className="w-3 h-3 text-midnight-300" />
+                            <span className="text-midnight-100">Split ({tx.splits.length})</span>
+                          </>
+                        ) : (
+                          <>
+                            <span 
+                              className="w-2 h-2 rounded-full" 
+                              style={{ backgroundColor: getCategoryColor(categories, tx.category || 'Other') }}
+                            />
+                            <span className="text-midnight-100">{tx.category || 'Other'}</span>
+                          </>
                         )}
-                        {tx.doubleBookingMatch && (
-                          <span 
-                            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-400 border border-blue-500/30"
-                            title={`Internal transfer - ${tx.isExcluded ? 'excluded from totals' : 'counted in totals'}`}
-                          >
-                            <ArrowLeftRight className="w-3 h-3" />
-                            <span className="hidden sm:inline">Transfer</span>
-                          </span>
+                        {tx.categorySource === 'ai' && (
+                          <RefreshCw className="w-3 h-3 text-accent" />
                         )}
-                        {tx.isRecurring && <RecurringBadge frequency={tx.recurringFrequency} />}
-                      </div>
-                    </div>
-                  </td>
-                  <td className="p-4 relative">
-                    <button
-                      onClick={() => setEditingId(editingId === tx.id ? null : tx.id)}
-                      className={`
-                        flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-all
-                        ${editingId === tx.id 
-                          ? 'bg-accent/20 ring-2 ring-accent' 
-                          : 'hover:bg-midnight-700'
-                        }
-                      `}
-                      style={{ 
-                        backgroundColor: editingId !== tx.id ? `${CATEGORY_COLORS[tx.category || 'Other']}20` : undefined
-                      }}
-                    >
-                      <span 
-                        className="w-2 h-2 rounded-full" 
-                        style={{ backgroundColor: CATEGORY_COLORS[tx.category || 'Other'] }}
-                      />
-                      <span className="text-midnight-100">{tx.category || 'Other'}</span>
-                      {tx.categorySource === 'ai' && (
-                        <RefreshCw className="w-3 h-3 text-accent" />
-                      )}
-                      <ChevronDown className="w-3 h-3 text-midnight-400" />
-                    </button>
+                        <ChevronDown className="w-3 h-3 text-midnight-400" />
+                      </button>
 
-                    {editingId === tx.id && (
-                      <div
-                        ref={dropdownRef}
-                        className="absolute top-full left-0 mt-1 bg-midnight-800 border border-midnight-600 rounded-lg shadow-xl z-50 min-w-[200px] max-h-[300px] overflow-hidden"
-                      >
-                        <input
-                          type="text"
-                          placeholder="Search categories..."
-                          value={categorySearch}
-                          onChange={(e) => setCategorySearch(e.target.value)}
-                          className="w-full px-3 py-2 bg-midnight-700 border-b border-midnight-600 text-sm focus:outline-none"
-                          autoFocus
-                        />
-                        <div className="max-h-[240px] overflow-y-auto">
-                          {filteredCategories.map((category) => (
-                            <button
-                              key={category}
-                              onClick={() => {
-                                onUpdateTransaction(tx.id, { category })
-                                setEditingId(null)
-                                setCategorySearch('')
-                              }}
-                              className="w-full flex items-center gap-3 px-3 py-2 hover:bg-midnight-700 text-left"
-                            >
-                              <span
-                                className="w-3 h-3 rounded-full"
-                                style={{ backgroundColor: CATEGORY_COLORS[category] }}
-                              />
-                              <span className="text-sm flex-1">{category}</span>
-                              {category === tx.category && (
-                                <Check className="w-4 h-4 text-accent" />
-                              )}
-                            </button>
-                          ))}
+                      {editingId === tx.id && (
+                        <div
+                          ref={dropdownRef}
+                          className="absolute top-full left-0 mt-1 bg-midnight-800 border border-midnight-600 rounded-lg shadow-xl z-50 min-w-[200px] max-h-[300px] overflow-hidden"
+                        >
+                          <input
+                            type="text"
+                            placeholder="Search categories..."
+                            value={categorySearch}
+                            onChange={(e) => setCategorySearch(e.target.value)}
+                            className="w-full px-3 py-2 bg-midnight-700 border-b border-midnight-600 text-sm focus:outline-none"
+                            autoFocus
+                          />
+                          <div className="max-h-[240px] overflow-y-auto">
+                            {filteredCategories.map(({ id, name: category, color, icon, parentId }) => (
+                              <button
+                                key={id}
+                                onClick={() => {
+                                  // A single category replaces a split
+                                  onUpdateTransaction(tx.id, tx.splits?.length ? { category, splits: [] } : { category })
+                                  setEditingId(null)
+                                  setCategorySearch('')
+                                }}
+                                className={`w-full flex items-center gap-3 px-3 py-2 hover:bg-midnight-700 text-left ${parentId !== undefined ? 'pl-7' : ''}`}
+                              >
+                                <CategoryIcon icon={icon} color={color} />
+                                <span className="text-sm flex-1">{category}</span>
+                                {category === tx.category && (
+                                  <Check className="w-4 h-4 text-accent" />
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                          <button
+                            onClick={() => {
+                              onSplitTransaction(tx.id)
+                              setEditingId(null)
+                              setCategorySearch('')
+                            }}
+                            className="w-full flex items-center gap-3 px-3 py-2 border-t border-midnight-600 hover:bg-midnight-700 text-left text-sm text-midnight-200"
+                          >
+                            <Split className="w-3 h-3" />
+                            {tx.splits?.length ? 'Edit split...' : 'Split across categories...'}
+                          </button>
                         </div>
-                      </div>
-                    )}
-                  </td>
-                  <td className="p-4 text-right">
-                    <span className={`text-sm font-medium ${tx.type === 'income' ? 'text-income' : 'text-expense'}`}>
-                      {tx.type === 'income' ? '+' : '-'}{formatCurrency(tx.amount, currency)}
-                    </span>
-                  </td>
-                </tr>
+                      )}
+                    </td>
+                    <td className="p-4 text-right">
+                      <span className={`text-sm font-medium ${tx.type === 'income' ? 'text-income' : 'text-expense'}`}>
+                        {tx.type === 'income' ? '+' : '-'}{formatCurrency(tx.amount, tx.currency)}
+                      </span>
+                      {tx.bookedAmount !== undefined && tx.bookedCurrency && (
+                        <p className="text-xs text-midnight-500">{formatCurrency(tx.bookedAmount, tx.bookedCurrency)}</p>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === tx.id && (
+                    <tr className="border-b border-midnight-800 bg-midnight-800/30">
+                      <td />
+                      <td colSpan={4} className="px-4 pb-4 pt-1">
+                        <dl className="grid grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-2">
+                          {getDetails(tx).map(detail => (
+                            <div key={detail.label} className="min-w-0">
+                              <dt className="text-xs text-midnight-500">{detail.label}</dt>
+                              <dd className="text-sm text-midnight-200 truncate" title={detail.value}>{detail.value}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
         </table>
@@ -0,0 +1,187 @@
+import { useState } from 'react'
+import { AlertCircle, AlertTriangle, Info, ChevronDown, ChevronRight } from 'lucide-react'
+import { ImportDiagnostic } from '../types'
+import { DiagnosticResolution, isFixable } from '../lib/import-diagnostics'
+
+interface ValidationReportProps {
+  files: Array<{ fileName: string; diagnostics: ImportDiagnostic[] }>
+  onConfirm: (resolutions: Map<ImportDiagnostic, DiagnosticResolution>) => void
+  onCancel: () => void
+}
+
+interface FixDraft {
+  date: string
+  amount: string
+}
+
+const SEVERITY_ICONS = {
+  error: <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />,
+  warning: <AlertTriangle className="w-4 h-4 text-orange-400 shrink-0 mt-0.5" />,
+  info: <Info className="w-4 h-4 text-midnight-400 shrink-0 mt-0.5" />,
+}
+
+function parseAmountInput(value: string): number | null {
+  const amount = parseFloat(value.replace(',', '.'))
+  return isNaN(amount) ? null : amount
+}
+
+export default function ValidationReport({ files, onConfirm, onCancel }: ValidationReportProps) {
+  // Diagnostics the user chose to fix (with their corrected values) or flip
+  const [fixes, setFixes] = useState<Map<ImportDiagnostic, FixDraft>>(new Map())
+  const [flips, setFlips] = useState<Set<ImportDiagnostic>>(new Set())
+  const [showInfo, setShowInfo] = useState(false)
+
+  const problems = files.flatMap(f => f.diagnostics.filter(d => d.severity !== 'info').map(d => ({ fileName: f.fileName, diagnostic: d })))
+  const notes = files.flatMap(f => f.diagnostics.filter(d => d.severity === 'info').map(d => ({ fileName: f.fileName, diagnostic: d })))
+
+  const invalidFixes = [...fixes.values()].filter(
+    draft => !/^\d{4}-\d{2}-\d{2}$/.test(draft.date) || parseAmountInput(draft.amount) === null
+  ).length
+
+  const handleToggleFix = (diagnostic: ImportDiagnostic) => {
+    const next = new Map(fixes)
+    if (next.has(diagnostic)) {
+      next.delete(diagnostic)
+    } else {
+      next.set(diagnostic, {
+        date: diagnostic.transaction?.date || '',
+        amount: diagnostic.transaction ? String(diagnostic.transaction.amount) : '',
+      })
+    }
+    setFixes(next)
+  }
+
+  const handleChangeFix = (diagnostic: ImportDiagnostic, update: Partial<FixDraft>) => {
+    const next = new Map(fixes)
+    next.set(diagnostic, { ...next.get(diagnostic)!, ...update })
+    setFixes(next)
+  }
+
+  const handleToggleFlip = (diagnostic: ImportDiagnostic) => {
+    const next = new Set(flips)
+    if (next.has(diagnostic)) {
+      next.delete(diagnostic)
+    } else {
+      next.add(diagnostic)
+    }
+    setFlips(next)
+  }
+
+  const handleConfirm = () => {
+    const resolutions = new Map<ImportDiagnostic, DiagnosticResolution>()
+    for (const [diagnostic, draft] of fixes) {
+      resolutions.set(diagnostic, { action: 'fix', date: draft.date, amount: parseAmountInput(draft.amount)! })
+    }
+    for (const diagnostic of flips) {
+      resolutions.set(diagnostic, { action: 'flip' })
+    }
+    onConfirm(resolutions)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-midnight-900 border border-midnight-700 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-midnight-700 shrink-0">
+          <h3 className="text-xl font-semibold text-white mb-1">Review Import</h3>
+          <p className="text-midnight-400 text-sm">
+            {problems.length} {problems.length === 1 ? 'problem' : 'problems'} found. Fix rows by hand or ignore them -
+            ignored rows are imported (or skipped) as shown.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-2">
+          {problems.map(({ fileName, diagnostic }, index) => {
+            const draft = fixes.get(diagnostic)
+            const tx = diagnostic.transaction
+
+            return (
+              <div key={index} className="bg-midnight-800 rounded-lg p-3">
+                <div className="flex items-start gap-3">
+                  {SEVERITY_ICONS[diagnostic.severity]}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white">{diagnostic.message}</p>
+                    <p className="text-xs text-midnight-500 truncate mt-0.5">
+                      {files.length > 1 && `${fileName} · `}
+                      {diagnostic.row !== undefined && `Row ${diagnostic.row}`}
+                      {tx && (tx.recipient || tx.description) && ` · ${tx.recipient || tx.description}`}
+                    </p>
+                  </div>
+                  {isFixable(diagnostic) && (
+                    <button
+                      onClick={() => handleToggleFix(diagnostic)}
+                      className={`text-xs px-3 py-1 rounded-lg shrink-0 ${draft ? 'bg-accent text-white' : 'bg-midnight-700 text-midnight-300 hover:bg-midnight-600'}`}
+                    >
+                      {draft ? 'Fixing' : 'Fix'}
+                    </button>
+                  )}
+                  {diagnostic.kind === 'suspicious-sign' && (
+                    <button
+                      onClick={() => handleToggleFlip(diagnostic)}
+                      className={`text-xs px-3 py-1 rounded-lg shrink-0 ${flips.has(diagnostic) ? 'bg-accent text-white' : 'bg-midnight-700 text-midnight-300 hover:bg-midnight-600'}`}
+                    >
+                      {flips.has(diagnostic) ? 'Flipping signs' : 'Flip signs'}
+                    </button>
+                  )}
+                </div>
+
+                {draft && (
+                  <div className="flex gap-2 mt-3 pl-7">
+                    <input
+                      type="date"
+                      value={draft.date}
+                      onChange={(e) => handleChangeFix(diagnostic, { date: e.target.value })}
+                      className="input text-sm py-1"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.amount}
+                      onChange={(e) => handleChangeFix(diagnostic, { amount: e.target.value })}
+                      placeholder="-12.34"
+                      className="input text-sm py-1 w-32"
+                    />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          {notes.length > 0 && (
+            <section className="pt-2">
+              <button
+                onClick={() => setShowInfo(!showInfo)}
+                className="flex items-center gap-1 text-sm font-medium text-midnight-300 hover:text-white"
+              >
+                {showInfo ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                Notes ({notes.length})
+              </button>
+              {showInfo && (
+                <div className="space-y-1 mt-2">
+                  {notes.map(({ fileName, diagnostic }, index) => (
+                    <div key={index} className="flex items-start gap-2 text-xs text-midnight-400">
+                      {SEVERITY_ICONS.info}
+                      <span>{files.length > 1 && `${fileName}: `}{diagnostic.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-midnight-700 shrink-0">
+          <button onClick={onCancel} className="flex-1 btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={invalidFixes > 0}
+            className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {fixes.size + flips.size > 0 ? `Apply ${fixes.size + flips.size} fixes & continue` : 'Ignore all & continue'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { RawTransaction, Transaction, AnonymizationMapping, AnonymizedData } from '../types'
+import { generateTransactionIds } from './transaction-id'
 
 // Patterns for identifying personal data
 const PATTERNS = {
@@ -192,6 +193,9 @@ export function anonymizeTransactions(rawTransactions: RawTransaction[]): Anonym
     }
   }
 
+  // IDs are derived from the original data so they match the non-anonymized view
+  const ids = generateTransactionIds(rawTransactions)
+
   // Second pass: anonymize transactions
   const transactions: Transaction[] = rawTransactions.map((raw, index) => {
     // Only anonymize recipient if it looks like a personal name, not a business
@@ -217,7 +221,7 @@ export function anonymizeTransactions(rawTransactions: RawTransaction[]): Anonym
 
     return {
       ...raw,
-      id: `tx_${Date.now()}_${index}`,
+      id: ids[index],
       recipient: anonymizedRecipient,
       recipientIban: anonymizedIban,
       referenceAccount,
@@ -245,6 +249,8 @@ function cleanMerchantName(name: string): string {
 
 // Process transactions WITHOUT any anonymization (for when user disables it)
 export function processWithoutAnonymization(rawTransactions: RawTransaction[]): Transaction[] {
+  const ids = generateTransactionIds(rawTransactions)
+
   return rawTransactions.map((raw, index) => {
     // Extract merchant name from recipient if it's a business
     const merchant = raw.recipient && isLikelyBusiness(raw.recipient) 
@@ -253,7 +259,7 @@ export function processWithoutAnonymization(rawTransactions: RawTransaction[]):
 
     return {
       ...raw,
-      id: `tx_${Date.now()}_${index}`,
+      id: ids[index],
       merchant,
       type: raw.amount < 0 ? 'expense' : 'income',
       amount: Math.abs(raw.amount),
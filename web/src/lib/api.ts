@@ -1,4 +1,18 @@
-import { Transaction, SheetConfig, ExportPreviewData } from '../types'
+import {
+  Transaction,
+  TransactionEdit,
+  SheetConfig,
+  ExportPreviewData,
+  BankProfile,
+  Category,
+  CategoryInput,
+  CategorizationRule,
+  CategorizationRuleInput,
+} from '../types'
+import { ExchangeRate, ExchangeRateCoverage } from './currency'
+import { getAllocations } from './splits'
+import { FALLBACK_CATEGORIES } from './categories'
+import { StoredTransaction } from './ledger'
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api'
 
@@ -138,15 +152,18 @@ export function generateExportPreview(
     } else {
       totalExpenditure += tx.amount
       
-      const sheetColumn = config.categoryMappings.find(
-        m => m.appCategory === tx.category
-      )?.sheetColumn
-      
-      if (sheetColumn) {
-        categoryTotals.set(
-          sheetColumn,
-          (categoryTotals.get(sheetColumn) || 0) + tx.amount
-        )
+      // Split transactions are added to each part's column
+      for (const { category, amount } of getAllocations(tx)) {
+        const sheetColumn = config.categoryMappings.find(
+          m => m.appCategory === category
+        )?.sheetColumn
+        
+        if (sheetColumn) {
+          categoryTotals.set(
+            sheetColumn,
+            (categoryTotals.get(sheetColumn) || 0) + amount
+          )
+        }
       }
     }
   }
@@ -170,9 +187,13 @@ export function generateExportPreview(
 // ============ Learning API ============
 
 export interface LearnedMapping {
-  merchant: string
+  merchant: string // Normalized key
+  merchantDisplay?: string // As first learned
   category: string
-  confidence: number
+  confidence: number // Weighted votes for the category
+  updatedAt?: string
+  votes?: Array<{ category: string; votes: number; score: number }> // Vote breakdown, best first
+  ambiguous?: boolean // Another category got nearly as many votes
 }
 
 // Fetch all learned merchant → category mappings
@@ -221,6 +242,137 @@ export async function saveBatchLearnedMappings(
   }
 }
 
+// Explicitly choose the category of a learned mapping, overriding its earlier votes
+// (throws with the server's message on failure)
+export async function resolveLearnedMapping(merchant: string, category: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/learn/mapping/${encodeURIComponent(merchant)}`, {
+    method: 'PUT',
+    headers: getHeaders(),
+    body: JSON.stringify({ category }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to update mapping')
+  }
+}
+
+// Delete learned mappings (throws with the server's message on failure)
+export async function deleteLearnedMappings(merchants: string[]): Promise<void> {
+  const response = await fetch(`${API_BASE}/learn/mappings/delete`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ merchants }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to delete mappings')
+  }
+}
+
+// ============ Categories API ============
+
+// Fetch the category taxonomy (only the system categories if API is unavailable)
+export async function getCategories(): Promise<Category[]> {
+  try {
+    const response = await fetch(`${API_BASE}/categories`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return FALLBACK_CATEGORIES
+
+    const result = await response.json()
+    return result.data?.length ? result.data : FALLBACK_CATEGORIES
+  } catch {
+    console.log('Categories API not available, using the system categories')
+    return FALLBACK_CATEGORIES
+  }
+}
+
+// Create, update, merge and delete throw with the server's message on failure
+async function sendCategoryRequest(path: string, method: string, body?: unknown): Promise<Category | null> {
+  const response = await fetch(`${API_BASE}/categories${path}`, {
+    method,
+    headers: getHeaders(body !== undefined),
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to save category')
+  }
+
+  const result = await response.json()
+  return result.data ?? null
+}
+
+export async function createCategory(category: CategoryInput): Promise<Category> {
+  return (await sendCategoryRequest('', 'POST', category))!
+}
+
+// Renaming also renames the category on stored transactions, edits and mappings
+export async function updateCategory(id: number, updates: Partial<CategoryInput>): Promise<Category> {
+  return (await sendCategoryRequest(`/${id}`, 'PUT', updates))!
+}
+
+// Move everything using a category to another one and remove it
+export async function mergeCategory(id: number, intoId: number): Promise<Category> {
+  return (await sendCategoryRequest(`/${id}/merge`, 'POST', { into: intoId }))!
+}
+
+// Only unused categories can be deleted
+export async function deleteCategory(id: number): Promise<void> {
+  await sendCategoryRequest(`/${id}`, 'DELETE')
+}
+
+// ============ Rules API ============
+
+// Fetch user categorization rules (empty if API is unavailable)
+export async function getRules(): Promise<CategorizationRule[]> {
+  try {
+    const response = await fetch(`${API_BASE}/rules`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return []
+
+    const result = await response.json()
+    return result.data || []
+  } catch {
+    console.log('Rules API not available')
+    return []
+  }
+}
+
+// Save a new rule, or update an existing one (throws with the server's message on failure)
+export async function saveRule(rule: CategorizationRuleInput, id?: number): Promise<CategorizationRule> {
+  const response = await fetch(`${API_BASE}/rules${id ? `/${id}` : ''}`, {
+    method: id ? 'PUT' : 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify(rule),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    const detail = error.details?.[0]?.message
+    throw new Error(detail ? `${error.error}: ${detail}` : error.error || 'Failed to save rule')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+export async function deleteRule(id: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/rules/${id}`, {
+    method: 'DELETE',
+    headers: getHeaders(false),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to delete rule')
+  }
+}
+
 // ============ Settings API ============
 
 // Fetch sheet configuration (with server-side defaults as fallback)
@@ -253,3 +405,191 @@ export async function saveSheetConfig(config: SheetConfig): Promise<boolean> {
     return false
   }
 }
+
+// Fetch saved CSV bank profiles
+export async function getBankProfiles(): Promise<BankProfile[]> {
+  try {
+    const response = await fetch(`${API_BASE}/settings/bank-profiles`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return []
+
+    const result = await response.json()
+    return result.data || []
+  } catch {
+    console.log('Bank profiles not available')
+    return []
+  }
+}
+
+// Save (or replace) a CSV bank profile
+export async function saveBankProfile(profile: BankProfile): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_BASE}/settings/bank-profiles`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify(profile),
+    })
+    return response.ok
+  } catch {
+    console.log('Failed to save bank profile')
+    return false
+  }
+}
+
+// Fetch the currency totals are shown in (null if never set)
+export async function getBaseCurrency(): Promise<string | null> {
+  try {
+    const response = await fetch(`${API_BASE}/settings/baseCurrency`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return null
+
+    const result = await response.json()
+    return result.data || null
+  } catch {
+    console.log('Settings API not available')
+    return null
+  }
+}
+
+export async function saveBaseCurrency(currency: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_BASE}/settings/baseCurrency`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ value: currency }),
+    })
+    return response.ok
+  } catch {
+    console.log('Failed to save base currency')
+    return false
+  }
+}
+
+// ============ Exchange Rates API ============
+
+// Fetch stored EUR reference rates for the given currencies
+export async function getExchangeRates(currencies: string[]): Promise<ExchangeRate[]> {
+  if (currencies.length === 0) return []
+
+  try {
+    const params = new URLSearchParams({ currencies: currencies.join(',') })
+    const response = await fetch(`${API_BASE}/rates?${params}`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return []
+
+    const result = await response.json()
+    return result.data || []
+  } catch {
+    console.log('Exchange rates not available')
+    return []
+  }
+}
+
+// Which currencies and days the stored rates cover
+export async function getExchangeRateCoverage(): Promise<ExchangeRateCoverage[]> {
+  try {
+    const response = await fetch(`${API_BASE}/rates/coverage`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return []
+
+    const result = await response.json()
+    return result.data || []
+  } catch {
+    console.log('Exchange rates not available')
+    return []
+  }
+}
+
+// Import an ECB reference rate CSV (throws with the server's message on failure)
+export async function importExchangeRates(csv: string): Promise<{ imported: number; currencies: number }> {
+  const response = await fetch(`${API_BASE}/rates/import`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ csv }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to import exchange rates')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+// ============ Transactions API ============
+
+// Load the persisted transaction ledger (empty if API is unavailable)
+export async function getStoredTransactions(): Promise<StoredTransaction[]> {
+  try {
+    const response = await fetch(`${API_BASE}/transactions`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return []
+
+    const result = await response.json()
+    return result.data || []
+  } catch {
+    console.log('Transactions API not available, data will not persist')
+    return []
+  }
+}
+
+// Insert or replace transactions in the ledger
+export async function saveTransactions(transactions: StoredTransaction[]): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_BASE}/transactions`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ transactions }),
+    })
+    return response.ok
+  } catch {
+    console.log('Failed to save transactions (API may not be available)')
+    return false
+  }
+}
+
+// Fetch all recorded manual edits
+export async function getTransactionEdits(): Promise<TransactionEdit[]> {
+  try {
+    const response = await fetch(`${API_BASE}/transactions/edits`, {
+      headers: getHeaders(false),
+    })
+    if (!response.ok) return []
+
+    const result = await response.json()
+    return result.data || []
+  } catch {
+    return []
+  }
+}
+
+// Record manual edits so they survive re-imports (also updates the ledger)
+export async function saveTransactionEdits(edits: TransactionEdit[]): Promise<void> {
+  try {
+    await fetch(`${API_BASE}/transactions/edits`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ edits }),
+    })
+  } catch {
+    console.log('Failed to save transaction edits')
+  }
+}
+
+// Remove every transaction from the ledger
+export async function clearStoredTransactions(): Promise<void> {
+  try {
+    await fetch(`${API_BASE}/transactions`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    })
+  } catch {
+    console.log('Failed to clear stored transactions')
+  }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { parseCSV } from '../parser'
+import { getBankFormats, GENERIC_FORMAT } from './index'
+import { BANK_FORMAT_FIXTURES } from './fixtures'
+
+// Every format's sample export must still be detected as that format and parse as expected
+describe('bank formats', () => {
+  for (const format of [...getBankFormats(), GENERIC_FORMAT]) {
+    it(`parses the ${format.name} fixture`, async () => {
+      const fixture = BANK_FORMAT_FIXTURES[format.id]
+      expect(fixture, `${format.id} has no fixture in fixtures.ts`).toBeDefined()
+
+      const result = await parseCSV(new File([fixture.csv], `${format.id}.csv`, { type: 'text/csv' }))
+      expect(result.format).toBe(format.name)
+      expect(result.transactions).toHaveLength(fixture.transactionCount)
+      expect(result.transactions[0]).toMatchObject(fixture.first)
+    })
+  }
+})
@@ -0,0 +1,51 @@
+import { BankFormat } from './types'
+
+// DKB export since 2023: payer and payee in separate columns, two-digit years
+export const dkb: BankFormat = {
+  id: 'dkb',
+  name: 'DKB',
+  signatures: [['Zahlungspflichtige*r', 'Zahlungsempfänger*in']],
+  columns: {
+    'Buchungsdatum': 'date',
+    'Wertstellung': 'valueDate',
+    'Status': '',
+    'Zahlungspflichtige*r': '',
+    'Zahlungsempfänger*in': '',
+    'Verwendungszweck': 'description',
+    'Umsatztyp': 'category',
+    'IBAN': 'recipientIban',
+    'Betrag (€)': 'amount',
+    'Gläubiger-ID': 'creditorId',
+    'Mandatsreferenz': 'mandateRef',
+    'Kundenreferenz': 'endToEndId',
+  },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'de',
+  // The counterparty is the payee of outgoing and the payer of incoming bookings
+  postProcess: (transaction, row) => ({
+    ...transaction,
+    recipient: (transaction.amount < 0 ? row['Zahlungsempfänger*in'] : row['Zahlungspflichtige*r']) || undefined,
+  }),
+}
+
+// DKB export before 2023
+export const dkbLegacy: BankFormat = {
+  id: 'dkb-legacy',
+  name: 'DKB',
+  signatures: [['Auftraggeber / Begünstigter'], ['Gläubiger-ID'], ['Mandatsreferenz']],
+  columns: {
+    'Buchungstag': 'date',
+    'Wertstellung': 'valueDate',
+    'Buchungstext': 'category',
+    'Auftraggeber / Begünstigter': 'recipient',
+    'Verwendungszweck': 'description',
+    'Kontonummer': 'recipientIban',
+    'BLZ': 'bankCode',
+    'Betrag (EUR)': 'amount',
+    'Gläubiger-ID': 'creditorId',
+    'Mandatsreferenz': 'mandateRef',
+    'Kundenreferenz': 'endToEndId',
+  },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'de',
+}
@@ -0,0 +1,28 @@
+import { RawTransaction } from '../../types'
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Book a fee as its own expense next to the transaction it was charged on.
+// `amount` is the transaction without the fee; the row's balance (after both) moves to the fee.
+export function splitFee(transaction: RawTransaction, amount: number, fee: number, chargedBy: string): RawTransaction[] {
+  if (!fee) return [{ ...transaction, amount }]
+
+  return [
+    {
+      ...transaction,
+      amount,
+      balance: transaction.balance !== undefined ? roundCents(transaction.balance + fee) : undefined,
+    },
+    {
+      ...transaction,
+      description: `Fee: ${transaction.description}`,
+      amount: -fee,
+      recipient: chargedBy,
+      category: undefined,
+      isTransfer: undefined,
+      transferGroup: undefined,
+    },
+  ]
+}
@@ -0,0 +1,25 @@
+import { BankFormat } from './types'
+
+// Finanzguru export (aggregates several accounts, with its own categories)
+export const finanzguru: BankFormat = {
+  id: 'finanzguru',
+  name: 'Finanzguru',
+  signatures: [['Analyse-Hauptkategorie'], ['Name Referenzkonto']],
+  columns: {
+    'Buchungstag': 'date',
+    'Referenzkonto': 'referenceAccount',
+    'Name Referenzkonto': 'referenceAccountName',
+    'Betrag': 'amount',
+    'Kontostand': 'balance',
+    'Waehrung': 'currency',
+    'Währung': 'currency',
+    'Beguenstigter/Auftraggeber': 'recipient',
+    'Begünstigter/Auftraggeber': 'recipient',
+    'IBAN Beguenstigter/Auftraggeber': 'recipientIban',
+    'IBAN Begünstigter/Auftraggeber': 'recipientIban',
+    'Verwendungszweck': 'description',
+    'Analyse-Hauptkategorie': 'category',
+    'Analyse-Unterkategorie': 'subcategory',
+    'Analyse-Umbuchung': 'isTransfer',
+  },
+}
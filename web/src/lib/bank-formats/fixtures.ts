@@ -0,0 +1,176 @@
+import { RawTransaction } from '../../types'
+
+// Sample exports every bank format must recognize and parse (checked in bank-formats.test.ts)
+// Kept out of the format definitions so they don't end up in the app bundle
+
+export interface BankFormatFixture {
+  csv: string
+  transactionCount: number
+  first: Partial<RawTransaction> // Expected fields of the newest transaction
+}
+
+// Keyed by BankFormat id
+export const BANK_FORMAT_FIXTURES: Record<string, BankFormatFixture> = {
+  dkb: {
+    csv: [
+      '"Girokonto";"DE12120300001234567890"',
+      '""',
+      '"Kontostand vom 31.03.2024:";"1.234,56 €"',
+      '""',
+      '"Buchungsdatum";"Wertstellung";"Status";"Zahlungspflichtige*r";"Zahlungsempfänger*in";"Verwendungszweck";"Umsatztyp";"IBAN";"Betrag (€)";"Gläubiger-ID";"Mandatsreferenz";"Kundenreferenz"',
+      '"15.03.24";"16.03.24";"Gebucht";"Max Mustermann";"Stadtwerke Musterstadt";"Abschlag Strom";"Ausgang";"DE44500105175407324931";"-61";"DE98ZZZ09999999999";"M-4711";"E2E-0815"',
+      '"01.03.24";"01.03.24";"Gebucht";"Arbeitgeber GmbH";"Max Mustermann";"Gehalt";"Eingang";"DE02120300000000202051";"2.500";"";"";""',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-15',
+      valueDate: '2024-03-16',
+      amount: -61,
+      recipient: 'Stadtwerke Musterstadt',
+      creditorId: 'DE98ZZZ09999999999',
+      mandateRef: 'M-4711',
+      endToEndId: 'E2E-0815',
+    },
+  },
+  'dkb-legacy': {
+    csv: [
+      '"Kontonummer:";"DE12120300001234567890 / Girokonto";',
+      '',
+      '"Von:";"01.03.2024";',
+      '"Bis:";"31.03.2024";',
+      '"Kontostand vom 31.03.2024:";"1.234,56 EUR";',
+      '',
+      '"Buchungstag";"Wertstellung";"Buchungstext";"Auftraggeber / Begünstigter";"Verwendungszweck";"Kontonummer";"BLZ";"Betrag (EUR)";"Gläubiger-ID";"Mandatsreferenz";"Kundenreferenz";',
+      '"15.03.2024";"15.03.2024";"Lastschrift";"Stadtwerke Musterstadt";"Abschlag Strom";"DE44500105175407324931";"INGDDEFFXXX";"-61,00";"DE98ZZZ09999999999";"M-4711";"E2E-0815";',
+      '"01.03.2024";"01.03.2024";"Gutschrift";"Arbeitgeber GmbH";"Gehalt";"DE02120300000000202051";"BYLADEM1001";"2.500,00";"";"";"";',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-15',
+      amount: -61,
+      recipient: 'Stadtwerke Musterstadt',
+      creditorId: 'DE98ZZZ09999999999',
+      mandateRef: 'M-4711',
+      endToEndId: 'E2E-0815',
+    },
+  },
+  finanzguru: {
+    csv: [
+      'Buchungstag;Referenzkonto;Name Referenzkonto;Betrag;Kontostand;Waehrung;Beguenstigter/Auftraggeber;IBAN Beguenstigter/Auftraggeber;Verwendungszweck;Analyse-Hauptkategorie;Analyse-Unterkategorie;Analyse-Umbuchung',
+      '15.03.2024;DE89370400440532013000;Girokonto;-12,99;1.487,01;EUR;Netflix International B.V.;;Netflix Abo;Freizeit;Streaming;nein',
+      '01.03.2024;DE89370400440532013000;Girokonto;1500,00;1.500,00;EUR;Arbeitgeber GmbH;DE02120300000000202051;Gehalt Maerz;Einnahmen;Gehalt;nein',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-15',
+      amount: -12.99,
+      balance: 1487.01,
+      recipient: 'Netflix International B.V.',
+      referenceAccount: 'DE89370400440532013000',
+      isTransfer: false,
+    },
+  },
+  generic: {
+    csv: [
+      'Date,Description,Debit,Credit,Currency',
+      '2024-03-15,Coffee,3.50,,EUR',
+      '2024-03-01,Refund,,20.00,EUR',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-15',
+      amount: -3.5,
+      description: 'Coffee',
+    },
+  },
+  ing: {
+    csv: [
+      'Umsatzanzeige;Datei erstellt am: 31.03.2024 10:00',
+      '',
+      'IBAN;DE12 5001 0517 1234 5678 90',
+      'Kontoname;Girokonto',
+      'Bank;ING',
+      'Zeitraum;01.03.2024 - 31.03.2024',
+      'Saldo;1.234,56;EUR',
+      '',
+      'Buchung;Valuta;Auftraggeber/Empfänger;Buchungstext;Verwendungszweck;Saldo;Währung;Betrag;Währung',
+      '15.03.2024;15.03.2024;REWE Markt GmbH;Lastschrift;REWE SAGT DANKE;1.234,56;EUR;-45,10;EUR',
+      '01.03.2024;01.03.2024;Arbeitgeber GmbH;Gehalt/Rente;Gehalt Maerz;1.279,66;EUR;2.500,00;EUR',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-15',
+      amount: -45.1,
+      balance: 1234.56,
+      recipient: 'REWE Markt GmbH',
+      currency: 'EUR',
+    },
+  },
+  n26: {
+    csv: [
+      '"Date","Payee","Account number","Transaction type","Payment reference","Amount (EUR)","Amount (Foreign Currency)","Type Foreign Currency","Exchange Rate"',
+      '"2024-03-14","REWE Markt","","Presentment","","-23.45","","",""',
+      '"2024-03-01","Max Mustermann","DE02120300000000202051","Income","Miete","1,500.0","","",""',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-14',
+      amount: -23.45,
+      recipient: 'REWE Markt',
+      category: 'Presentment',
+    },
+  },
+  revolut: {
+    csv: [
+      'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance',
+      'TOPUP,Current,2024-03-01 10:00:00,2024-03-01 10:00:00,Top-Up by *1234,500.50,0.00,EUR,COMPLETED,500.50',
+      'CARD_PAYMENT,Current,2024-03-12 18:00:00,2024-03-12 18:00:00,Zalando,-60.00,0.00,EUR,REVERTED,',
+      'CARD_PAYMENT,Current,2024-03-13 18:00:00,,Amazon,-25.00,0.00,EUR,PENDING,',
+      'EXCHANGE,Current,2024-03-14 09:00:00,2024-03-14 09:00:00,Exchanged to USD,-100.00,0.50,EUR,COMPLETED,400.00',
+      'EXCHANGE,Current,2024-03-14 09:00:00,2024-03-14 09:00:00,Exchanged to USD,108.20,0.00,USD,COMPLETED,108.20',
+      'CARD_PAYMENT,Current,2024-03-15 12:01:02,2024-03-16 08:00:00,Starbucks,-4.50,0.00,EUR,COMPLETED,395.50',
+    ].join('\n'),
+    transactionCount: 5,
+    first: {
+      date: '2024-03-16',
+      amount: -4.5,
+      currency: 'EUR',
+      balance: 395.5,
+      referenceAccountName: 'Revolut EUR',
+    },
+  },
+  sparkasse: {
+    csv: [
+      '"Auftragskonto";"Buchungstag";"Valutadatum";"Buchungstext";"Verwendungszweck";"Glaeubiger ID";"Mandatsreferenz";"Kundenreferenz (End-to-End)";"Sammlerreferenz";"Lastschrift Ursprungsbetrag";"Auslagenersatz Ruecklastschrift";"Beguenstigter/Zahlungspflichtiger";"Kontonummer/IBAN";"BIC (SWIFT-Code)";"Betrag";"Waehrung";"Info"',
+      '"DE12500105170648489890";"15.03.24";"15.03.24";"FOLGELASTSCHRIFT";"Beitrag Fitnessstudio";"DE11ZZZ00000012345";"MREF-99";"E2E-1";"";"";"";"FitX GmbH";"DE44500105175407324931";"INGDDEFFXXX";"-24,90";"EUR";"Umsatz gebucht"',
+      '"DE12500105170648489890";"01.03.24";"01.03.24";"GUTSCHR. UEBERWEISUNG";"Gehalt";"";"";"";"";"";"";"Arbeitgeber GmbH";"DE02120300000000202051";"BYLADEM1001";"2.500,00";"EUR";"Umsatz gebucht"',
+    ].join('\n'),
+    transactionCount: 2,
+    first: {
+      date: '2024-03-15',
+      amount: -24.9,
+      recipient: 'FitX GmbH',
+      referenceAccount: 'DE12500105170648489890',
+      creditorId: 'DE11ZZZ00000012345',
+      mandateRef: 'MREF-99',
+    },
+  },
+  wise: {
+    csv: [
+      '"TransferWise ID",Date,Amount,Currency,Description,"Payment Reference","Running Balance","Exchange From","Exchange To","Exchange Rate","Payer Name","Payee Name","Payee Account Number",Merchant,"Card Last Four Digits","Card Holder Full Name",Attachment,Note,"Total fees","Exchange To Amount"',
+      'CARD-111,15-03-2024,-12.30,EUR,"Card transaction of 12.30 EUR issued by Lidl",,187.70,,,,,,,Lidl,1234,"Max Mustermann",,,0.00,',
+      'BALANCE-222,10-03-2024,-100.40,EUR,"Converted 100.00 EUR to 108.00 USD for USD balance",,200.00,EUR,USD,1.08,,,,,,,,,0.40,108.00',
+      'BALANCE-222,10-03-2024,108.00,USD,"Converted 100.00 EUR to 108.00 USD for USD balance",,108.00,EUR,USD,1.08,,,,,,,,,0.00,108.00',
+      'TRANSFER-333,01-03-2024,300.40,EUR,"Received money from Max Mustermann",,300.40,,,,"Max Mustermann",,,,,,,,0.00,',
+    ].join('\n'),
+    transactionCount: 5,
+    first: {
+      date: '2024-03-15',
+      amount: -12.3,
+      currency: 'EUR',
+      recipient: 'Lidl',
+      balance: 187.7,
+      referenceAccountName: 'Wise EUR',
+    },
+  },
+}
@@ -0,0 +1,33 @@
+import { BankFormat } from './types'
+
+// Fallback for layouts no registered format claims: common English names and split debit/credit columns
+export const generic: BankFormat = {
+  id: 'generic',
+  name: 'Generic CSV',
+  signatures: [],
+  columns: {
+    'Date': 'date',
+    'Booking Date': 'date',
+    'Transaction Date': 'date',
+    'Value Date': 'valueDate',
+    'Amount': 'amount',
+    'Currency': 'currency',
+    'Description': 'description',
+    'Recipient': 'recipient',
+    'Payee': 'recipient',
+    'IBAN': 'recipientIban',
+    'Category': 'category',
+    'Reference': 'referenceAccount',
+    'Memo': 'description',
+    'Notes': 'description',
+    // Separate debit/credit columns (e.g. Excel exports with a merged "Betrag" header over "Soll"/"Haben")
+    'Soll': 'debit',
+    'Haben': 'credit',
+    'Betrag Soll': 'debit',
+    'Betrag Haben': 'credit',
+    'Debit': 'debit',
+    'Credit': 'credit',
+    'Amount Debit': 'debit',
+    'Amount Credit': 'credit',
+  },
+}
@@ -0,0 +1,73 @@
+import { BankFormat } from './types'
+import { finanzguru } from './finanzguru'
+import { n26 } from './n26'
+import { dkb, dkbLegacy } from './dkb'
+import { ing } from './ing'
+import { sparkasse } from './sparkasse'
+import { revolut } from './revolut'
+import { wise } from './wise'
+import { generic } from './generic'
+
+export type { BankFormat } from './types'
+
+// Used when no registered format matches the headers
+export const GENERIC_FORMAT = generic
+
+const registry: BankFormat[] = []
+
+// Add a format (a format with the same id is replaced)
+export function registerBankFormat(format: BankFormat): void {
+  const index = registry.findIndex(f => f.id === format.id)
+  if (index === -1) {
+    registry.push(format)
+  } else {
+    registry[index] = format
+  }
+}
+
+export function getBankFormats(): BankFormat[] {
+  return [...registry]
+}
+
+// 0 unless one of the format's signatures is complete; otherwise the number of headers
+// the format knows, plus the size of the matched signature as a tie-breaker
+export function scoreBankFormat(format: BankFormat, headers: string[]): number {
+  const headerSet = new Set(headers)
+  const signatures = format.signatures.filter(signature => signature.every(h => headerSet.has(h)))
+  if (signatures.length === 0) return 0
+
+  const known = headers.filter(header => header in format.columns).length
+  return known + Math.max(...signatures.map(signature => signature.length))
+}
+
+// Best-scoring registered format, or the generic fallback
+export function findBankFormat(headers: string[]): BankFormat {
+  let best: BankFormat = GENERIC_FORMAT
+  let bestScore = 0
+
+  for (const format of registry) {
+    const score = scoreBankFormat(format, headers)
+    if (score > bestScore) {
+      best = format
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+// Field for a header: the detected format's own mapping wins, any other format's mapping
+// covers unrecognized layouts that reuse common bank headers; undefined if nobody knows it
+export function resolveColumn(format: BankFormat, header: string): string | undefined {
+  if (header in format.columns) return format.columns[header]
+
+  for (const other of [...registry, GENERIC_FORMAT]) {
+    if (header in other.columns && other.columns[header]) return other.columns[header]
+  }
+  return undefined
+}
+
+// Built-in formats - adding a bank means adding a definition file and registering it here
+for (const format of [finanzguru, n26, dkb, dkbLegacy, ing, sparkasse, revolut, wise]) {
+  registerBankFormat(format)
+}
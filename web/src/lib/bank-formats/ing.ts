@@ -0,0 +1,20 @@
+import { BankFormat } from './types'
+
+// ING-DiBa export; account, period and balance sit in the lines above the header
+export const ing: BankFormat = {
+  id: 'ing',
+  name: 'ING-DiBa',
+  signatures: [['Auftraggeber/Empfänger', 'Buchung']],
+  columns: {
+    'Buchung': 'date',
+    'Valuta': 'valueDate',
+    'Auftraggeber/Empfänger': 'recipient',
+    'Buchungstext': 'category',
+    'Verwendungszweck': 'description',
+    'Saldo': 'balance',
+    'Währung': 'currency',
+    'Betrag': 'amount',
+  },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'de',
+}
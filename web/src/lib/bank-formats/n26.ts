@@ -0,0 +1,42 @@
+import { BankFormat } from './types'
+
+// N26 CSV export: German and English column names, and the 2023 layout with "Partner" columns
+export const n26: BankFormat = {
+  id: 'n26',
+  name: 'N26',
+  signatures: [['Betrag (EUR)', 'Empfänger'], ['Amount (EUR)', 'Payee'], ['Amount (EUR)', 'Partner Name']],
+  columns: {
+    // German N26
+    'Datum': 'date',
+    'Empfänger': 'recipient',
+    'Kontonummer': 'recipientIban',
+    'Transaktionstyp': 'category',
+    'Verwendungszweck': 'description',
+    'Betrag (EUR)': 'amount',
+    'Betrag (Fremdwährung)': 'originalAmount',
+    'Fremdwährung': 'originalCurrency',
+    'Wechselkurs': 'exchangeRate',
+    // English N26
+    'Date': 'date',
+    'Payee': 'recipient',
+    'Account number': 'recipientIban',
+    'Transaction type': 'category',
+    'Payment reference': 'description',
+    'Amount (EUR)': 'amount',
+    'Amount (Foreign Currency)': 'originalAmount',
+    'Type Foreign Currency': 'originalCurrency',
+    'Exchange Rate': 'exchangeRate',
+    // 2023 layout
+    'Booking Date': 'date',
+    'Value Date': 'valueDate',
+    'Partner Name': 'recipient',
+    'Partner Iban': 'recipientIban',
+    'Type': 'category',
+    'Payment Reference': 'description',
+    'Account Name': 'referenceAccountName',
+    'Original Amount': 'originalAmount',
+    'Original Currency': 'originalCurrency',
+  },
+  dateFormat: 'YYYY-MM-DD',
+  numberFormat: 'en',
+}
@@ -0,0 +1,49 @@
+import { BankFormat } from './types'
+import { splitFee } from './fees'
+
+const SKIPPED_STATES: Record<string, string> = {
+  PENDING: 'Pending',
+  REVERTED: 'Reverted',
+  DECLINED: 'Declined',
+  FAILED: 'Failed',
+}
+
+// Revolut statement: one row per pocket booking, fees in their own column, card payments with a state
+export const revolut: BankFormat = {
+  id: 'revolut',
+  name: 'Revolut',
+  signatures: [['Started Date', 'Completed Date', 'State']],
+  columns: {
+    'Type': '',
+    'Product': '',
+    'Started Date': '',
+    'Completed Date': 'date',
+    'Description': 'description',
+    'Amount': 'amount',
+    'Fee': '',
+    'Currency': 'currency',
+    'State': '',
+    'Balance': 'balance',
+  },
+  dateFormat: 'YYYY-MM-DD',
+  numberFormat: 'en',
+  // Pending payments come back completed in a later export; reverted ones never cost anything
+  skip: row => SKIPPED_STATES[row['State']?.toUpperCase()],
+  postProcess: (transaction, row) => {
+    // Each currency (and savings product) is its own pocket
+    const product = row['Product'] && row['Product'] !== 'Current' ? ` ${row['Product']}` : ''
+    const pocket = {
+      ...transaction,
+      referenceAccountName: transaction.referenceAccountName || `Revolut ${transaction.currency}${product}`,
+    }
+
+    // Both legs of an exchange share the start time
+    if (row['Type'] === 'EXCHANGE') {
+      pocket.isTransfer = true
+      pocket.transferGroup = `revolut:${row['Started Date']}`
+    }
+
+    // Amount excludes the fee, the balance includes it
+    return splitFee(pocket, transaction.amount, parseFloat(row['Fee']) || 0, 'Revolut')
+  },
+}
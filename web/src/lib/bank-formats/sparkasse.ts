@@ -0,0 +1,26 @@
+import { BankFormat } from './types'
+
+// Sparkasse "CSV-CAMT" export (older exports have Kontonummer/BLZ instead of IBAN/BIC)
+export const sparkasse: BankFormat = {
+  id: 'sparkasse',
+  name: 'Sparkasse',
+  signatures: [['Beguenstigter/Zahlungspflichtiger']],
+  columns: {
+    'Auftragskonto': 'referenceAccount',
+    'Buchungstag': 'date',
+    'Valutadatum': 'valueDate',
+    'Buchungstext': 'category',
+    'Verwendungszweck': 'description',
+    'Glaeubiger ID': 'creditorId',
+    'Mandatsreferenz': 'mandateRef',
+    'Kundenreferenz (End-to-End)': 'endToEndId',
+    'Beguenstigter/Zahlungspflichtiger': 'recipient',
+    'Kontonummer/IBAN': 'recipientIban',
+    'Kontonummer': 'recipientIban',
+    'BLZ': 'bankCode',
+    'Betrag': 'amount',
+    'Waehrung': 'currency',
+  },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'de',
+}
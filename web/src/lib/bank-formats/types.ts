@@ -0,0 +1,19 @@
+import { RawTransaction, BankProfile } from '../../types'
+
+// Declarative description of a bank's CSV export; register new banks in ./index.ts
+export interface BankFormat {
+  id: string
+  name: string // Shown as the detected format, e.g. in the import summary
+  // Header sets that identify the export - one complete set makes the format a candidate
+  signatures: string[][]
+  columns: Record<string, string> // CSV header -> RawTransaction field ('debit'/'credit' for split amount columns)
+  // CSV conventions; Excel cells arrive pre-formatted and always use detection
+  dateFormat?: BankProfile['dateFormat']
+  numberFormat?: BankProfile['numberFormat']
+  signConvention?: BankProfile['signConvention']
+  // Reason a row is not a (final) booking, e.g. a pending or reverted card payment - it is skipped
+  skip?: (row: Record<string, string>) => string | undefined
+  // Fix up a parsed row (the original CSV row is passed along); return several transactions
+  // to split it (e.g. a fee), or null to drop it
+  postProcess?: (transaction: RawTransaction, row: Record<string, string>) => RawTransaction | RawTransaction[] | null
+}
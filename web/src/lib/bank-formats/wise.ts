@@ -0,0 +1,51 @@
+import { BankFormat } from './types'
+import { splitFee } from './fees'
+
+// Wise balance statement: one file per currency or all balances, fees included in the amount
+export const wise: BankFormat = {
+  id: 'wise',
+  name: 'Wise',
+  signatures: [['TransferWise ID', 'Running Balance']],
+  columns: {
+    'TransferWise ID': '',
+    'Date': 'date',
+    'Amount': 'amount',
+    'Currency': 'currency',
+    'Description': 'description',
+    'Payment Reference': '',
+    'Running Balance': 'balance',
+    'Exchange From': '',
+    'Exchange To': '',
+    'Exchange Rate': '',
+    'Payer Name': '',
+    'Payee Name': '',
+    'Payee Account Number': 'recipientIban',
+    'Merchant': '',
+    'Card Last Four Digits': '',
+    'Card Holder Full Name': '',
+    'Attachment': '',
+    'Note': '',
+    'Total fees': '',
+    'Exchange To Amount': '',
+  },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'en',
+  skip: row => (row['Status'] && row['Status'].toUpperCase() !== 'COMPLETED' ? row['Status'] : undefined),
+  postProcess: (transaction, row) => {
+    const pocket = {
+      ...transaction,
+      recipient: row['Merchant'] || (transaction.amount < 0 ? row['Payee Name'] : row['Payer Name']) || undefined,
+      referenceAccountName: transaction.referenceAccountName || `Wise ${transaction.currency}`,
+    }
+
+    // Both legs of a conversion between balances carry the same ID
+    if (row['Exchange From'] && row['Exchange To'] && row['Exchange From'] !== row['Exchange To']) {
+      pocket.isTransfer = true
+      pocket.transferGroup = `wise:${row['TransferWise ID']}`
+    }
+
+    // The amount already includes the fees
+    const fee = parseFloat(row['Total fees']) || 0
+    return splitFee(pocket, Math.round((transaction.amount + fee) * 100) / 100, fee, 'Wise')
+  },
+}
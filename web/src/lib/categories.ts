@@ -0,0 +1,98 @@
+import { Category, CategoryKind, CategoryMapping, TransactionSplit } from '../types'
+
+// Helpers over the category taxonomy loaded from the API (see category-context.ts)
+
+// Names the categorizer assigns by itself; the API keeps them in every taxonomy
+export const SYSTEM_CATEGORIES = ['Other', 'Income', 'Transfer']
+
+const FALLBACK_COLOR = '#64748b'
+
+const SYSTEM_CATEGORY_KINDS: Record<string, CategoryKind> = { Other: 'expense', Income: 'income', Transfer: 'transfer' }
+
+// Taxonomy used while the categories API is unavailable: just the system categories, the API owns the rest
+// Negative IDs so nothing is mistaken for a stored category
+export const FALLBACK_CATEGORIES: Category[] = SYSTEM_CATEGORIES.map((name, index) => ({
+  id: -(index + 1),
+  name,
+  kind: SYSTEM_CATEGORY_KINDS[name],
+  color: FALLBACK_COLOR,
+  icon: 'tag',
+  sortOrder: index,
+  aliases: [],
+  isSystem: true,
+}))
+
+// The API's categories haven't loaded, only the fallback (or nothing yet)
+export function isDefaultTaxonomy(categories: Category[]): boolean {
+  return categories.every(c => c.id < 0)
+}
+
+export function findCategory(categories: Category[], name?: string): Category | undefined {
+  return name ? categories.find(c => c.name === name) : undefined
+}
+
+export function getCategoryColor(categories: Category[], name?: string): string {
+  return findCategory(categories, name)?.color || FALLBACK_COLOR
+}
+
+// Unknown names (e.g. from an old export) count as expenses; the system Transfer category always is a transfer
+export function getCategoryKind(categories: Category[], name?: string): CategoryKind {
+  if (name === 'Transfer') return 'transfer'
+  return findCategory(categories, name)?.kind || 'expense'
+}
+
+// Top-level categories, each followed by its subcategories
+export function sortCategoryTree(categories: Category[]): Category[] {
+  const byOrder = [...categories].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+  return byOrder
+    .filter(c => c.parentId === undefined || !categories.some(p => p.id === c.parentId))
+    .flatMap(parent => [parent, ...byOrder.filter(c => c.parentId === parent.id)])
+}
+
+// Category names for pickers, optionally limited to some kinds
+export function getCategoryNames(categories: Category[], kinds?: CategoryKind[]): string[] {
+  return sortCategoryTree(categories)
+    .filter(c => !kinds || kinds.includes(c.kind))
+    .map(c => c.name)
+}
+
+// A subcategory without a column of its own is exported in its parent's column
+export function getSheetColumn(categories: Category[], mappings: CategoryMapping[], name: string): string | undefined {
+  const own = mappings.find(m => m.appCategory === name)?.sheetColumn
+  if (own) return own
+
+  const category = findCategory(categories, name)
+  const parent = categories.find(c => c.id === category?.parentId)
+  return parent ? mappings.find(m => m.appCategory === parent.name)?.sheetColumn : undefined
+}
+
+// Apply a rename or merge to data that is already loaded, the way the API does for stored data:
+// split parts that end up in the same category are combined, and a split left with one part
+// becomes a plain category
+export function renameCategoryIn<T extends { category?: string; splits?: TransactionSplit[] }>(
+  item: T,
+  from: string,
+  to: string
+): T {
+  const category = item.category === from ? to : item.category
+  if (!item.splits || item.splits.length === 0) {
+    return category === item.category ? item : { ...item, category }
+  }
+
+  const splits: TransactionSplit[] = []
+  for (const split of item.splits) {
+    const target = split.category === from ? to : split.category
+    const existing = splits.find(s => s.category === target)
+    if (existing) {
+      existing.amount = Math.round((existing.amount + split.amount) * 100) / 100
+      const note = [existing.note, split.note].filter(Boolean).join(', ')
+      if (note) existing.note = note
+    } else {
+      splits.push({ ...split, category: target })
+    }
+  }
+
+  return splits.length === 1
+    ? { ...item, category: splits[0].category, splits: undefined }
+    : { ...item, category, splits }
+}
@@ -1,4 +1,6 @@
-import { Transaction } from '../types'
+import { CategorizationRule, Transaction } from '../types'
+import { SYSTEM_CATEGORIES } from './categories'
+import { applyRuleActions, findMatchingRule, isMaskedIban, setsCategory, sortRules } from './rules'
 
 // Rule-based categorization using merchant patterns
 // These map regex patterns to categories
@@ -83,6 +85,28 @@ export function setLearnedMappings(mappings: Array<{ merchant: string; category:
   console.log(`Loaded ${learnedMappings.size} learned categorizations`)
 }
 
+// User rules cache (populated from the API with every processing job), in evaluation order
+let userRules: CategorizationRule[] = []
+
+export function setUserRules(rules: CategorizationRule[]): void {
+  userRules = sortRules(rules)
+}
+
+// Category names cache (populated from the API's taxonomy with every processing job)
+let knownCategories = new Set<string>(SYSTEM_CATEGORIES)
+// Former names of renamed or merged categories -> current name
+let categoryAliases: Map<string, string> = new Map()
+
+export function setCategoryNames(categories: Array<{ name: string; aliases: string[] }>): void {
+  knownCategories = new Set([...SYSTEM_CATEGORIES, ...categories.map(c => c.name)])
+  categoryAliases = new Map(categories.flatMap(c => c.aliases.map(alias => [alias, c.name] as [string, string])))
+}
+
+// Rules and source files may still use a category's old name
+function resolveCategory(category: string): string {
+  return categoryAliases.get(category) ?? category
+}
+
 // Normalize merchant name for matching (must match backend normalization)
 function normalizeMerchant(merchant: string): string {
   return merchant.toLowerCase().trim().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ')
@@ -112,29 +136,74 @@ function getMerchantVariations(text: string): string[] {
   return [...new Set(variations.filter(v => v.length > 2))]
 }
 
+// Key a manual recategorization is learned under: the direct-debit contract
+// (creditor ID + mandate reference) when there is one, otherwise the merchant
+export function getLearnedMappingKey(tx: Transaction): string {
+  if (tx.creditorId) {
+    return [tx.creditorId, tx.mandateRef].filter(Boolean).join(' ')
+  }
+  return tx.merchant || tx.recipient || tx.description.slice(0, 30)
+}
+
+// What makes two transactions similar when a recategorization is applied to others:
+// the learned mapping key (direct-debit contract or merchant), or the counterparty IBAN
+export type SimilarityBasis = 'merchant' | 'iban'
+
+export function normalizeIban(iban?: string): string {
+  return (iban || '').replace(/\s/g, '').toUpperCase()
+}
+
+// Other loaded transactions that recategorizing tx to category would also move
+// (split transactions keep their parts). A masked IBAN is never a basis: with only
+// the country code and last 4 digits left, it would match unrelated accounts
+export function findSimilarTransactions(
+  tx: Transaction,
+  transactions: Transaction[],
+  category: string,
+  basis: SimilarityBasis
+): Transaction[] {
+  const candidates = transactions.filter(other => other.id !== tx.id && other.category !== category && !other.splits)
+
+  if (basis === 'iban') {
+    const iban = normalizeIban(tx.recipientIban)
+    return iban && !isMaskedIban(iban) ? candidates.filter(other => normalizeIban(other.recipientIban) === iban) : []
+  }
+  const key = normalizeMerchant(getLearnedMappingKey(tx))
+  return key ? candidates.filter(other => normalizeMerchant(getLearnedMappingKey(other)) === key) : []
+}
+
 // Check if a merchant/description matches any learned mapping with fuzzy matching
-function findLearnedCategory(tx: Transaction): string | null {
+// Returns the matching mapping's (normalized) key and category
+function findLearnedCategory(tx: Transaction): { key: string; category: string } | null {
   if (learnedMappings.size === 0) return null
   
+  // 0. Direct-debit contract, then any contract with the same creditor
+  if (tx.creditorId) {
+    for (const key of [getLearnedMappingKey(tx), tx.creditorId].map(normalizeMerchant)) {
+      const learned = learnedMappings.get(key)
+      if (learned) return { key, category: learned }
+    }
+  }
+  
   // 1. Exact match on normalized merchant
   if (tx.merchant) {
     const normalized = normalizeMerchant(tx.merchant)
     const learned = learnedMappings.get(normalized)
-    if (learned) return learned
+    if (learned) return { key: normalized, category: learned }
   }
   
   // 2. Exact match on normalized recipient
   if (tx.recipient) {
     const normalized = normalizeMerchant(tx.recipient)
     const learned = learnedMappings.get(normalized)
-    if (learned) return learned
+    if (learned) return { key: normalized, category: learned }
   }
   
   // 3. Fuzzy match - check if any learned merchant is contained in description
   const descNormalized = normalizeMerchant(tx.description)
   for (const [merchant, category] of learnedMappings) {
     if (descNormalized.includes(merchant) && merchant.length > 3) {
-      return category
+      return { key: merchant, category }
     }
   }
   
@@ -144,15 +213,15 @@ function findLearnedCategory(tx: Transaction): string | null {
     const variations = getMerchantVariations(text)
     for (const variation of variations) {
       const learned = learnedMappings.get(variation)
-      if (learned) return learned
+      if (learned) return { key: variation, category: learned }
       
       // Also check if any stored merchant is a substring of our variation
       for (const [storedMerchant, category] of learnedMappings) {
         if (variation.includes(storedMerchant) && storedMerchant.length > 3) {
-          return category
+          return { key: storedMerchant, category }
         }
         if (storedMerchant.includes(variation) && variation.length > 3) {
-          return category
+          return { key: storedMerchant, category }
         }
       }
     }
@@ -161,62 +230,78 @@ function findLearnedCategory(tx: Transaction): string | null {
   return null
 }
 
+// User rules run first: a matching rule that sets a category (or marks a transfer) decides,
+// other matching rules only add their merchant, tags or exclusion to the built-in result.
+// Categorization sets ruleId, tags and learnedMapping, so values restored from the ledger are dropped
 export function categorizeWithRules(transactions: Transaction[]): Transaction[] {
-  return transactions.map(tx => {
-    // Check if it's a transfer between own accounts
-    if (tx.isTransfer) {
-      return { ...tx, category: 'Transfer', categorySource: 'rule' as const }
+  return transactions.map(({ ruleId: _ruleId, tags: _tags, learnedMapping: _learnedMapping, ...tx }) => {
+    const rule = findMatchingRule(tx, userRules)
+    let categorized: Transaction
+    if (rule && setsCategory(rule)) {
+      categorized = applyRuleActions(tx, rule)
+    } else {
+      categorized = categorizeTransaction(tx)
+      if (rule) categorized = applyRuleActions(categorized, rule)
     }
+    return categorized.category ? { ...categorized, category: resolveCategory(categorized.category) } : categorized
+  })
+}
 
-    // Check for transfer patterns in description
-    for (const pattern of TRANSFER_PATTERNS) {
-      if (pattern.test(tx.description)) {
-        return { ...tx, category: 'Transfer', isTransfer: true, categorySource: 'rule' as const }
-      }
+function categorizeTransaction(tx: Transaction): Transaction {
+  // Check if it's a transfer between own accounts
+  if (tx.isTransfer) {
+    return { ...tx, category: 'Transfer', categorySource: 'rule' as const }
+  }
+
+  // Check for transfer patterns in description
+  for (const pattern of TRANSFER_PATTERNS) {
+    if (pattern.test(tx.description)) {
+      return { ...tx, category: 'Transfer', isTransfer: true, categorySource: 'rule' as const }
     }
+  }
 
-    // 1. First, check learned mappings (user's manual recategorizations take priority)
-    const learnedCategory = findLearnedCategory(tx)
-    if (learnedCategory) {
-      return {
-        ...tx,
-        category: learnedCategory,
-        categorySource: 'learned' as const,
-      }
+  // 1. First, check learned mappings (user's manual recategorizations take priority)
+  const learned = findLearnedCategory(tx)
+  if (learned) {
+    return {
+      ...tx,
+      category: learned.category,
+      categorySource: 'learned' as const,
+      learnedMapping: learned.key,
     }
+  }
 
-    // 2. Try to map German categories from the source file
-    const mappedCategory = mapGermanCategory(tx.category, tx.subcategory)
-    
-    if (mappedCategory && mappedCategory !== 'Other') {
+  // 2. Try to map German categories from the source file
+  const mappedCategory = mapGermanCategory(tx.category, tx.subcategory)
+  
+  if (mappedCategory && mappedCategory !== 'Other') {
+    return {
+      ...tx,
+      category: mappedCategory,
+      categorySource: 'rule' as const,
+    }
+  }
+
+  // 3. Apply merchant rules for pattern-based categorization
+  const textToMatch = `${tx.description} ${tx.recipient || ''} ${tx.category || ''} ${tx.subcategory || ''}`
+  
+  for (const rule of MERCHANT_RULES) {
+    if (rule.pattern.test(textToMatch)) {
       return {
         ...tx,
-        category: mappedCategory,
+        category: rule.category,
+        merchant: rule.merchant || extractMerchant(textToMatch, rule.pattern),
         categorySource: 'rule' as const,
       }
     }
+  }
 
-    // 3. Apply merchant rules for pattern-based categorization
-    const textToMatch = `${tx.description} ${tx.recipient || ''} ${tx.category || ''} ${tx.subcategory || ''}`
-    
-    for (const rule of MERCHANT_RULES) {
-      if (rule.pattern.test(textToMatch)) {
-        return {
-          ...tx,
-          category: rule.category,
-          merchant: rule.merchant || extractMerchant(textToMatch, rule.pattern),
-          categorySource: 'rule' as const,
-        }
-      }
-    }
-
-    // 4. Fall back to mapped category or 'Other'
-    return {
-      ...tx,
-      category: mappedCategory || 'Other',
-      categorySource: tx.category ? 'rule' as const : undefined,
-    }
-  })
+  // 4. Fall back to mapped category or 'Other'
+  return {
+    ...tx,
+    category: mappedCategory || 'Other',
+    categorySource: tx.category ? 'rule' as const : undefined,
+  }
 }
 
 function extractMerchant(text: string, pattern: RegExp): string | undefined {
@@ -231,6 +316,9 @@ function extractMerchant(text: string, pattern: RegExp): string | undefined {
 function mapGermanCategory(category?: string, subcategory?: string): string | undefined {
   if (!category) return undefined
   
+  // Already one of our categories (e.g. transactions restored from the ledger)
+  if (knownCategories.has(category) || categoryAliases.has(category)) return category
+  
   const combined = subcategory ? `${category}/${subcategory}` : category
   
   const GERMAN_CATEGORY_MAP: Record<string, string> = {
@@ -295,86 +383,116 @@ function mapGermanCategory(category?: string, subcategory?: string): string | un
   return GERMAN_CATEGORY_MAP[combined] || GERMAN_CATEGORY_MAP[category]
 }
 
-// Categories matching your Google Sheet columns (in order)
-// Expense categories for the sheet
-export const EXPENSE_CATEGORIES = [
-  'Rent',
-  'Eating Out',
-  'Personal Entertainment',
-  'Subscriptions',
-  'Car',
-  'Public Transport',
-  'Internet',
-  'Electricity',
-  'Insurance',
-  'Travel',
-  'Groceries',
-  'Family',
-  'Radio Tax',
-  'Health & Wellbeing',
-  'Shopping',
-  'Other',
-  'Gifts',
-] as const
-
-// All available categories for the dropdown (including non-expense)
-export const AVAILABLE_CATEGORIES = [
-  ...EXPENSE_CATEGORIES,
-  'Income',
-  'Savings',
-  'Investment',
-  'Transfer',
-]
+// Quicken / MoneyMoney / Moneydance category names (lowercase) -> app category
+const QIF_CATEGORY_MAP: Record<string, string> = {
+  // Food
+  'groceries': 'Groceries',
+  'lebensmittel': 'Groceries',
+  'supermarkt': 'Groceries',
+  'drogerie': 'Groceries',
+  'dining': 'Eating Out',
+  'dining out': 'Eating Out',
+  'restaurants': 'Eating Out',
+  'restaurant': 'Eating Out',
+  'fast food': 'Eating Out',
+  'essen gehen': 'Eating Out',
+
+  // Housing & utilities
+  'rent': 'Rent',
+  'mortgage': 'Rent',
+  'housing': 'Rent',
+  'miete': 'Rent',
+  'wohnen': 'Rent',
+  'electric': 'Electricity',
+  'electricity': 'Electricity',
+  'strom': 'Electricity',
+  'internet': 'Internet',
+  'telephone': 'Internet',
+  'cell phone': 'Internet',
+  'telefon': 'Internet',
+  'mobilfunk': 'Internet',
+  'rundfunkbeitrag': 'Radio Tax',
+  'gez': 'Radio Tax',
+
+  // Transport
+  'auto': 'Car',
+  'car': 'Car',
+  'fuel': 'Car',
+  'gas': 'Car',
+  'tanken': 'Car',
+  'public transportation': 'Public Transport',
+  'public transport': 'Public Transport',
+  'transit': 'Public Transport',
+  'oepnv': 'Public Transport',
+  'öpnv': 'Public Transport',
+
+  // Lifestyle
+  'entertainment': 'Personal Entertainment',
+  'recreation': 'Personal Entertainment',
+  'hobbies': 'Personal Entertainment',
+  'freizeit': 'Personal Entertainment',
+  'subscriptions': 'Subscriptions',
+  'abonnements': 'Subscriptions',
+  'clothing': 'Shopping',
+  'household': 'Shopping',
+  'shopping': 'Shopping',
+  'kleidung': 'Shopping',
+  'haushalt': 'Shopping',
+  'travel': 'Travel',
+  'vacation': 'Travel',
+  'urlaub': 'Travel',
+  'reisen': 'Travel',
+  'gifts': 'Gifts',
+  'gifts given': 'Gifts',
+  'charity': 'Gifts',
+  'geschenke': 'Gifts',
+  'spenden': 'Gifts',
+  'childcare': 'Family',
+  'kids': 'Family',
+  'education': 'Family',
+  'kinder': 'Family',
+  'familie': 'Family',
+  'medical': 'Health & Wellbeing',
+  'healthcare': 'Health & Wellbeing',
+  'fitness': 'Health & Wellbeing',
+  'gesundheit': 'Health & Wellbeing',
+  'insurance': 'Insurance',
+  'versicherung': 'Insurance',
+  'versicherungen': 'Insurance',
 
-// Sheet column mapping (category -> column letter, assuming Month is A)
-export const SHEET_COLUMNS: Record<string, string> = {
-  'Month': 'A',
-  'Rent': 'B',
-  'Eating Out': 'C',
-  'Personal Entertainment': 'D',
-  'Subscriptions': 'E',
-  'Car': 'F',  // Car(Miles) in sheet
-  'Public Transport': 'G',
-  'Internet': 'H',
-  'Electricity': 'I',
-  'Insurance': 'J',
-  'Travel': 'K',
-  'Groceries': 'L',
-  'Family': 'M',
-  'Radio Tax': 'N',
-  'Health & Wellbeing': 'O',
-  'Shopping': 'P',
-  'Other': 'Q',
-  'Gifts': 'R',
-  'Total Expenditure': 'S',
-  'Income': 'T',
-  'Income After Expenditure': 'U',
-  'Gross Savings': 'V',
-  'Gross Investment': 'W',
-  'Net Income': 'X',
+  // Income, savings, transfers
+  'salary': 'Income',
+  'wages': 'Income',
+  'paycheck': 'Income',
+  'bonus': 'Income',
+  'income': 'Income',
+  'interest inc': 'Income',
+  'div income': 'Income',
+  'gehalt': 'Income',
+  'lohn': 'Income',
+  'einnahmen': 'Income',
+  'savings': 'Savings',
+  'sparen': 'Savings',
+  'investment': 'Investment',
+  'investments': 'Investment',
+  'geldanlage': 'Investment',
+  'transfer': 'Transfer',
+  'umbuchung': 'Transfer',
 }
 
-// Category colors for charts
-export const CATEGORY_COLORS: Record<string, string> = {
-  'Rent': '#8b5cf6',
-  'Eating Out': '#f59e0b',
-  'Personal Entertainment': '#ec4899',
-  'Subscriptions': '#a855f7',
-  'Car': '#6366f1',
-  'Public Transport': '#14b8a6',
-  'Internet': '#3b82f6',
-  'Electricity': '#f97316',
-  'Insurance': '#06b6d4',
-  'Travel': '#84cc16',
-  'Groceries': '#10b981',
-  'Family': '#f43f5e',
-  'Radio Tax': '#7c3aed',
-  'Health & Wellbeing': '#22c55e',
-  'Shopping': '#fb7185',
-  'Other': '#64748b',
-  'Gifts': '#e11d48',
-  'Income': '#10b981',
-  'Savings': '#0ea5e9',
-  'Investment': '#0284c7',
-  'Transfer': '#94a3b8',
+// Map a QIF category path ("Auto:Fuel", "Food:Dining/Business") onto our categories
+// Tries the full path, then each segment from the most specific one up
+export function mapQIFCategory(category?: string): string | undefined {
+  if (!category) return undefined
+
+  const path = category.split('/')[0].trim()
+  if (knownCategories.has(path) || categoryAliases.has(path)) return path
+
+  const segments = path.split(':').map(segment => segment.trim().toLowerCase())
+  const candidates = [segments.join(':'), ...segments.reverse()]
+
+  for (const candidate of candidates) {
+    if (QIF_CATEGORY_MAP[candidate]) return QIF_CATEGORY_MAP[candidate]
+  }
+  return undefined
 }
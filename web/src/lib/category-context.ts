@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react'
+import { Category } from '../types'
+
+// The category taxonomy, loaded from the API by App.tsx and read by every category picker
+export const CategoryContext = createContext<Category[]>([])
+
+export function useCategories(): Category[] {
+  return useContext(CategoryContext)
+}
@@ -0,0 +1,98 @@
+import { Transaction } from '../types'
+import { scaleSplits } from './splits'
+
+// ECB reference rate: units of a currency per 1 EUR on a banking day
+export interface ExchangeRate {
+  date: string
+  currency: string
+  rate: number
+}
+
+export interface ExchangeRateCoverage {
+  currency: string
+  from: string
+  to: string
+  count: number
+}
+
+// Rates per currency, oldest first
+export type RateTable = Map<string, ExchangeRate[]>
+
+export function buildRateTable(rates: ExchangeRate[]): RateTable {
+  const table: RateTable = new Map()
+  for (const rate of rates) {
+    if (!table.has(rate.currency)) {
+      table.set(rate.currency, [])
+    }
+    table.get(rate.currency)!.push(rate)
+  }
+  for (const list of table.values()) {
+    list.sort((a, b) => a.date.localeCompare(b.date))
+  }
+  return table
+}
+
+// Last rate on or before the date - there are none for weekends and holidays
+function eurRate(table: RateTable, currency: string, date: string): number | undefined {
+  if (currency === 'EUR') return 1
+
+  const rates = table.get(currency)
+  if (!rates || rates.length === 0 || rates[0].date > date) return undefined
+
+  let low = 0
+  let high = rates.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (rates[mid].date <= date) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return rates[low].rate
+}
+
+export function convertAmount(amount: number, from: string, to: string, date: string, table: RateTable): number | undefined {
+  if (from === to) return amount
+
+  const fromRate = eurRate(table, from, date)
+  const toRate = eurRate(table, to, date)
+  if (fromRate === undefined || toRate === undefined) return undefined
+
+  return Math.round((amount / fromRate) * toRate * 100) / 100
+}
+
+// Currencies the rate table needs to convert these transactions (EUR is the ECB's own base)
+export function getRequiredCurrencies(transactions: Transaction[], baseCurrency: string): string[] {
+  const currencies = new Set([baseCurrency, ...transactions.map(tx => tx.currency)])
+  currencies.delete('EUR')
+  return Array.from(currencies).sort()
+}
+
+// Express transactions in the base currency; bookedAmount/bookedCurrency keep what the bank booked.
+// Transactions without a rate keep their own currency.
+export function convertToBase(transactions: Transaction[], baseCurrency: string, table: RateTable): Transaction[] {
+  return transactions.map(tx => {
+    if (tx.currency === baseCurrency) return tx
+
+    // The bank already converted from the base currency, e.g. a card payment abroad
+    const amount = tx.originalCurrency === baseCurrency && tx.originalAmount !== undefined
+      ? tx.originalAmount
+      : convertAmount(tx.amount, tx.currency, baseCurrency, tx.date, table)
+    if (amount === undefined) return tx
+
+    return {
+      ...tx,
+      amount,
+      currency: baseCurrency,
+      splits: tx.splits && scaleSplits(tx.splits, tx.amount, amount),
+      bookedAmount: tx.amount,
+      bookedCurrency: tx.currency,
+    }
+  })
+}
+
+// Currencies still left after convertToBase, i.e. without a rate for some of their dates
+export function getMissingRates(converted: Transaction[], baseCurrency: string): string[] {
+  return Array.from(new Set(converted.filter(tx => tx.currency !== baseCurrency).map(tx => tx.currency))).sort()
+}
@@ -39,6 +39,31 @@ export function detectDoubleBookings(transactions: Transaction[]): {
   const pairs: DoubleBookingPair[] = []
   const pairedIds = new Set<string>()
 
+  // Legs of one exchange are linked by the bank; amounts differ by currency
+  const byTransferGroup = new Map<string, Transaction[]>()
+  for (const tx of transactions) {
+    if (!tx.transferGroup) continue
+    if (!byTransferGroup.has(tx.transferGroup)) {
+      byTransferGroup.set(tx.transferGroup, [])
+    }
+    byTransferGroup.get(tx.transferGroup)!.push(tx)
+  }
+
+  for (const legs of byTransferGroup.values()) {
+    const expense = legs.find(tx => tx.type === 'expense')
+    const income = legs.find(tx => tx.type === 'income')
+    if (!expense || !income) continue
+
+    pairs.push({
+      outgoing: expense,
+      incoming: income,
+      amount: expense.amount,
+      date: expense.date,
+    })
+    pairedIds.add(expense.id)
+    pairedIds.add(income.id)
+  }
+
   // Group by date for efficient matching
   const byDate = new Map<string, Transaction[]>()
   for (const tx of transactions) {
@@ -0,0 +1,42 @@
+import { Transaction, TransactionEdit } from '../types'
+
+// Build an edit from the fields of an update that should survive re-imports
+export function toTransactionEdit(id: string, updates: Partial<Transaction>): TransactionEdit | null {
+  const edit: TransactionEdit = { id }
+  if (updates.category !== undefined) edit.category = updates.category
+  if (updates.merchant !== undefined) edit.merchant = updates.merchant
+  if (updates.isExcluded !== undefined) edit.isExcluded = updates.isExcluded
+  if (updates.splits !== undefined) edit.splits = updates.splits
+
+  return Object.keys(edit).length > 1 ? edit : null
+}
+
+// Merge a new edit into the overlay, keeping previously edited fields
+export function mergeEdit(overlay: Map<string, TransactionEdit>, edit: TransactionEdit): void {
+  overlay.set(edit.id, { ...overlay.get(edit.id), ...edit })
+}
+
+// Re-apply manual edits to transactions with matching IDs
+// Runs after rule categorization and double-booking detection so manual choices win
+export function applyEditOverlay(
+  transactions: Transaction[],
+  overlay: Map<string, TransactionEdit>
+): Transaction[] {
+  if (overlay.size === 0) return transactions
+
+  return transactions.map(tx => {
+    const edit = overlay.get(tx.id)
+    if (!edit) return tx
+
+    const updated = { ...tx }
+    if (edit.category !== undefined) {
+      updated.category = edit.category
+      updated.categorySource = 'manual'
+    }
+    if (edit.merchant !== undefined) updated.merchant = edit.merchant
+    if (edit.isExcluded !== undefined) updated.isExcluded = edit.isExcluded
+    if (edit.splits !== undefined) updated.splits = edit.splits.length > 0 ? edit.splits : undefined
+
+    return updated
+  })
+}
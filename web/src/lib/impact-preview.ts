@@ -0,0 +1,141 @@
+import { CategorizationRule, Transaction } from '../types'
+import { setsCategory } from './rules'
+
+// Dry-run results: what a rule or learned mapping would change in the loaded history.
+// The "after" transactions come from re-running the processing pipeline with the changed
+// rules or mappings (see handlePreviewCategorization in App.tsx); nothing loaded is touched.
+
+export interface PreviewChange {
+  before: Transaction
+  after: Transaction
+}
+
+// Transactions moving from one category to another
+export interface CategoryShift {
+  from: string
+  to: string
+  count: number
+  amount: number // In the base currency
+}
+
+export interface CategorizationPreview {
+  changes: PreviewChange[]
+  shifts: CategoryShift[] // Largest amount first
+  movedAmount: number // Total amount of transactions that change category, in the base currency
+}
+
+export interface RuleOverlap {
+  rule: CategorizationRule
+  count: number
+}
+
+export interface RuleImpact extends CategorizationPreview {
+  matched: number // Transactions the rule matches on its own, ignoring other rules
+  shadowedBy: RuleOverlap[] // Higher rules that win on transactions this one matches
+  shadows: RuleOverlap[] // Rules this one would take transactions from
+  manual: number // Matches that keep their manually edited category
+}
+
+// What to dry-run with instead of the current rules or learned mappings
+export interface CategorizationChanges {
+  rules?: CategorizationRule[]
+  learnedMappings?: Array<{ merchant: string; category: string }>
+}
+
+// Id of a rule that hasn't been saved yet while it is previewed
+// (sorts after saved rules of the same priority, like it will once saved)
+export const DRAFT_RULE_ID = Number.MAX_SAFE_INTEGER
+
+function sameTags(a?: string[], b?: string[]): boolean {
+  return (a || []).join('\n') === (b || []).join('\n')
+}
+
+function hasChanged(before: Transaction, after: Transaction): boolean {
+  return before.category !== after.category ||
+    before.merchant !== after.merchant ||
+    Boolean(before.isExcluded) !== Boolean(after.isExcluded) ||
+    Boolean(before.isTransfer) !== Boolean(after.isTransfer) ||
+    !sameTags(before.tags, after.tags)
+}
+
+// Compare the loaded transactions with a dry run (matched by ID)
+// Amounts only add up transactions in the base currency (without an exchange rate, others can't be converted)
+export function diffCategorization(before: Transaction[], after: Transaction[], baseCurrency: string): CategorizationPreview {
+  const afterById = new Map(after.map(tx => [tx.id, tx]))
+  const changes: PreviewChange[] = []
+  const shifts = new Map<string, CategoryShift>()
+  let movedAmount = 0
+
+  for (const tx of before) {
+    const updated = afterById.get(tx.id)
+    if (!updated || !hasChanged(tx, updated)) continue
+    changes.push({ before: tx, after: updated })
+
+    const from = tx.category || 'Uncategorized'
+    const to = updated.category || 'Uncategorized'
+    if (from === to) continue
+
+    const key = `${from}\n${to}`
+    const shift = shifts.get(key) || { from, to, count: 0, amount: 0 }
+    const amount = updated.currency === baseCurrency ? updated.amount : 0
+    shift.count++
+    shift.amount += amount
+    shifts.set(key, shift)
+    movedAmount += amount
+  }
+
+  return {
+    changes: changes.sort((a, b) => b.before.date.localeCompare(a.before.date)),
+    shifts: Array.from(shifts.values()).sort((a, b) => b.amount - a.amount),
+    movedAmount,
+  }
+}
+
+function countByRule(ruleIds: number[], rules: CategorizationRule[]): RuleOverlap[] {
+  const counts = new Map<number, number>()
+  for (const id of ruleIds) {
+    counts.set(id, (counts.get(id) || 0) + 1)
+  }
+  return Array.from(counts, ([id, count]) => ({ rule: rules.find(r => r.id === id)!, count }))
+    .filter(overlap => overlap.rule)
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Impact of saving a rule
+ * - isolated: dry run with only this rule, to see everything it matches
+ * - candidate: dry run with all rules as they would be after saving
+ */
+export function getRuleImpact(
+  rule: CategorizationRule,
+  rules: CategorizationRule[],
+  before: Transaction[],
+  isolated: Transaction[],
+  candidate: Transaction[],
+  baseCurrency: string
+): RuleImpact {
+  const beforeById = new Map(before.map(tx => [tx.id, tx]))
+  const candidateById = new Map(candidate.map(tx => [tx.id, tx]))
+  const matches = isolated.filter(tx => tx.ruleId === rule.id)
+
+  // Matched on its own, but another rule comes first
+  const shadowedBy = matches
+    .map(tx => candidateById.get(tx.id)?.ruleId)
+    .filter((id): id is number => id !== undefined && id !== rule.id)
+
+  // Wins where another rule (not an earlier version of this one) won before
+  const shadows = candidate
+    .filter(tx => tx.ruleId === rule.id)
+    .map(tx => beforeById.get(tx.id)?.ruleId)
+    .filter((id): id is number => id !== undefined && id !== rule.id)
+
+  return {
+    ...diffCategorization(before, candidate, baseCurrency),
+    matched: matches.length,
+    shadowedBy: countByRule(shadowedBy, rules),
+    shadows: countByRule(shadows, rules),
+    manual: setsCategory(rule)
+      ? candidate.filter(tx => tx.ruleId === rule.id && tx.categorySource === 'manual').length
+      : 0,
+  }
+}
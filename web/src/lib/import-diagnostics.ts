@@ -0,0 +1,51 @@
+import { ImportDiagnostic, RawTransaction } from '../types'
+
+// How the user settled a diagnostic in the validation report (default: ignore)
+export type DiagnosticResolution =
+  | { action: 'ignore' }
+  | { action: 'fix'; date: string; amount: number }
+  | { action: 'flip' }
+
+// Info-level diagnostics (unused columns, ...) don't hold up an import
+export function needsReview(diagnostics: ImportDiagnostic[] = []): boolean {
+  return diagnostics.some(d => d.severity !== 'info')
+}
+
+// Rows with a date/amount problem can be corrected by hand
+export function isFixable(diagnostic: ImportDiagnostic): boolean {
+  return !!diagnostic.transaction
+}
+
+// Apply the user's fixes: corrected rows replace the parsed ones (skipped rows are added back),
+// a flip inverts the amounts of all rows that weren't corrected by hand
+export function applyResolutions(
+  transactions: RawTransaction[],
+  diagnostics: ImportDiagnostic[],
+  resolutions: Map<ImportDiagnostic, DiagnosticResolution>
+): RawTransaction[] {
+  const flip = diagnostics.some(d => resolutions.get(d)?.action === 'flip')
+  const replaced = new Map<RawTransaction, RawTransaction>()
+  const added: RawTransaction[] = []
+
+  for (const diagnostic of diagnostics) {
+    const resolution = resolutions.get(diagnostic)
+    if (resolution?.action !== 'fix' || !diagnostic.transaction) continue
+
+    const fixed = { ...diagnostic.transaction, date: resolution.date, amount: resolution.amount }
+    if (diagnostic.included) {
+      replaced.set(diagnostic.transaction, fixed)
+    } else {
+      added.push(fixed)
+    }
+  }
+
+  const result = [
+    ...transactions.map(tx => replaced.get(tx) || (flip ? { ...tx, amount: -tx.amount } : tx)),
+    ...added,
+  ]
+
+  // Sort by date descending, like the parsers do
+  return result.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+}
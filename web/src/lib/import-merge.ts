@@ -0,0 +1,191 @@
+import { RawTransaction, StatementInfo } from '../types'
+import { getTransactionFingerprint } from './transaction-id'
+
+// Minimum description similarity (0-1) for a same-day, same-amount row to count as a duplicate
+const FUZZY_THRESHOLD = 0.7
+
+export interface DuplicateMatch {
+  incoming: RawTransaction
+  existing: RawTransaction
+  match: 'exact' | 'fuzzy'
+  similarity: number
+}
+
+export interface ImportConflict {
+  incoming: RawTransaction
+  candidates: RawTransaction[]
+}
+
+export interface ImportAnalysis {
+  newRows: RawTransaction[]
+  duplicates: DuplicateMatch[]
+  conflicts: ImportConflict[]
+}
+
+// Outcome of one file in a (multi-file) import, shown in the import summary
+export interface FileImportResult {
+  fileName: string
+  format: string
+  account?: string
+  parsed: number // Rows read from the file
+  imported: number // Rows left after the date filter and cross-file duplicates
+  duplicates: number // Rows already contained in an earlier file of the same import
+  statements: StatementInfo[]
+  error?: string
+}
+
+function normalizeText(value?: string): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9äöüß]+/g, ' ').trim()
+}
+
+// Same booking day, amount and own account - the parts banks don't rewrite between exports
+function getCandidateKey(tx: RawTransaction): string {
+  return `${tx.date}|${tx.amount.toFixed(2)}|${normalizeText(tx.referenceAccount)}`
+}
+
+function getBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>()
+  const compact = text.replace(/\s+/g, ' ')
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1)
+  }
+  return bigrams
+}
+
+// Dice coefficient over character bigrams; containment counts as a full match
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a)
+  const right = normalizeText(b)
+
+  if (left === right) return 1
+  if (!left || !right) return 0
+  if (left.includes(right) || right.includes(left)) return 1
+
+  const leftBigrams = getBigrams(left)
+  const rightBigrams = getBigrams(right)
+  let overlap = 0
+  let total = 0
+
+  for (const [bigram, count] of leftBigrams) {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0)
+    total += count
+  }
+  for (const count of rightBigrams.values()) {
+    total += count
+  }
+
+  return total > 0 ? (2 * overlap) / total : 0
+}
+
+// Different counterparty IBANs rule out a match even if everything else lines up
+// Anonymized IBANs (DE******1234) only keep the last 4 digits, so compare those
+function hasConflictingIban(a: RawTransaction, b: RawTransaction): boolean {
+  const left = (a.recipientIban || '').replace(/\s/g, '').toUpperCase()
+  const right = (b.recipientIban || '').replace(/\s/g, '').toUpperCase()
+  if (!left || !right) return false
+  if (left.includes('*') || right.includes('*')) return left.slice(-4) !== right.slice(-4)
+  return left !== right
+}
+
+// Compare an incoming export against already loaded transactions
+// Each existing row can absorb at most one incoming row, so genuinely repeated bookings still count as new
+export function analyzeImport(existing: RawTransaction[], incoming: RawTransaction[]): ImportAnalysis {
+  const byFingerprint = new Map<string, RawTransaction[]>()
+  const byCandidateKey = new Map<string, RawTransaction[]>()
+
+  for (const tx of existing) {
+    const fingerprint = getTransactionFingerprint(tx)
+    if (!byFingerprint.has(fingerprint)) byFingerprint.set(fingerprint, [])
+    byFingerprint.get(fingerprint)!.push(tx)
+
+    const key = getCandidateKey(tx)
+    if (!byCandidateKey.has(key)) byCandidateKey.set(key, [])
+    byCandidateKey.get(key)!.push(tx)
+  }
+
+  const consumed = new Set<RawTransaction>()
+  const duplicates: DuplicateMatch[] = []
+  const unmatched: RawTransaction[] = []
+
+  // Pass 1: exact fingerprint matches
+  for (const tx of incoming) {
+    const match = byFingerprint.get(getTransactionFingerprint(tx))?.find(e => !consumed.has(e))
+    if (match) {
+      consumed.add(match)
+      duplicates.push({ incoming: tx, existing: match, match: 'exact', similarity: 1 })
+    } else {
+      unmatched.push(tx)
+    }
+  }
+
+  // Pass 2: fuzzy matches on the remaining rows
+  const newRows: RawTransaction[] = []
+  const conflicts: ImportConflict[] = []
+
+  for (const tx of unmatched) {
+    const candidates = (byCandidateKey.get(getCandidateKey(tx)) || [])
+      .filter(e => !consumed.has(e) && !hasConflictingIban(e, tx))
+
+    if (candidates.length === 0) {
+      newRows.push(tx)
+      continue
+    }
+
+    const scored = candidates
+      .map(candidate => ({ candidate, similarity: textSimilarity(candidate.description, tx.description) }))
+      .sort((a, b) => b.similarity - a.similarity)
+
+    const best = scored[0]
+    if (best.similarity >= FUZZY_THRESHOLD) {
+      consumed.add(best.candidate)
+      duplicates.push({ incoming: tx, existing: best.candidate, match: 'fuzzy', similarity: best.similarity })
+    } else {
+      conflicts.push({ incoming: tx, candidates })
+    }
+  }
+
+  return { newRows, duplicates, conflicts }
+}
+
+// Tag rows of a file that doesn't name its own account (N26, generic CSVs)
+// An IBAN becomes the reference account, so transfers to it are recognized as double bookings
+export function tagSourceAccount(transactions: RawTransaction[], account: string): RawTransaction[] {
+  const isIban = /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(account.replace(/\s/g, '').toUpperCase())
+
+  return transactions.map(tx => {
+    if (isIban) {
+      return tx.referenceAccount ? tx : { ...tx, referenceAccount: account.replace(/\s/g, '').toUpperCase() }
+    }
+    return tx.referenceAccountName ? tx : { ...tx, referenceAccountName: account }
+  })
+}
+
+// Combine several files into one dataset, dropping rows an earlier file already contained
+// (e.g. an aggregate export next to the bank's own export); conflicts are kept as separate bookings
+export function combineImports(files: RawTransaction[][]): { transactions: RawTransaction[]; duplicates: number[] } {
+  let combined: RawTransaction[] = []
+  const duplicates: number[] = []
+
+  for (const incoming of files) {
+    const analysis = analyzeImport(combined, incoming)
+    combined = mergeImport(combined, analysis, analysis.conflicts.map(c => c.incoming))
+    duplicates.push(analysis.duplicates.length)
+  }
+
+  return { transactions: combined, duplicates }
+}
+
+// Existing rows are kept as-is (so their IDs and edits survive); new rows and accepted conflicts are appended
+export function mergeImport(
+  existing: RawTransaction[],
+  analysis: ImportAnalysis,
+  acceptedConflicts: RawTransaction[] = []
+): RawTransaction[] {
+  const merged = [...existing, ...analysis.newRows, ...acceptedConflicts]
+
+  // Sort by date descending (most recent first), like the parsers do
+  return merged.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+}
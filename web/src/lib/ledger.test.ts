@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { RawTransaction } from '../types'
+import { processTransactions } from './process'
+import { toRawTransactions, toStoredTransactions } from './ledger'
+
+const raw: RawTransaction[] = [
+  {
+    date: '2024-03-01',
+    description: 'Miete März',
+    amount: -800,
+    currency: 'EUR',
+    category: 'Wohnen',
+    subcategory: 'Miete',
+    recipient: 'Erika Mustermann',
+    recipientIban: 'DE02120300000000202051',
+    rawData: { Buchungstext: 'Dauerauftrag' },
+  },
+]
+
+describe('ledger', () => {
+  it('restores the original import from an anonymized ledger', () => {
+    const processed = processTransactions(raw, { anonymize: true, edits: new Map() })
+    expect(processed[0].recipient).not.toBe('Erika Mustermann')
+
+    // Round trip through JSON like the API
+    const stored = JSON.parse(JSON.stringify(toStoredTransactions(processed, raw)))
+    const [restored] = toRawTransactions(stored)
+
+    expect(restored).toMatchObject({
+      amount: -800,
+      category: 'Wohnen',
+      subcategory: 'Miete',
+      recipient: 'Erika Mustermann',
+      recipientIban: 'DE02120300000000202051',
+      rawData: { Buchungstext: 'Dauerauftrag' },
+      sourceId: processed[0].id,
+    })
+  })
+
+  it('rebuilds signed amounts for rows saved without their import', () => {
+    const processed = processTransactions(raw, { anonymize: false, edits: new Map() })
+    const [restored] = toRawTransactions(processed)
+    expect(restored.amount).toBe(-800)
+    expect(restored.sourceId).toBe(processed[0].id)
+  })
+})
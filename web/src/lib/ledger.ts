@@ -0,0 +1,31 @@
+import { RawTransaction, Transaction } from '../types'
+import { generateTransactionIds } from './transaction-id'
+
+// Ledger rows keep the import they came from next to the processed view, so a reload
+// processes the bank's own data again: its category, the unmasked recipient and IBAN,
+// the signed amount. rawData and the ID are the view's, so they aren't stored twice.
+export type StoredRawTransaction = Omit<RawTransaction, 'rawData' | 'sourceId'>
+
+export type StoredTransaction = Transaction & { raw?: StoredRawTransaction }
+
+// Pair processed transactions with the raw transactions they were processed from
+export function toStoredTransactions(processed: Transaction[], raw: RawTransaction[]): StoredTransaction[] {
+  const ids = generateTransactionIds(raw)
+  const rawById = new Map(ids.map((id, index) => [id, raw[index]]))
+
+  return processed.map(tx => {
+    const source = rawById.get(tx.id)
+    if (!source) return tx
+    const { rawData: _rawData, sourceId: _sourceId, ...fields } = source
+    return { ...tx, raw: fields }
+  })
+}
+
+// Raw transactions to reprocess the restored ledger from, keeping their IDs
+// (which may not be derivable from anonymized text)
+export function toRawTransactions(stored: StoredTransaction[]): RawTransaction[] {
+  return stored.map(({ raw, ...tx }) => raw
+    ? { ...raw, rawData: tx.rawData, sourceId: tx.id }
+    // Saved before the import was kept: rebuild the signed amount from the processed view
+    : { ...tx, amount: tx.type === 'expense' ? -tx.amount : tx.amount, sourceId: tx.id })
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { parseCAMT, parseCAMTContent } from './parser'
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Exported by online banking -->
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>2024-03-01</Id>
+      <Acct>
+        <Id><IBAN>DE89370400440532013000</IBAN></Id>
+        <Ccy>EUR</Ccy>
+      </Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">100.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-03-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">75.50</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-03-01</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">24.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-03-01</Dt></BookgDt>
+        <ValDt><Dt>2024-03-01</Dt></ValDt>
+        <AddtlNtryInf>LASTSCHRIFT</AddtlNtryInf>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+            <RltdPties>
+              <Cdtr><Nm>Stadtwerke M&amp;S GmbH</Nm></Cdtr>
+              <CdtrAcct><Id><IBAN>DE02120300000000202051</IBAN></Id></CdtrAcct>
+            </RltdPties>
+            <RmtInf><Ustrd><![CDATA[Strom <März>]]></Ustrd><Ustrd>Kunde 4711</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+describe('parseCAMTContent', () => {
+  it('reads a namespaced statement without DOMParser', () => {
+    const { transactions, statements, diagnostics } = parseCAMTContent(CAMT_053)
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0]).toMatchObject({
+      date: '2024-03-01',
+      description: 'Strom <März> Kunde 4711',
+      amount: -24.5,
+      currency: 'EUR',
+      recipient: 'Stadtwerke M&S GmbH',
+      recipientIban: 'DE02120300000000202051',
+      referenceAccount: 'DE89370400440532013000',
+      endToEndId: undefined,
+    })
+    expect(diagnostics).toEqual([])
+    expect(statements[0]).toMatchObject({
+      id: '2024-03-01',
+      openingBalance: { amount: 100, currency: 'EUR' },
+      closingBalance: { amount: 75.5, currency: 'EUR' },
+      transactionCount: 1,
+    })
+  })
+
+  it('reports balances that do not add up', () => {
+    const { diagnostics } = parseCAMTContent(CAMT_053.replace('75.50', '70.50'))
+
+    expect(diagnostics).toMatchObject([{ kind: 'balance-mismatch', severity: 'warning' }])
+    expect(diagnostics![0].message).toContain('5.00 EUR')
+  })
+
+  it('rejects malformed XML', () => {
+    expect(() => parseCAMTContent('<Document><BkToCstmrStmt></Document>')).toThrow('Invalid XML')
+  })
+})
+
+describe('parseCAMT', () => {
+  it('decodes the encoding named in the XML declaration', async () => {
+    const latin1 = CAMT_053.replace('UTF-8', 'ISO-8859-1')
+    const bytes = Uint8Array.from(latin1, char => char.charCodeAt(0))
+    const { transactions } = await parseCAMT(new File([bytes], 'statement.xml'))
+
+    expect(transactions[0].description).toBe('Strom <März> Kunde 4711')
+  })
+})
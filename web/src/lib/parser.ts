@@ -1,16 +1,44 @@
 import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
-import { RawTransaction } from '../types'
+import { RawTransaction, StatementInfo, StatementBalance, BankProfile, ImportDiagnostic } from '../types'
+import { mapQIFCategory } from './categorizer'
+import { BankFormat, findBankFormat, resolveColumn } from './bank-formats'
 
 // Supported file types
 export const SUPPORTED_FILE_TYPES = {
   csv: ['.csv', 'text/csv', 'application/csv'],
   excel: ['.xlsx', '.xls', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel'],
   ofx: ['.ofx', '.qfx', 'application/x-ofx'],
+  camt: ['.xml', '.camt', 'application/xml', 'text/xml'],
+  mt940: ['.sta', '.mt940', '.940', '.mt942', '.942'],
+  qif: ['.qif', 'application/qif', 'application/x-qif'],
 }
 
 export function getSupportedExtensions(): string {
-  return '.csv, .xlsx, .xls, .ofx, .qfx'
+  return '.csv, .xlsx, .xls, .ofx, .qfx, .xml, .camt, .sta, .mt940, .940, .mt942, .942, .qif'
+}
+
+// Parsed transactions plus statement metadata (balances, period) where the format provides it
+export interface ParseResult {
+  transactions: RawTransaction[]
+  statements: StatementInfo[]
+  format?: string // Detected bank layout (CSV) or bank profile name
+  diagnostics?: ImportDiagnostic[] // Row-level problems (CSV and Excel), balance mismatches (CAMT)
+}
+
+// Options passed through parseFile to the format-specific parsers
+export interface ParseOptions {
+  profile?: BankProfile // Column mapping for CSV layouts we don't recognize
+  sheets?: string[] // Excel sheets to import
+  onProgress?: (fraction: number) => void // Share of rows processed so far (CSV and Excel)
+}
+
+// Headers and first rows of a CSV, shown in the column-mapping wizard
+export interface CSVPreview {
+  headers: string[]
+  rows: Record<string, string>[]
+  bankFormat: string
+  headerSignature: string
 }
 
 export function isFileSupported(file: File): boolean {
@@ -22,169 +50,39 @@ export function isFileSupported(file: File): boolean {
   )
 }
 
-export function getFileType(file: File): 'csv' | 'excel' | 'ofx' | 'unknown' {
+export function getFileType(file: File): 'csv' | 'excel' | 'ofx' | 'camt' | 'mt940' | 'qif' | 'unknown' {
   const ext = '.' + file.name.split('.').pop()?.toLowerCase()
   const type = file.type.toLowerCase()
   
   if (SUPPORTED_FILE_TYPES.csv.some(t => t === ext || t === type)) return 'csv'
   if (SUPPORTED_FILE_TYPES.excel.some(t => t === ext || t === type)) return 'excel'
   if (SUPPORTED_FILE_TYPES.ofx.some(t => t === ext || t === type)) return 'ofx'
+  if (SUPPORTED_FILE_TYPES.camt.some(t => t === ext || t === type)) return 'camt'
+  if (SUPPORTED_FILE_TYPES.mt940.some(t => t === ext || t === type)) return 'mt940'
+  if (SUPPORTED_FILE_TYPES.qif.some(t => t === ext || t === type)) return 'qif'
   
   return 'unknown'
 }
 
-// Finanzguru export columns
-const FINANZGURU_COLUMNS: Record<string, keyof RawTransaction | string> = {
-  'Buchungstag': 'date',
-  'Referenzkonto': 'referenceAccount',
-  'Name Referenzkonto': 'referenceAccountName',
-  'Betrag': 'amount',
-  'Kontostand': 'balance',
-  'Waehrung': 'currency',
-  'Währung': 'currency',
-  'Beguenstigter/Auftraggeber': 'recipient',
-  'Begünstigter/Auftraggeber': 'recipient',
-  'IBAN Beguenstigter/Auftraggeber': 'recipientIban',
-  'IBAN Begünstigter/Auftraggeber': 'recipientIban',
-  'Verwendungszweck': 'description',
-  'Analyse-Hauptkategorie': 'category',
-  'Analyse-Unterkategorie': 'subcategory',
-  'Analyse-Umbuchung': 'isTransfer',
-}
-
-// N26 CSV export columns (both German and English versions)
-const N26_COLUMNS: Record<string, keyof RawTransaction | string> = {
-  // German N26
-  'Datum': 'date',
-  'Empfänger': 'recipient',
-  'Kontonummer': 'recipientIban',
-  'Transaktionstyp': 'category',
-  'Verwendungszweck': 'description',
-  'Betrag (EUR)': 'amount',
-  'Betrag (Fremdwährung)': 'foreignAmount',
-  'Fremdwährung': 'foreignCurrency',
-  'Wechselkurs': 'exchangeRate',
-  // English N26
-  'Date': 'date',
-  'Payee': 'recipient',
-  'Account number': 'recipientIban',
-  'Transaction type': 'category',
-  'Payment reference': 'description',
-  'Amount (EUR)': 'amount',
-  'Amount (Foreign Currency)': 'foreignAmount',
-  'Type Foreign Currency': 'foreignCurrency',
-  'Exchange Rate': 'exchangeRate',
-}
-
-// DKB CSV export columns
-const DKB_COLUMNS: Record<string, keyof RawTransaction | string> = {
-  'Buchungstag': 'date',
-  'Wertstellung': 'valueDate',
-  'Buchungstext': 'category',
-  'Auftraggeber / Begünstigter': 'recipient',
-  'Verwendungszweck': 'description',
-  'Kontonummer': 'recipientIban',
-  'BLZ': 'bankCode',
-  'Betrag (EUR)': 'amount',
-  'Gläubiger-ID': 'creditorId',
-  'Mandatsreferenz': 'mandateRef',
-  'Kundenreferenz': 'customerRef',
-}
-
-// ING-DiBa CSV export columns
-const ING_COLUMNS: Record<string, keyof RawTransaction | string> = {
-  'Buchung': 'date',
-  'Valuta': 'valueDate',
-  'Auftraggeber/Empfänger': 'recipient',
-  'Buchungstext': 'category',
-  'Verwendungszweck': 'description',
-  'Saldo': 'balance',
-  'Währung': 'currency',
-  'Betrag': 'amount',
-}
-
-// Sparkasse/generic German bank columns
-const SPARKASSE_COLUMNS: Record<string, keyof RawTransaction | string> = {
-  'Buchungstag': 'date',
-  'Valutadatum': 'valueDate',
-  'Buchungstext': 'category',
-  'Verwendungszweck': 'description',
-  'Beguenstigter/Zahlungspflichtiger': 'recipient',
-  'Kontonummer': 'recipientIban',
-  'BLZ': 'bankCode',
-  'Betrag': 'amount',
-  'Waehrung': 'currency',
-}
-
-// Generic English column mappings (fallback)
-const ENGLISH_COLUMNS: Record<string, keyof RawTransaction | string> = {
-  'Date': 'date',
-  'Booking Date': 'date',
-  'Transaction Date': 'date',
-  'Value Date': 'valueDate',
-  'Amount': 'amount',
-  'Currency': 'currency',
-  'Description': 'description',
-  'Recipient': 'recipient',
-  'Payee': 'recipient',
-  'IBAN': 'recipientIban',
-  'Category': 'category',
-  'Reference': 'referenceAccount',
-  'Memo': 'description',
-  'Notes': 'description',
-}
-
-// Combine all column mappings (order matters - more specific first)
-const ALL_COLUMN_MAPPINGS = [
-  FINANZGURU_COLUMNS,
-  N26_COLUMNS,
-  DKB_COLUMNS,
-  ING_COLUMNS,
-  SPARKASSE_COLUMNS,
-  ENGLISH_COLUMNS,
-]
-
-function normalizeColumnName(header: string): string {
-  // Try each mapping in order
-  for (const mapping of ALL_COLUMN_MAPPINGS) {
-    if (header in mapping) {
-      return mapping[header] as string
-    }
-  }
-  
-  // Return lowercase version as fallback
-  return header.toLowerCase().replace(/[^a-z0-9]/g, '_')
-}
-
 // Detect which bank format was used
 export function detectBankFormat(headers: string[]): string {
-  const headerSet = new Set(headers)
-  
-  if (headerSet.has('Analyse-Hauptkategorie') || headerSet.has('Name Referenzkonto')) {
-    return 'Finanzguru'
-  }
-  if (headerSet.has('Betrag (EUR)') || headerSet.has('Amount (EUR)')) {
-    return 'N26'
-  }
-  if (headerSet.has('Gläubiger-ID') || headerSet.has('Mandatsreferenz')) {
-    return 'DKB'
-  }
-  if (headerSet.has('Auftraggeber/Empfänger') && headerSet.has('Buchung')) {
-    return 'ING-DiBa'
-  }
-  if (headerSet.has('Beguenstigter/Zahlungspflichtiger')) {
-    return 'Sparkasse'
-  }
-  
-  return 'Generic CSV'
+  return findBankFormat(headers).name
 }
 
-function parseNumber(value: string): number {
+function parseNumber(value: string, format: BankProfile['numberFormat'] = 'auto'): number {
   if (!value) return 0
   
   // Remove quotes and whitespace
   let cleaned = value.replace(/["'\s]/g, '')
   
+  // Format fixed by a bank profile
+  if (format === 'de') {
+    return parseFloat(cleaned.replace(/\./g, '').replace(',', '.').replace(/[^\d.-]/g, '')) || 0
+  }
+  if (format === 'en') {
+    return parseFloat(cleaned.replace(/,/g, '').replace(/[^\d.-]/g, '')) || 0
+  }
+  
   // Detect format by looking at the position of . and ,
   const lastDot = cleaned.lastIndexOf('.')
   const lastComma = cleaned.lastIndexOf(',')
@@ -220,14 +118,27 @@ function parseNumber(value: string): number {
   return parseFloat(cleaned) || 0
 }
 
-function parseDate(value: string): string {
+function parseDate(value: string, format: BankProfile['dateFormat'] = 'auto'): string {
   if (!value) return ''
   
-  // Try German format: DD.MM.YYYY
-  const germanMatch = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/)
+  // Format fixed by a bank profile
+  if (format !== 'auto') {
+    const parts = value.trim().match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})/)
+    if (!parts) return ''
+    const [, first, second, third] = parts
+    const [year, month, day] =
+      format === 'YYYY-MM-DD' ? [first, second, third]
+      : format === 'MM/DD/YYYY' ? [third, first, second]
+      : [third, second, first]
+    const fullYear = year.length === 2 ? `20${year}` : year
+    return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  }
+  
+  // Try German format: DD.MM.YYYY (newer DKB exports use DD.MM.YY)
+  const germanMatch = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})$/)
   if (germanMatch) {
     const [, day, month, year] = germanMatch
-    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+    return `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
   }
   
   // Try ISO format: YYYY-MM-DD
@@ -249,7 +160,8 @@ function parseDate(value: string): string {
     return parsed.toISOString().slice(0, 10)
   }
   
-  return value
+  // Unparseable - callers report the row instead of passing on an invalid date
+  return ''
 }
 
 function parseTransferFlag(value: string): boolean {
@@ -258,164 +170,669 @@ function parseTransferFlag(value: string): boolean {
   return lower === 'ja' || lower === 'yes' || lower === 'true' || lower === '1'
 }
 
+// Decode bytes by BOM, then as UTF-8, falling back to Windows-1252
+// (Sparkasse, Postbank and most MT940 exports are Windows-1252/ISO-8859-1)
+function decodeText(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(buffer)
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(buffer)
+
+  try {
+    // Also strips a UTF-8 BOM
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+// Headers identify a CSV layout; case and surrounding whitespace don't matter
+export function getHeaderSignature(headers: string[]): string {
+  return headers.map(h => h.trim().toLowerCase()).join('|')
+}
+
 // Main entry point - detects file type and parses accordingly
-export async function parseFile(file: File): Promise<RawTransaction[]> {
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<RawTransaction[]> {
   const fileType = getFileType(file)
   
   switch (fileType) {
     case 'csv':
-      return parseCSV(file)
+      return (await parseCSV(file, options.profile)).transactions
     case 'excel':
-      return parseExcel(file)
+      return (await parseExcel(file, options.sheets)).transactions
     case 'ofx':
-      return parseOFX(file)
+      return (await parseOFX(file)).transactions
+    case 'camt':
+      return (await parseCAMT(file)).transactions
+    case 'mt940':
+      return (await parseMT940(file)).transactions
+    case 'qif':
+      return (await parseQIF(file)).transactions
     default:
       throw new Error(`Unsupported file type: ${file.name}. Supported formats: ${getSupportedExtensions()}`)
   }
 }
 
-// Parse CSV files
-export async function parseCSV(file: File): Promise<RawTransaction[]> {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      encoding: 'UTF-8',
-      complete: (results) => {
-        if (results.errors.length > 0) {
-          console.warn('CSV parsing warnings:', results.errors)
-        }
-
-        const transactions = processRows(
-          results.data as Record<string, string>[],
-          results.meta.fields || []
-        )
-        resolve(transactions)
-      },
-      error: (error) => {
-        reject(new Error(`Failed to parse CSV: ${error.message}`))
+// Like parseFile, but also returns statement metadata for formats that carry it
+export async function parseFileWithMetadata(file: File, options: ParseOptions = {}): Promise<ParseResult> {
+  switch (getFileType(file)) {
+    case 'csv':
+      return parseCSV(file, options.profile, options.onProgress)
+    case 'excel':
+      return parseExcel(file, options.sheets, options.onProgress)
+    case 'ofx':
+      return parseOFX(file)
+    case 'camt':
+      return parseCAMT(file)
+    case 'mt940':
+      return parseMT940(file)
+    case 'qif':
+      return parseQIF(file)
+    default:
+      return { transactions: await parseFile(file, options), statements: [] }
+  }
+}
+
+// ============ CSV sniffing (encoding, delimiter, header row, preamble) ============
+
+const CSV_DELIMITERS = [';', ',', '\t', '|']
+const SNIFF_LINES = 50
+
+// Where the real table starts and how it is separated
+export interface CSVLayout {
+  delimiter: string
+  headerRow: number // Index of the header line; lines before it are preamble
+  preamble: string[][]
+}
+
+// Split one line into cells, respecting quoted cells ("a;b" stays one cell)
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
       }
-    })
+    } else if (ch === delimiter && !inQuotes) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+// Pick the delimiter and header row from the first lines of the file
+// The transaction table is the widest block of lines with the same cell count;
+// DKB/Comdirect metadata lines above it only have one or two cells
+export function sniffCSVLayout(text: string): CSVLayout {
+  const lines = text.split(/\r?\n/).slice(0, SNIFF_LINES)
+  let best = { delimiter: ',', cellCount: 0, score: 0 }
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const occurrences = new Map<number, number>()
+    for (const line of lines) {
+      if (!line.trim()) continue
+      const cellCount = splitCSVLine(line, delimiter).length
+      if (cellCount < 2) continue
+      occurrences.set(cellCount, (occurrences.get(cellCount) || 0) + 1)
+    }
+
+    for (const [cellCount, count] of occurrences) {
+      const score = cellCount * count
+      if (score > best.score) {
+        best = { delimiter, cellCount, score }
+      }
+    }
+  }
+
+  const headerRow = Math.max(
+    0,
+    lines.findIndex(line => line.trim() && splitCSVLine(line, best.delimiter).length === best.cellCount)
+  )
+
+  return {
+    delimiter: best.delimiter,
+    headerRow,
+    preamble: lines
+      .slice(0, headerRow)
+      .filter(line => line.trim())
+      .map(line => splitCSVLine(line, best.delimiter).filter(cell => cell !== '')),
+  }
+}
+
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/
+const DATE_PATTERN = /\d{1,2}\.\d{1,2}\.\d{4}|\d{4}-\d{2}-\d{2}/g
+
+// Read account, statement period and balances from the lines above the header
+// Covers e.g. DKB ("Konto:", "Von:", "Bis:", "Kontostand vom 31.01.2024:") and Comdirect ("Neuer Kontostand")
+export function extractPreambleMetadata(preamble: string[][]): Omit<StatementInfo, 'transactionCount'> {
+  const info: Omit<StatementInfo, 'transactionCount'> = {}
+
+  for (const cells of preamble) {
+    const label = (cells[0] || '').replace(/:$/, '').trim()
+    const lower = label.toLowerCase()
+    const value = cells.slice(1).join(' ')
+    const line = cells.join(' ')
+
+    const iban = line.match(IBAN_PATTERN)
+    if (iban && !info.account) {
+      info.account = iban[0].replace(/\s/g, '')
+      // "Girokonto";"DE12..." or "Konto:";"DE12... / Girokonto"
+      const name = cells
+        .map(cell => cell.replace(IBAN_PATTERN, '').replace(/^[\s/:-]+|[\s/:-]+$/g, ''))
+        .find(cell => cell && !/^(konto(nummer)?|iban|account)$/i.test(cell.replace(/:$/, '')))
+      if (name) info.accountName = name
+      continue
+    }
+
+    const dates = (value.match(DATE_PATTERN) || []).map(d => parseDate(d))
+
+    if (/^(von|from|start)$/.test(lower) && dates[0]) {
+      info.periodStart = dates[0]
+    } else if (/^(bis|to|end)$/.test(lower) && dates[0]) {
+      info.periodEnd = dates[0]
+    } else if (/zeitraum|period/.test(lower) && dates.length >= 2) {
+      info.periodStart = dates[0]
+      info.periodEnd = dates[1]
+    } else if (/kontostand|saldo|balance/.test(lower) && /\d/.test(value)) {
+      const labelDate = (label.match(DATE_PATTERN) || []).map(d => parseDate(d))[0]
+      const currency = /\$|usd/i.test(value) ? 'USD' : /£|gbp/i.test(value) ? 'GBP' : /chf/i.test(value) ? 'CHF' : 'EUR'
+      const isOpening = /alt|anfang|opening|start/.test(lower)
+      const balance: StatementBalance = {
+        date: labelDate || (isOpening ? info.periodStart : info.periodEnd) || '',
+        amount: parseNumber(value.replace(/[^\d.,-]/g, '')),
+        currency,
+      }
+      if (isOpening) {
+        info.openingBalance = balance
+      } else {
+        info.closingBalance = balance
+      }
+      info.currency = info.currency || currency
+    }
+  }
+
+  return info
+}
+
+async function readFileAsText(file: File): Promise<string> {
+  try {
+    return decodeText(await file.arrayBuffer())
+  } catch {
+    throw new Error(`Failed to read ${file.name}`)
+  }
+}
+
+// Parse the table part of a sniffed CSV
+function parseCSVTable(text: string, layout: CSVLayout, preview = 0): Papa.ParseResult<Record<string, string>> {
+  const table = text.split(/\r?\n/).slice(layout.headerRow).join('\n')
+  return Papa.parse<Record<string, string>>(table, {
+    header: true,
+    skipEmptyLines: true,
+    delimiter: layout.delimiter,
+    preview,
+    transformHeader: header => header.trim(),
   })
 }
 
-// Parse Excel files (.xlsx, .xls)
-export async function parseExcel(file: File): Promise<RawTransaction[]> {
+// Read headers and the first rows of a CSV without parsing the whole table
+export async function previewCSV(file: File, rowCount = 5): Promise<CSVPreview> {
+  const text = await readFileAsText(file)
+  const layout = sniffCSVLayout(text)
+  const results = parseCSVTable(text, layout, rowCount)
+  const headers = results.meta.fields || []
+
+  return {
+    headers,
+    rows: results.data,
+    bankFormat: detectBankFormat(headers),
+    headerSignature: getHeaderSignature(headers),
+  }
+}
+
+// Parse CSV files (with a bank profile, its column mapping replaces header detection)
+// Encoding, delimiter and metadata lines above the header are detected automatically
+export async function parseCSV(
+  file: File,
+  profile?: BankProfile,
+  onProgress?: ParseOptions['onProgress']
+): Promise<ParseResult> {
+  const text = await readFileAsText(file)
+  const layout = sniffCSVLayout(text)
+  const results = parseCSVTable(text, layout)
+
+  if (results.errors.length > 0) {
+    console.warn('CSV parsing warnings:', results.errors)
+  }
+
+  const headers = results.meta.fields || []
+  const { transactions, diagnostics } = processRows(results.data, headers, { profile, onProgress })
+  const format = profile ? profile.name : detectBankFormat(headers)
+  if (layout.preamble.length === 0) {
+    return { transactions, statements: [], format, diagnostics }
+  }
+
+  // Preamble metadata describes the whole file - attribute rows to its account
+  const metadata = extractPreambleMetadata(layout.preamble)
+  if (metadata.account) {
+    for (const tx of transactions) {
+      tx.referenceAccount = tx.referenceAccount || metadata.account
+      tx.referenceAccountName = tx.referenceAccountName || metadata.accountName
+    }
+  }
+
+  return {
+    transactions,
+    statements: [{ ...metadata, transactionCount: transactions.length }],
+    format,
+    diagnostics,
+  }
+}
+
+// ============ Excel (.xlsx, .xls) ============
+
+// Sheet overview for the sheet picker
+export interface ExcelSheetInfo {
+  name: string
+  headerRow: number
+  headers: string[]
+  rowCount: number // Data rows below the header
+  bankFormat: string
+}
+
+function readWorkbook(file: File): Promise<XLSX.WorkBook> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
-    
+
     reader.onload = (e) => {
       try {
-        const data = e.target?.result
-        const workbook = XLSX.read(data, { type: 'array', cellDates: true })
-        
-        // Use the first sheet
-        const sheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[sheetName]
-        
-        // Convert to JSON with headers (header: 1 returns array of arrays)
-        const rows = XLSX.utils.sheet_to_json(worksheet, { 
-          header: 1,
-          raw: false,
-          dateNF: 'yyyy-mm-dd'
-        }) as unknown[][]
-        
-        if (rows.length < 2) {
-          resolve([])
-          return
-        }
-        
-        // First row is headers
-        const headers = (rows[0] as string[]).map(h => String(h || '').trim())
-        
-        // Convert remaining rows to objects
-        const dataRows: Record<string, string>[] = []
-        for (let i = 1; i < rows.length; i++) {
-          const row = rows[i] as unknown[]
-          const obj: Record<string, string> = {}
-          headers.forEach((header, index) => {
-            const value = row[index]
-            obj[header] = value != null ? String(value) : ''
-          })
-          dataRows.push(obj)
-        }
-        
-        const transactions = processRows(dataRows, headers)
-        resolve(transactions)
+        resolve(XLSX.read(e.target?.result, { type: 'array', cellDates: true }))
       } catch (error) {
         reject(new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`))
       }
     }
-    
+
     reader.onerror = () => {
       reject(new Error('Failed to read Excel file'))
     }
-    
+
     reader.readAsArrayBuffer(file)
   })
 }
 
+// Copy the value of merged cells into every cell of the merged range
+function fillMergedCells(rows: unknown[][], worksheet: XLSX.WorkSheet): void {
+  for (const merge of worksheet['!merges'] || []) {
+    const value = rows[merge.s.r]?.[merge.s.c]
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      if (!rows[r]) rows[r] = []
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        rows[r][c] = value
+      }
+    }
+  }
+}
+
+function isTextCell(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() !== '' && !/^[-+]?[\d.,\s€$%]+$/.test(value.trim())
+}
+
+function countFilled(row: unknown[] | undefined): number {
+  return (row || []).filter(v => v != null && String(v).trim() !== '').length
+}
+
+// The header is the first row made of text labels that is about as wide as the table below it;
+// title blocks and "Konto: ..." metadata rows above it are narrower
+function detectSheetHeaderRow(typedRows: unknown[][]): number {
+  const sample = typedRows.slice(0, 50)
+  const widest = Math.max(0, ...sample.map(countFilled))
+
+  const index = sample.findIndex(row => {
+    const filled = (row || []).filter(v => v != null && String(v).trim() !== '')
+    return filled.length >= 2 && filled.length >= widest * 0.6 && filled.every(isTextCell)
+  })
+  return Math.max(0, index)
+}
+
+// Headers from the header row; a second header row (sub-labels under merged group cells) is appended
+function buildSheetHeaders(typedRows: unknown[][], headerRow: number): { headers: string[]; dataStart: number } {
+  const header = typedRows[headerRow] || []
+  const next = typedRows[headerRow + 1] || []
+  const width = Math.max(header.length, next.length)
+  const isSubHeader = countFilled(next) >= 2 && next.every(v => v == null || String(v).trim() === '' || isTextCell(v)) &&
+    header.some((v, i) => v != null && v === header[i + 1])
+
+  const headers: string[] = []
+  const seen = new Map<string, number>()
+  for (let i = 0; i < width; i++) {
+    const top = String(header[i] ?? '').trim()
+    const sub = isSubHeader ? String(next[i] ?? '').trim() : ''
+    let name = sub && sub !== top ? (top ? `${top} ${sub}` : sub) : top
+
+    // Keep duplicate labels apart so no column overwrites another
+    const count = (seen.get(name) || 0) + 1
+    seen.set(name, count)
+    if (count > 1) name = `${name} ${count}`
+    headers.push(name)
+  }
+
+  return { headers, dataStart: headerRow + (isSubHeader ? 2 : 1) }
+}
+
+function readSheet(worksheet: XLSX.WorkSheet): { headers: string[]; headerRow: number; rows: Record<string, string>[] } {
+  // Typed values (numbers, dates) find the header; formatted values feed the row parser
+  const typedRows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: true, blankrows: true }) as unknown[][]
+  const rows = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    raw: false,
+    blankrows: true,
+    dateNF: 'yyyy-mm-dd'
+  }) as unknown[][]
+  fillMergedCells(typedRows, worksheet)
+  fillMergedCells(rows, worksheet)
+
+  const headerRow = detectSheetHeaderRow(typedRows)
+  const { headers, dataStart } = buildSheetHeaders(typedRows, headerRow)
+
+  const dataRows: Record<string, string>[] = []
+  for (let i = dataStart; i < rows.length; i++) {
+    const row = rows[i] || []
+    if (countFilled(row) === 0) continue
+    const obj: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      const value = row[index]
+      obj[header] = value != null ? String(value) : ''
+    })
+    dataRows.push(obj)
+  }
+
+  return { headers, headerRow, rows: dataRows }
+}
+
+// List the sheets of a workbook with their detected header and row counts
+export async function listExcelSheets(file: File): Promise<ExcelSheetInfo[]> {
+  const workbook = await readWorkbook(file)
+
+  return workbook.SheetNames.map(name => {
+    const { headers, headerRow, rows } = readSheet(workbook.Sheets[name])
+    return {
+      name,
+      headerRow,
+      headers,
+      rowCount: rows.length,
+      bankFormat: detectBankFormat(headers),
+    }
+  })
+}
+
+// Parse Excel files (.xlsx, .xls); each selected sheet gets its own header and format detection
+// Without a selection the first sheet that yields transactions is used
+export async function parseExcel(
+  file: File,
+  sheetNames?: string[],
+  onProgress?: ParseOptions['onProgress']
+): Promise<ParseResult> {
+  const workbook = await readWorkbook(file)
+  const transactions: RawTransaction[] = []
+  const diagnostics: ImportDiagnostic[] = []
+  const formats = new Set<string>()
+  const names = sheetNames?.length ? sheetNames : workbook.SheetNames
+
+  for (const [index, name] of names.entries()) {
+    if (!workbook.Sheets[name]) continue
+    const { headers, rows } = readSheet(workbook.Sheets[name])
+    const { transactions: sheetTransactions, diagnostics: sheetDiagnostics } = processRows(rows, headers, {
+      spreadsheet: true,
+      onProgress: onProgress && (fraction => onProgress((index + fraction) / names.length)),
+    })
+    if (!sheetNames?.length && sheetTransactions.length === 0) continue
+
+    for (const diagnostic of sheetDiagnostics) {
+      diagnostic.message = `${name}: ${diagnostic.message}`
+    }
+    diagnostics.push(...sheetDiagnostics)
+    for (const tx of sheetTransactions) {
+      tx.rawData = { ...tx.rawData, Sheet: name }
+    }
+    transactions.push(...sheetTransactions)
+    formats.add(detectBankFormat(headers))
+
+    // Without a selection, stop after the first sheet with transactions
+    if (!sheetNames?.length) break
+  }
+
+  // Sort by date descending (most recent first)
+  transactions.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+
+  return { transactions, statements: [], format: [...formats].join(', ') || undefined, diagnostics }
+}
+
+// ============ OFX / QFX (Open Financial Exchange 1.x SGML and 2.x XML) ============
+
+interface OFXNode {
+  name: string
+  value?: string
+  children: OFXNode[]
+}
+
+function decodeOFXEntities(text: string): string {
+  return text
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+}
+
+// Build an element tree from the OFX body
+// Aggregates are always closed; SGML leaf elements (<NAME>value) are not, so a tag
+// only opens a scope if its name appears as a closing tag somewhere and it carries no value
+function parseOFXTree(body: string): OFXNode {
+  const closedNames = new Set(
+    [...body.matchAll(/<\/([A-Za-z0-9._]+)\s*>/g)].map(m => m[1].toUpperCase())
+  )
+
+  const root: OFXNode = { name: '#root', children: [] }
+  const stack: OFXNode[] = [root]
+
+  for (const [, closing, rawName, rawText] of body.matchAll(/<(\/?)([A-Za-z0-9._]+)[^>]*>([^<]*)/g)) {
+    const name = rawName.toUpperCase()
+
+    if (closing) {
+      // Closes the innermost open aggregate with this name (leaf close tags are ignored)
+      const index = stack.map(node => node.name).lastIndexOf(name)
+      if (index > 0) stack.length = index
+      continue
+    }
+
+    const text = decodeOFXEntities(rawText.trim())
+    const node: OFXNode = { name, children: [] }
+    stack[stack.length - 1].children.push(node)
+
+    if (text) {
+      node.value = text
+    } else if (closedNames.has(name)) {
+      stack.push(node)
+    }
+  }
+
+  return root
+}
+
+function ofxChild(node: OFXNode | undefined, name: string): OFXNode | undefined {
+  return node?.children.find(child => child.name === name)
+}
+
+// Follow a path of direct children, e.g. 'BANKACCTFROM/ACCTID'
+function ofxValue(node: OFXNode | undefined, path: string): string {
+  const target = path.split('/').reduce<OFXNode | undefined>((n, name) => ofxChild(n, name), node)
+  return target?.value || ''
+}
+
+function ofxFindAll(node: OFXNode, name: string): OFXNode[] {
+  const found: OFXNode[] = []
+  for (const child of node.children) {
+    if (child.name === name) found.push(child)
+    found.push(...ofxFindAll(child, name))
+  }
+  return found
+}
+
+// OFX dates: YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]
+function ofxDate(value: string): string {
+  return value.length >= 8 ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : ''
+}
+
+function ofxAmount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0
+}
+
+function ofxBalance(node: OFXNode | undefined, currency: string): StatementBalance | undefined {
+  if (!node) return undefined
+  return {
+    date: ofxDate(ofxValue(node, 'DTASOF')),
+    amount: ofxAmount(ofxValue(node, 'BALAMT')),
+    currency,
+  }
+}
+
+// Parse one <STMTTRN> into a transaction attributed to the statement's account
+// <CURRENCY>: TRNAMT is in that currency instead of CURDEF
+// <ORIGCURRENCY>: TRNAMT is in CURDEF, converted from a payment in that currency
+function parseOFXTransaction(trn: OFXNode, account: string, accountName: string, defaultCurrency: string): RawTransaction {
+  const foreign = ofxChild(trn, 'CURRENCY')
+  const original = ofxChild(trn, 'ORIGCURRENCY')
+  const currencyNode = foreign || original
+  const amount = ofxAmount(ofxValue(trn, 'TRNAMT'))
+  // CURRATE: units of CURDEF per unit of the original currency
+  const originalRate = ofxAmount(ofxValue(original, 'CURRATE'))
+  const name = ofxValue(trn, 'NAME') || ofxValue(trn, 'PAYEE/NAME') || ofxValue(trn, 'EXTDNAME')
+  const memo = ofxValue(trn, 'MEMO')
+  const type = ofxValue(trn, 'TRNTYPE')
+
+  const rawData: Record<string, string> = {
+    TRNTYPE: type,
+    DTPOSTED: ofxValue(trn, 'DTPOSTED'),
+    DTUSER: ofxValue(trn, 'DTUSER'),
+    TRNAMT: ofxValue(trn, 'TRNAMT'),
+    FITID: ofxValue(trn, 'FITID'),
+    SRVRTID: ofxValue(trn, 'SRVRTID'),
+    CHECKNUM: ofxValue(trn, 'CHECKNUM'),
+    REFNUM: ofxValue(trn, 'REFNUM'),
+    SIC: ofxValue(trn, 'SIC'),
+    PAYEEID: ofxValue(trn, 'PAYEEID'),
+    NAME: name,
+    MEMO: memo,
+    CURRATE: ofxValue(currencyNode, 'CURRATE'),
+  }
+
+  return {
+    date: ofxDate(ofxValue(trn, 'DTPOSTED') || ofxValue(trn, 'DTUSER')),
+    description: memo || name || type,
+    amount,
+    currency: ofxValue(foreign, 'CURSYM') || defaultCurrency,
+    originalCurrency: ofxValue(original, 'CURSYM') || undefined,
+    originalAmount: originalRate ? Math.round(Math.abs(amount) / originalRate * 100) / 100 : undefined,
+    exchangeRate: originalRate || undefined,
+    recipient: name || undefined,
+    recipientIban: ofxValue(trn, 'BANKACCTTO/ACCTID') || ofxValue(trn, 'CCACCTTO/ACCTID') || undefined,
+    referenceAccount: account || undefined,
+    referenceAccountName: accountName || undefined,
+    category: type || undefined,
+    rawData: Object.fromEntries(Object.entries(rawData).filter(([, v]) => v)),
+  }
+}
+
+export function parseOFXContent(content: string): ParseResult {
+  // Skip the header block (1.x "KEY:VALUE" lines or 2.x <?xml?>/<?OFX?> declarations)
+  const start = content.search(/<OFX>/i)
+  if (start === -1) {
+    throw new Error('Missing <OFX> element')
+  }
+
+  const tree = parseOFXTree(content.slice(start))
+  const transactions: RawTransaction[] = []
+  const statements: StatementInfo[] = []
+
+  // Bank statements (<STMTRS>) and credit card statements (<CCSTMTRS>), possibly several accounts
+  const statementNodes = [...ofxFindAll(tree, 'STMTRS'), ...ofxFindAll(tree, 'CCSTMTRS')]
+
+  for (const statement of statementNodes) {
+    const currency = ofxValue(statement, 'CURDEF') || 'EUR'
+    const accountFrom = ofxChild(statement, 'BANKACCTFROM') || ofxChild(statement, 'CCACCTFROM')
+    const account = ofxValue(accountFrom, 'ACCTID')
+    const accountType = ofxValue(accountFrom, 'ACCTTYPE') || (statement.name === 'CCSTMTRS' ? 'CREDITCARD' : '')
+    const bankId = ofxValue(accountFrom, 'BANKID')
+    const accountName = [bankId, accountType].filter(Boolean).join(' ')
+    const tranList = ofxChild(statement, 'BANKTRANLIST')
+
+    // FITIDs are unique per account: drop repeats, apply corrections (CORRECTFITID + CORRECTACTION)
+    const byFitId = new Map<string, RawTransaction>()
+    const withoutFitId: RawTransaction[] = []
+
+    for (const trn of tranList?.children.filter(c => c.name === 'STMTTRN') || []) {
+      const correctFitId = ofxValue(trn, 'CORRECTFITID')
+      const correctAction = ofxValue(trn, 'CORRECTACTION')
+      if (correctFitId && correctAction === 'DELETE') {
+        byFitId.delete(correctFitId)
+        continue
+      }
+      if (correctFitId && correctAction === 'REPLACE') {
+        byFitId.delete(correctFitId)
+      }
+
+      const tx = parseOFXTransaction(trn, account, accountName, currency)
+      if (!tx.date || tx.amount === 0) continue
+
+      const fitId = tx.rawData.FITID
+      if (!fitId) {
+        withoutFitId.push(tx)
+      } else if (!byFitId.has(fitId)) {
+        byFitId.set(fitId, tx)
+      }
+    }
+
+    const statementTransactions = [...byFitId.values(), ...withoutFitId]
+
+    statements.push({
+      account: account || undefined,
+      accountName: accountName || undefined,
+      currency,
+      periodStart: ofxDate(ofxValue(tranList, 'DTSTART')) || undefined,
+      periodEnd: ofxDate(ofxValue(tranList, 'DTEND')) || undefined,
+      closingBalance: ofxBalance(ofxChild(statement, 'LEDGERBAL'), currency),
+      availableBalance: ofxBalance(ofxChild(statement, 'AVAILBAL'), currency),
+      transactionCount: statementTransactions.length,
+    })
+    transactions.push(...statementTransactions)
+  }
+
+  // Sort by date descending
+  transactions.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+
+  return { transactions, statements }
+}
+
 // Parse OFX/QFX files (Open Financial Exchange)
-export async function parseOFX(file: File): Promise<RawTransaction[]> {
+export async function parseOFX(file: File): Promise<ParseResult> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     
     reader.onload = (e) => {
       try {
-        const content = e.target?.result as string
-        const transactions: RawTransaction[] = []
-        
-        // Simple OFX parser - extract transactions between <STMTTRN> tags
-        const txRegex = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi
-        const matches = content.matchAll(txRegex)
-        
-        for (const match of matches) {
-          const txContent = match[1]
-          
-          // Extract fields
-          const getField = (name: string): string => {
-            const regex = new RegExp(`<${name}>([^<\\n]+)`, 'i')
-            const fieldMatch = txContent.match(regex)
-            return fieldMatch ? fieldMatch[1].trim() : ''
-          }
-          
-          const dateStr = getField('DTPOSTED')
-          const amount = parseFloat(getField('TRNAMT')) || 0
-          const name = getField('NAME')
-          const memo = getField('MEMO')
-          const type = getField('TRNTYPE')
-          
-          // Parse OFX date format: YYYYMMDD or YYYYMMDDHHMMSS
-          let date = ''
-          if (dateStr.length >= 8) {
-            date = `${dateStr.slice(0, 4)}-${dateStr.slice(4, 6)}-${dateStr.slice(6, 8)}`
-          }
-          
-          if (date && amount !== 0) {
-            transactions.push({
-              date,
-              description: memo || name || type,
-              amount,
-              currency: getField('CURRENCY') || 'EUR',
-              recipient: name,
-              category: type,
-              rawData: { 
-                DTPOSTED: dateStr, 
-                TRNAMT: String(amount), 
-                NAME: name, 
-                MEMO: memo,
-                TRNTYPE: type 
-              },
-            })
-          }
-        }
-        
-        // Sort by date descending
-        transactions.sort((a, b) => 
-          new Date(b.date).getTime() - new Date(a.date).getTime()
-        )
-        
-        resolve(transactions)
+        resolve(parseOFXContent(decodeText(e.target?.result as ArrayBuffer)))
       } catch (error) {
         reject(new Error(`Failed to parse OFX file: ${error instanceof Error ? error.message : 'Unknown error'}`))
       }
@@ -425,37 +842,942 @@ export async function parseOFX(file: File): Promise<RawTransaction[]> {
       reject(new Error('Failed to read OFX file'))
     }
     
-    reader.readAsText(file)
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+// ============ CAMT.052 / CAMT.053 (ISO 20022 XML) ============
+
+// Element tree read without DOMParser, which workers don't have (see parseOFXTree for OFX)
+interface XMLNode {
+  name: string // Local name: namespace prefixes are dropped, like the camt namespace/version
+  attributes: Record<string, string>
+  text: string // Own text content, trimmed
+  children: XMLNode[]
+}
+
+function decodeXMLEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase()
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16))
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10))
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[lower] ?? entity
   })
 }
 
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1)
+}
+
+// Comments, processing instructions and the doctype are skipped; CDATA counts as text
+function parseXMLTree(content: string): XMLNode {
+  const root: XMLNode = { name: '#document', attributes: {}, text: '', children: [] }
+  const stack: XMLNode[] = [root]
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)|</g
+
+  for (const [match, cdata, closing, rawName, rawAttributes, selfClosing, text] of content.matchAll(token)) {
+    const current = stack[stack.length - 1]
+    if (text !== undefined || cdata !== undefined) {
+      current.text += text !== undefined ? decodeXMLEntities(text) : cdata
+      continue
+    }
+    if (match === '<') throw new Error('Invalid XML')
+    if (!rawName) continue
+
+    const name = localName(rawName)
+    if (closing) {
+      if (current.name !== name || stack.length === 1) throw new Error('Invalid XML')
+      current.text = current.text.trim()
+      stack.pop()
+      continue
+    }
+
+    const attributes: Record<string, string> = {}
+    for (const [, key, , value] of rawAttributes.matchAll(/([^\s=]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+      attributes[localName(key)] = decodeXMLEntities(value)
+    }
+    const node: XMLNode = { name, attributes, text: '', children: [] }
+    current.children.push(node)
+    if (!selfClosing) stack.push(node)
+  }
+
+  if (stack.length > 1 || root.children.length !== 1) throw new Error('Invalid XML')
+  return root.children[0]
+}
+
+function xmlChild(el: XMLNode | undefined, name: string): XMLNode | undefined {
+  return el?.children.find(child => child.name === name)
+}
+
+function xmlChildren(el: XMLNode | undefined, name: string): XMLNode[] {
+  return el ? el.children.filter(child => child.name === name) : []
+}
+
+// Follow a path of direct children, e.g. 'RltdPties/Cdtr/Nm'
+function xmlPath(el: XMLNode | undefined, path: string): XMLNode | undefined {
+  return path.split('/').reduce<XMLNode | undefined>((node, name) => xmlChild(node, name), el)
+}
+
+function xmlText(el: XMLNode | undefined, path: string): string {
+  return xmlPath(el, path)?.text || ''
+}
+
+// CAMT dates are either <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+function camtDate(el: XMLNode | undefined, path: string): string {
+  const node = xmlPath(el, path)
+  return (xmlText(node, 'Dt') || xmlText(node, 'DtTm') || node?.text || '').slice(0, 10)
+}
+
+// Party names moved from <Cdtr><Nm> (v02) to <Cdtr><Pty><Nm> (v08+)
+function camtPartyName(parties: XMLNode | undefined, role: string): string {
+  return xmlText(parties, `${role}/Nm`) || xmlText(parties, `${role}/Pty/Nm`)
+}
+
+function camtAccountId(el: XMLNode | undefined): string {
+  return xmlText(el, 'Id/IBAN') || xmlText(el, 'Id/Othr/Id')
+}
+
+function camtAmount(el: XMLNode | undefined, indicator?: string): { amount: number; currency: string } {
+  const amountEl = xmlChild(el, 'Amt')
+  const value = parseFloat(amountEl?.text || '') || 0
+  const sign = (indicator || xmlText(el, 'CdtDbtInd')) === 'DBIT' ? -1 : 1
+  return {
+    amount: sign * value,
+    currency: amountEl?.attributes.Ccy || 'EUR',
+  }
+}
+
+function camtBalance(statement: XMLNode, codes: string[]): StatementBalance | undefined {
+  for (const bal of xmlChildren(statement, 'Bal')) {
+    const code = xmlText(bal, 'Tp/CdOrPrtry/Cd') || xmlText(bal, 'Tp/CdOrPrtry/Prtry')
+    if (codes.includes(code)) {
+      const { amount, currency } = camtAmount(bal)
+      return { date: camtDate(bal, 'Dt'), amount, currency }
+    }
+  }
+  return undefined
+}
+
+// Parse one <Ntry>; batch bookings with several <TxDtls> become one transaction each
+function parseCAMTEntry(entry: XMLNode, account: string, accountName: string, statementId: string): RawTransaction[] {
+  const status = xmlText(entry, 'Sts/Cd') || xmlText(entry, 'Sts')
+  const entryIndicator = xmlText(entry, 'CdtDbtInd')
+  const entryAmount = camtAmount(entry)
+  const bookingDate = camtDate(entry, 'BookgDt')
+  const valueDate = camtDate(entry, 'ValDt')
+  const bookingText = xmlText(entry, 'AddtlNtryInf')
+
+  const details = xmlChildren(xmlChild(entry, 'NtryDtls'), 'TxDtls')
+  const detailList: Array<XMLNode | undefined> = details.length > 0 ? details : [undefined]
+
+  return detailList.map(tx => {
+    const indicator = xmlText(tx, 'CdtDbtInd') || entryIndicator
+    const txAmount = details.length > 1
+      ? camtAmount(xmlChild(tx, 'Amt') ? tx : xmlPath(tx, 'AmtDtls/TxAmt'), indicator)
+      : entryAmount
+
+    // Card payments abroad carry the instructed amount in the original currency
+    const instructed = xmlPath(tx, 'AmtDtls/InstdAmt')
+    const original = instructed ? camtAmount(instructed) : undefined
+    const isForeign = !!original && original.currency !== txAmount.currency
+
+    const parties = xmlChild(tx, 'RltdPties')
+    const isDebit = indicator === 'DBIT'
+    const counterpartyRole = isDebit ? 'Cdtr' : 'Dbtr'
+    const counterparty = camtPartyName(parties, counterpartyRole)
+    const counterpartyIban = camtAccountId(xmlChild(parties, `${counterpartyRole}Acct`))
+
+    const remittance = xmlChildren(xmlChild(tx, 'RmtInf'), 'Ustrd')
+      .map(el => el.text)
+      .filter(Boolean)
+      .join(' ')
+
+    const rawData: Record<string, string> = {
+      StatementId: statementId,
+      Status: status,
+      BookingDate: bookingDate,
+      ValueDate: valueDate,
+      BookingText: bookingText,
+      BankTransactionCode: xmlText(entry, 'BkTxCd/Domn/Cd')
+        ? `${xmlText(entry, 'BkTxCd/Domn/Cd')}/${xmlText(entry, 'BkTxCd/Domn/Fmly/Cd')}/${xmlText(entry, 'BkTxCd/Domn/Fmly/SubFmlyCd')}`
+        : xmlText(entry, 'BkTxCd/Prtry/Cd'),
+      AccountServicerRef: xmlText(tx, 'Refs/AcctSvcrRef') || xmlText(entry, 'AcctSvcrRef'),
+      EndToEndId: xmlText(tx, 'Refs/EndToEndId'),
+      MandateId: xmlText(tx, 'Refs/MndtId'),
+      CreditorId: camtCreditorId(tx),
+      UltimateCreditor: camtPartyName(parties, 'UltmtCdtr'),
+      UltimateDebtor: camtPartyName(parties, 'UltmtDbtr'),
+      Purpose: xmlText(tx, 'Purp/Cd'),
+    }
+
+    return {
+      date: bookingDate || valueDate,
+      description: remittance || xmlText(tx, 'AddtlTxInf') || bookingText,
+      amount: txAmount.amount,
+      currency: txAmount.currency,
+      category: bookingText || undefined,
+      recipient: counterparty || rawData.UltimateCreditor || undefined,
+      recipientIban: counterpartyIban || undefined,
+      referenceAccount: account || undefined,
+      referenceAccountName: accountName || undefined,
+      valueDate: valueDate || undefined,
+      creditorId: rawData.CreditorId || undefined,
+      mandateRef: rawData.MandateId || undefined,
+      endToEndId: rawData.EndToEndId && rawData.EndToEndId !== 'NOTPROVIDED' ? rawData.EndToEndId : undefined,
+      originalAmount: isForeign ? Math.abs(original.amount) : undefined,
+      originalCurrency: isForeign ? original.currency : undefined,
+      exchangeRate: isForeign ? parseFloat(xmlText(instructed, 'CcyXchg/XchgRate')) || undefined : undefined,
+      rawData: Object.fromEntries(Object.entries(rawData).filter(([, v]) => v)),
+    }
+  })
+}
+
+// SEPA creditor identifier sits under the creditor's private ID (v02: Cdtr/Id, v08+: Cdtr/Pty/Id)
+function camtCreditorId(tx: XMLNode | undefined): string {
+  return xmlText(tx, 'RltdPties/Cdtr/Id/PrvtId/Othr/Id')
+    || xmlText(tx, 'RltdPties/Cdtr/Pty/Id/PrvtId/Othr/Id')
+    || xmlText(tx, 'CdtrSchmeId/Id/PrvtId/Othr/Id')
+}
+
+export function parseCAMTContent(content: string): ParseResult {
+  const document = parseXMLTree(content)
+  const container = xmlChild(document, 'BkToCstmrStmt') || xmlChild(document, 'BkToCstmrAcctRpt')
+  if (!container) {
+    throw new Error('Not a CAMT.052/CAMT.053 statement')
+  }
+
+  const transactions: RawTransaction[] = []
+  const statements: StatementInfo[] = []
+  const diagnostics: ImportDiagnostic[] = []
+
+  // camt.053 uses <Stmt>, camt.052 uses <Rpt>; a file may contain several of either
+  const reports = [...xmlChildren(container, 'Stmt'), ...xmlChildren(container, 'Rpt')]
+
+  for (const report of reports) {
+    const acct = xmlChild(report, 'Acct')
+    const account = camtAccountId(acct)
+    const accountName = xmlText(acct, 'Nm') || xmlText(acct, 'Ownr/Nm')
+    const statementId = xmlText(report, 'Id')
+
+    const entries = xmlChildren(report, 'Ntry')
+      .filter(entry => (xmlText(entry, 'Sts/Cd') || xmlText(entry, 'Sts')) !== 'INFO')
+      .flatMap(entry => parseCAMTEntry(entry, account, accountName, statementId))
+      .filter(tx => tx.date)
+
+    const openingBalance = camtBalance(report, ['OPBD', 'PRCD'])
+    const closingBalance = camtBalance(report, ['CLBD', 'ITBD'])
+
+    // Sanity check: opening balance + entries should equal the closing balance
+    if (openingBalance && closingBalance) {
+      const booked = entries
+        .filter(tx => (tx.rawData.Status || 'BOOK') === 'BOOK')
+        .reduce((sum, tx) => sum + tx.amount, 0)
+      const difference = openingBalance.amount + booked - closingBalance.amount
+      if (Math.abs(difference) > 0.005) {
+        diagnostics.push({
+          kind: 'balance-mismatch',
+          severity: 'warning',
+          message: `Statement ${statementId || account}: opening balance plus entries differs from the closing balance by ${difference.toFixed(2)} ${closingBalance.currency}`,
+          included: false,
+        })
+      }
+    }
+
+    statements.push({
+      id: statementId || undefined,
+      account: account || undefined,
+      accountName: accountName || undefined,
+      currency: xmlText(acct, 'Ccy') || openingBalance?.currency || closingBalance?.currency,
+      periodStart: (xmlText(report, 'FrToDt/FrDtTm') || xmlText(report, 'FrToDt/FrDt')).slice(0, 10) || undefined,
+      periodEnd: (xmlText(report, 'FrToDt/ToDtTm') || xmlText(report, 'FrToDt/ToDt')).slice(0, 10) || undefined,
+      openingBalance,
+      closingBalance,
+      transactionCount: entries.length,
+    })
+    transactions.push(...entries)
+  }
+
+  // Sort by date descending
+  transactions.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+
+  return { transactions, statements, diagnostics }
+}
+
+// The XML declaration names the encoding (often ISO-8859-1 for German banks); without one, sniff it
+function decodeXML(buffer: ArrayBuffer): string {
+  const head = new TextDecoder('latin1').decode(buffer.slice(0, 200))
+  const encoding = head.match(/^\uFEFF?\s*<\?xml[^>]*\sencoding\s*=\s*["']([\w.:-]+)["']/)?.[1]
+  if (encoding) {
+    try {
+      return new TextDecoder(encoding).decode(buffer)
+    } catch {
+      // Unknown label - fall through to sniffing
+    }
+  }
+  return decodeText(buffer)
+}
+
+// Parse CAMT.053 (end-of-day statement) and CAMT.052 (intraday report) XML files
+export async function parseCAMT(file: File): Promise<ParseResult> {
+  let content: string
+  try {
+    content = decodeXML(await file.arrayBuffer())
+  } catch {
+    throw new Error('Failed to read CAMT file')
+  }
+
+  try {
+    return parseCAMTContent(content)
+  } catch (error) {
+    throw new Error(`Failed to parse CAMT file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+// ============ MT940 / MT942 (SWIFT) ============
+
+// Split a message into [tag, value] pairs; continuation lines belong to the previous tag
+function splitMT940Fields(message: string): Array<[string, string]> {
+  const fields: Array<[string, string]> = []
+
+  for (const line of message.split(/\r?\n/)) {
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (tagMatch) {
+      fields.push([tagMatch[1], tagMatch[2]])
+    } else if (fields.length > 0 && line.trim() !== '' && line.trim() !== '-') {
+      fields[fields.length - 1][1] += '\n' + line
+    }
+  }
+
+  return fields
+}
+
+function mt940Date(yymmdd: string): string {
+  return `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`
+}
+
+function mt940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0
+}
+
+// Balance fields (:60F:, :62F:, ...): C/D mark, YYMMDD, currency, amount
+function parseMT940Balance(value: string): StatementBalance | undefined {
+  const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/)
+  if (!match) return undefined
+  const [, mark, date, currency, amount] = match
+  return {
+    date: mt940Date(date),
+    amount: (mark === 'D' ? -1 : 1) * mt940Amount(amount),
+    currency,
+  }
+}
+
+interface MT940StatementLine {
+  valueDate: string
+  bookingDate: string
+  amount: number
+  transactionType: string
+  customerRef: string
+  bankRef: string
+  supplementary: string
+}
+
+// :61: value date YYMMDD, optional entry date MMDD, [R]C/[R]D, optional funds code, amount, type, references
+function parseMT940StatementLine(value: string): MT940StatementLine | undefined {
+  const [firstLine, ...rest] = value.split('\n')
+  const match = firstLine.match(/^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NFS][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/)
+  if (!match) return undefined
+
+  const [, valueDateRaw, entryDateRaw, mark, , amountRaw, transactionType, customerRef, bankRef] = match
+  const valueDate = mt940Date(valueDateRaw)
+
+  // Entry date has no year: take the value date's year, adjusting across the year boundary
+  let bookingDate = valueDate
+  if (entryDateRaw) {
+    let year = parseInt(valueDate.slice(0, 4), 10)
+    const valueMonth = parseInt(valueDateRaw.slice(2, 4), 10)
+    const entryMonth = parseInt(entryDateRaw.slice(0, 2), 10)
+    if (valueMonth === 1 && entryMonth === 12) year--
+    if (valueMonth === 12 && entryMonth === 1) year++
+    bookingDate = `${year}-${entryDateRaw.slice(0, 2)}-${entryDateRaw.slice(2, 4)}`
+  }
+
+  // Reversal of credit (RC) is a debit and vice versa
+  const isDebit = mark === 'D' || mark === 'RC'
+
+  return {
+    valueDate,
+    bookingDate,
+    amount: (isDebit ? -1 : 1) * mt940Amount(amountRaw),
+    transactionType,
+    customerRef: customerRef.trim(),
+    bankRef: (bankRef || '').trim(),
+    supplementary: rest.join(' ').trim(),
+  }
+}
+
+interface MT940Details {
+  gvc: string
+  bookingText: string
+  purpose: string
+  counterpartyBank: string
+  counterpartyAccount: string
+  counterpartyName: string
+  sepaFields: Record<string, string>
+}
+
+// SEPA keywords inside the purpose text, e.g. "EREF+123 MREF+M-1 CRED+DE98ZZZ... SVWZ+Rechnung 42"
+const SEPA_KEYWORDS = ['EREF', 'KREF', 'MREF', 'CRED', 'DEBT', 'COAM', 'OAMT', 'SVWZ', 'ABWA', 'ABWE', 'IBAN', 'BIC']
+
+function parseSepaKeywords(purpose: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  const pattern = new RegExp(`(${SEPA_KEYWORDS.join('|')})\\+`, 'g')
+  const matches = [...purpose.matchAll(pattern)]
+
+  matches.forEach((match, i) => {
+    const start = match.index! + match[0].length
+    const end = i + 1 < matches.length ? matches[i + 1].index! : purpose.length
+    fields[match[1]] = purpose.slice(start, end).trim()
+  })
+
+  return fields
+}
+
+// :86: German structured format: GVC code, separator (usually '?'), then ?NN sub-fields
+// ?00 Buchungstext, ?20-?29 and ?60-?63 Verwendungszweck, ?30 BLZ/BIC, ?31 account/IBAN, ?32-?33 name
+function parseMT940Details(value: string): MT940Details {
+  // Line breaks inside :86: are only wrapping
+  const text = value.replace(/\r?\n/g, '')
+  const structured = text.match(/^(\d{3})(\D)/)
+
+  if (!structured) {
+    return {
+      gvc: '',
+      bookingText: '',
+      purpose: text.trim(),
+      counterpartyBank: '',
+      counterpartyAccount: '',
+      counterpartyName: '',
+      sepaFields: parseSepaKeywords(text),
+    }
+  }
+
+  const [, gvc, separator] = structured
+  const subFields = new Map<string, string>()
+  for (const part of text.slice(4).split(separator)) {
+    const code = part.slice(0, 2)
+    if (/^\d{2}$/.test(code)) {
+      subFields.set(code, (subFields.get(code) || '') + part.slice(2))
+    }
+  }
+
+  const purposeCodes = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']
+  // Purpose lines are fixed-width chunks: join without separator, SEPA keywords re-split below
+  const purpose = purposeCodes.map(code => subFields.get(code) || '').join('')
+
+  return {
+    gvc,
+    bookingText: subFields.get('00') || '',
+    purpose,
+    counterpartyBank: subFields.get('30') || '',
+    counterpartyAccount: subFields.get('31') || '',
+    counterpartyName: `${subFields.get('32') || ''}${subFields.get('33') || ''}`.trim(),
+    sepaFields: parseSepaKeywords(purpose),
+  }
+}
+
+export function parseMT940Content(content: string): ParseResult {
+  const transactions: RawTransaction[] = []
+  const statements: StatementInfo[] = []
+
+  // Strip SWIFT envelope blocks ({1:...}{2:...}{4:) and split into messages at the '-' terminator
+  const messages = content
+    .replace(/\{[1-3]:[^}]*\}/g, '')
+    .replace(/\{4:/g, '')
+    .split(/^-\}?\s*$/m)
+    .filter(message => /:20:/.test(message))
+
+  for (const message of messages) {
+    const fields = splitMT940Fields(message)
+    const get = (tag: string) => fields.find(([t]) => t === tag)?.[1]?.trim() || ''
+
+    const statementId = get('20')
+    const statementNumber = get('28C') || get('28')
+    // :25: is "BLZ/Kontonummer" or an IBAN
+    const account = get('25')
+    const openingBalance = parseMT940Balance(get('60F') || get('60M'))
+    const closingBalance = parseMT940Balance(get('62F') || get('62M'))
+    // MT942 has no balances; currency comes from the floor limit (:34F:EURD0,00)
+    const currency = openingBalance?.currency || closingBalance?.currency || get('34F').slice(0, 3) || 'EUR'
+
+    const statementTransactions: RawTransaction[] = []
+
+    fields.forEach(([tag, value], index) => {
+      if (tag !== '61') return
+
+      const line = parseMT940StatementLine(value)
+      if (!line) return
+
+      const next = fields[index + 1]
+      const details = next && next[0] === '86' ? parseMT940Details(next[1]) : undefined
+      const sepa = details?.sepaFields || {}
+
+      const rawData: Record<string, string> = {
+        StatementId: statementId,
+        StatementNumber: statementNumber,
+        BookingDate: line.bookingDate,
+        ValueDate: line.valueDate,
+        TransactionType: line.transactionType,
+        CustomerReference: line.customerRef,
+        BankReference: line.bankRef,
+        GVC: details?.gvc || '',
+        BookingText: details?.bookingText || '',
+        Purpose: details?.purpose || '',
+        CounterpartyBank: details?.counterpartyBank || '',
+        EndToEndId: sepa.EREF || '',
+        MandateId: sepa.MREF || '',
+        CreditorId: sepa.CRED || '',
+        UltimateCounterparty: sepa.ABWA || sepa.ABWE || '',
+      }
+
+      statementTransactions.push({
+        date: line.bookingDate,
+        description: sepa.SVWZ || details?.purpose || line.supplementary,
+        amount: line.amount,
+        currency,
+        category: details?.bookingText || undefined,
+        recipient: details?.counterpartyName || undefined,
+        recipientIban: details?.counterpartyAccount || sepa.IBAN || undefined,
+        referenceAccount: account || undefined,
+        valueDate: line.valueDate || undefined,
+        creditorId: sepa.CRED || undefined,
+        mandateRef: sepa.MREF || undefined,
+        endToEndId: sepa.EREF && sepa.EREF !== 'NOTPROVIDED' ? sepa.EREF : undefined,
+        rawData: Object.fromEntries(Object.entries(rawData).filter(([, v]) => v)),
+      })
+    })
+
+    statements.push({
+      id: statementNumber || statementId || undefined,
+      account: account || undefined,
+      currency,
+      periodStart: openingBalance?.date,
+      periodEnd: closingBalance?.date,
+      openingBalance,
+      closingBalance,
+      transactionCount: statementTransactions.length,
+    })
+    transactions.push(...statementTransactions)
+  }
+
+  if (messages.length === 0) {
+    throw new Error('No MT940/MT942 statements found')
+  }
+
+  // Sort by date descending
+  transactions.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+
+  return { transactions, statements }
+}
+
+// Parse MT940 (account statement) and MT942 (interim report) files
+export async function parseMT940(file: File): Promise<ParseResult> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+
+    reader.onload = (e) => {
+      try {
+        resolve(parseMT940Content(decodeText(e.target?.result as ArrayBuffer)))
+      } catch (error) {
+        reject(new Error(`Failed to parse MT940 file: ${error instanceof Error ? error.message : 'Unknown error'}`))
+      }
+    }
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read MT940 file'))
+    }
+
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+// ============ QIF (Quicken Interchange Format) ============
+
+// Transaction list types; !Type:Cat, !Type:Class, !Type:Memorized and investment lists are skipped
+const QIF_TRANSACTION_TYPES = ['bank', 'ccard', 'cash', 'oth a', 'oth l']
+
+interface QIFSplit {
+  category: string
+  memo: string
+  amount: string
+}
+
+interface QIFRecord {
+  account: string
+  fields: Record<string, string>
+  splits: QIFSplit[]
+}
+
+// Quicken writes dates as M/D/YY, M/D'YY (2000+), M/D/YYYY or with spaces (" 1/ 5' 4")
+// Non-US exports use D.M.YYYY or D/M/YYYY, so the day/month order is detected per file
+function detectQIFDayFirst(dates: string[]): boolean {
+  for (const value of dates) {
+    if (/^\s*\d{1,2}\.\s*\d{1,2}\./.test(value)) return true
+    const match = value.match(/^\s*(\d{1,2})\s*[/-]\s*(\d{1,2})\s*['/-]/)
+    if (match && parseInt(match[1], 10) > 12) return true
+    if (match && parseInt(match[2], 10) > 12) return false
+  }
+  return false
+}
+
+function qifDate(value: string, dayFirst: boolean): string {
+  const iso = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) {
+    return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`
+  }
+
+  const match = value.match(/^\s*(\d{1,2})\s*[./-]\s*(\d{1,2})\s*(['./-])\s*(\d{1,4})\s*$/)
+  if (!match) return ''
+
+  const [, first, second, separator, yearRaw] = match
+  const [day, month] = dayFirst ? [first, second] : [second, first]
+  let year = parseInt(yearRaw, 10)
+  if (yearRaw.length <= 2) {
+    // The apostrophe marks years from 2000 on; otherwise use a sliding window
+    year += separator === "'" || year < 70 ? 2000 : 1900
+  }
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+function splitQIFRecords(content: string): QIFRecord[] {
+  const records: QIFRecord[] = []
+  let section = ''
+  let account = ''
+  let fields: Record<string, string> = {}
+  let splits: QIFSplit[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trimEnd()
+    if (!line) continue
+
+    if (line.startsWith('!')) {
+      const header = line.slice(1).toLowerCase()
+      // !Option:AutoSwitch / !Clear:AutoSwitch only toggle how !Account blocks are read
+      if (!header.startsWith('option') && !header.startsWith('clear')) {
+        section = header
+      }
+      fields = {}
+      splits = []
+      continue
+    }
+
+    const code = line[0]
+    const value = line.slice(1).trim()
+
+    if (code === '^') {
+      if (section === 'account') {
+        account = fields.N || account
+      } else if (QIF_TRANSACTION_TYPES.some(type => section === `type:${type}`)) {
+        records.push({ account, fields, splits })
+      }
+      fields = {}
+      splits = []
+      continue
+    }
+
+    switch (code) {
+      case 'S':
+        splits.push({ category: value, memo: '', amount: '' })
+        break
+      case 'E':
+        if (splits.length > 0) splits[splits.length - 1].memo = value
+        break
+      case '$':
+        if (splits.length > 0) splits[splits.length - 1].amount = value
+        break
+      case 'A':
+        // Address lines repeat
+        fields.A = fields.A ? `${fields.A}, ${value}` : value
+        break
+      default:
+        fields[code] = value
+    }
+  }
+
+  return records
+}
+
+// L/S values: "Category:Sub/Class", or "[Account]" for a transfer to another account
+function qifCategory(value: string): { category?: string; isTransfer: boolean } {
+  const transfer = value.match(/^\[(.*)\]/)
+  if (transfer) return { category: 'Transfer', isTransfer: true }
+  return { category: value ? mapQIFCategory(value) || value.split('/')[0] : undefined, isTransfer: false }
+}
+
+export function parseQIFContent(content: string, currency = 'EUR'): ParseResult {
+  const records = splitQIFRecords(content)
+  const dayFirst = detectQIFDayFirst(records.map(r => r.fields.D || ''))
+  const transactions: RawTransaction[] = []
+
+  for (const { account, fields, splits } of records) {
+    const date = qifDate(fields.D || '', dayFirst)
+    const total = parseNumber(fields.T || fields.U || '')
+    if (!date) continue
+
+    const payee = fields.P || ''
+    const memo = fields.M || ''
+    const rawData: Record<string, string> = Object.fromEntries(
+      Object.entries({
+        Date: fields.D,
+        Amount: fields.T || fields.U,
+        Payee: payee,
+        Memo: memo,
+        Category: fields.L,
+        Number: fields.N,
+        Cleared: fields.C,
+        Address: fields.A,
+        Account: account,
+      }).filter((entry): entry is [string, string] => !!entry[1])
+    )
+
+    const base = {
+      date,
+      currency,
+      recipient: payee || undefined,
+      referenceAccount: account || undefined,
+      referenceAccountName: account || undefined,
+    }
+
+    // Split transactions become one row per split so each part is categorized on its own
+    if (splits.length > 0) {
+      let remaining = total
+      splits.forEach((split, index) => {
+        const amount = parseNumber(split.amount)
+        remaining -= amount
+        if (amount === 0) return
+        const { category, isTransfer } = qifCategory(split.category)
+        transactions.push({
+          ...base,
+          description: split.memo || memo || payee,
+          amount,
+          category,
+          isTransfer,
+          rawData: { ...rawData, SplitCategory: split.category, SplitMemo: split.memo, SplitIndex: String(index + 1) },
+        })
+      })
+
+      // Splits that don't add up to the total leave the rest on the main category
+      if (Math.abs(remaining) < 0.005) continue
+      const { category, isTransfer } = qifCategory(fields.L || '')
+      transactions.push({
+        ...base,
+        description: memo || payee,
+        amount: Math.round(remaining * 100) / 100,
+        category,
+        isTransfer,
+        rawData: { ...rawData, SplitIndex: 'rest' },
+      })
+      continue
+    }
+
+    if (total === 0) continue
+    const { category, isTransfer } = qifCategory(fields.L || '')
+    transactions.push({
+      ...base,
+      description: memo || payee || fields.L || '',
+      amount: total,
+      category,
+      isTransfer,
+      rawData,
+    })
+  }
+
+  // One statement per account; QIF carries no balances or statement period
+  const counts = new Map<string, number>()
+  for (const tx of transactions) {
+    const key = tx.referenceAccount || ''
+    counts.set(key, (counts.get(key) || 0) + 1)
+  }
+  const statements: StatementInfo[] = [...counts].map(([account, transactionCount]) => ({
+    account: account || undefined,
+    currency,
+    transactionCount,
+  }))
+
+  // Sort by date descending
+  transactions.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+
+  return { transactions, statements }
+}
+
+// Parse QIF exports (Quicken, MoneyMoney, Moneydance, GnuCash, ...)
+export async function parseQIF(file: File): Promise<ParseResult> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+
+    reader.onload = (e) => {
+      try {
+        resolve(parseQIFContent(decodeText(e.target?.result as ArrayBuffer)))
+      } catch (error) {
+        reject(new Error(`Failed to parse QIF file: ${error instanceof Error ? error.message : 'Unknown error'}`))
+      }
+    }
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read QIF file'))
+    }
+
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+// Apply a bank profile to already split rows (used for the wizard's live preview)
+export function parseRowsWithProfile(rows: Record<string, string>[], headers: string[], profile: BankProfile): RawTransaction[] {
+  return processRows(rows, headers, { profile }).transactions
+}
+
+// Row-level diagnostics per kind beyond this are summarized in one entry
+const MAX_ROW_DIAGNOSTICS = 50
+
+// Rows between progress reports on large files
+const PROGRESS_INTERVAL = 1000
+
+// "1,234" without a profile: thousands separator or decimal comma?
+function isAmbiguousAmount(value: string): boolean {
+  return /^[-+]?\d{1,3},\d{3}$/.test(value.replace(/["'\s]/g, ''))
+}
+
+function isUnparseableAmount(value: string): boolean {
+  return value.trim() !== '' && !/\d/.test(value)
+}
+
+function buildTransaction(mapped: Record<string, unknown>): RawTransaction {
+  return {
+    date: (mapped.date as string) || '',
+    description: (mapped.description as string) || '',
+    amount: (mapped.amount as number) || 0,
+    currency: (mapped.currency as string) || 'EUR',
+    category: mapped.category as string | undefined,
+    subcategory: mapped.subcategory as string | undefined,
+    recipient: mapped.recipient as string | undefined,
+    recipientIban: mapped.recipientIban as string | undefined,
+    referenceAccount: mapped.referenceAccount as string | undefined,
+    referenceAccountName: mapped.referenceAccountName as string | undefined,
+    isTransfer: mapped.isTransfer as boolean | undefined,
+    balance: mapped.balance as number | undefined,
+    valueDate: (mapped.valueDate as string) || undefined,
+    creditorId: (mapped.creditorId as string)?.trim() || undefined,
+    mandateRef: (mapped.mandateRef as string)?.trim() || undefined,
+    endToEndId: (mapped.endToEndId as string)?.trim() || undefined,
+    originalAmount: mapped.originalAmount as number | undefined,
+    originalCurrency: (mapped.originalCurrency as string)?.trim() || undefined,
+    exchangeRate: mapped.exchangeRate as number | undefined,
+    rawData: mapped.rawData as Record<string, string>,
+  }
+}
+
+interface ProcessRowsOptions {
+  profile?: BankProfile // Replaces format detection
+  spreadsheet?: boolean // Excel cells come pre-formatted, so the format's CSV date/number conventions don't apply
+  onProgress?: ParseOptions['onProgress']
+}
+
 // Common row processing logic
-function processRows(rows: Record<string, string>[], headers: string[]): RawTransaction[] {
+function processRows(
+  rows: Record<string, string>[],
+  headers: string[],
+  { profile, spreadsheet = false, onProgress }: ProcessRowsOptions = {}
+): { transactions: RawTransaction[]; diagnostics: ImportDiagnostic[] } {
   const transactions: RawTransaction[] = []
+  const diagnostics: ImportDiagnostic[] = []
+  const suppressed = new Map<ImportDiagnostic['kind'], number>()
+  const format: BankFormat | undefined = profile ? undefined : findBankFormat(headers)
+  const conventions = profile || (spreadsheet ? undefined : format)
+  const dateFormat = conventions?.dateFormat || 'auto'
+  const numberFormat = conventions?.numberFormat || 'auto'
+  const signConvention = profile?.signConvention || format?.signConvention
+  
+  const report = (diagnostic: ImportDiagnostic) => {
+    const count = diagnostics.filter(d => d.kind === diagnostic.kind).length
+    if (diagnostic.row !== undefined && count >= MAX_ROW_DIAGNOSTICS) {
+      suppressed.set(diagnostic.kind, (suppressed.get(diagnostic.kind) || 0) + 1)
+      return
+    }
+    diagnostics.push(diagnostic)
+  }
   
-  // Create column mapping
+  // Create column mapping (profile columns win over the detected format)
   const columnMap = new Map<string, string>()
   for (const header of headers) {
-    columnMap.set(header, normalizeColumnName(header))
+    const field = profile ? profile.columns[header] || '' : resolveColumn(format!, header)
+    // Unknown headers keep their (normalized) name and only end up in rawData
+    columnMap.set(header, field ?? header.toLowerCase().replace(/[^a-z0-9]/g, '_'))
+    
+    if (field === undefined && header) {
+      report({
+        kind: 'unmapped-column',
+        severity: 'info',
+        message: `Column "${header}" is not used`,
+        column: header,
+        included: false,
+      })
+    }
   }
+  const dateColumn = headers.find(h => columnMap.get(h) === 'date')
+  const amountColumn = headers.find(h => columnMap.get(h) === 'amount')
+
+  rows.forEach((row, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL === 0) {
+      onProgress(index / rows.length)
+    }
 
-  for (const row of rows) {
     // Skip completely empty rows
     if (Object.values(row).every(v => !v || v.trim() === '')) {
-      continue
+      return
     }
 
+    const rowNumber = index + 1
     const mapped: Record<string, unknown> = { rawData: row }
     
     for (const [original, normalized] of columnMap) {
       const value = row[original]
       
       switch (normalized) {
+        case '':
+          break
         case 'date':
-          mapped.date = parseDate(value)
+          mapped.date = parseDate(value, dateFormat)
+          break
+        case 'valueDate':
+          mapped.valueDate = parseDate(value, dateFormat)
           break
         case 'amount':
-          mapped.amount = parseNumber(value)
+          mapped.amount = parseNumber(value, numberFormat)
+          break
+        case 'debit':
+        case 'credit':
+          mapped[normalized] = Math.abs(parseNumber(value, numberFormat))
+          break
+        case 'balance':
+          if (value && /\d/.test(value)) {
+            mapped.balance = parseNumber(value, numberFormat)
+          }
+          break
+        case 'originalAmount':
+          if (value && /\d/.test(value)) {
+            mapped.originalAmount = Math.abs(parseNumber(value, numberFormat))
+          }
+          break
+        case 'exchangeRate':
+          if (value && /\d/.test(value)) {
+            mapped.exchangeRate = parseNumber(value, numberFormat)
+          }
           break
         case 'isTransfer':
           mapped.isTransfer = parseTransferFlag(value)
@@ -468,23 +1790,89 @@ function processRows(rows: Record<string, string>[], headers: string[]): RawTran
       }
     }
 
-    // Validate required fields
-    if (mapped.date && mapped.amount !== undefined) {
-      transactions.push({
-        date: mapped.date as string,
-        description: (mapped.description as string) || '',
-        amount: mapped.amount as number,
-        currency: (mapped.currency as string) || 'EUR',
-        category: mapped.category as string | undefined,
-        subcategory: mapped.subcategory as string | undefined,
-        recipient: mapped.recipient as string | undefined,
-        recipientIban: mapped.recipientIban as string | undefined,
-        referenceAccount: mapped.referenceAccount as string | undefined,
-        referenceAccountName: mapped.referenceAccountName as string | undefined,
-        isTransfer: mapped.isTransfer as boolean | undefined,
-        rawData: mapped.rawData as Record<string, string>,
+    // Apply the sign convention (without a profile, debit/credit columns stand in for a missing amount)
+    if (signConvention === 'debit-credit' || (!profile && mapped.amount === undefined)) {
+      if (mapped.debit !== undefined || mapped.credit !== undefined) {
+        mapped.amount = ((mapped.credit as number) || 0) - ((mapped.debit as number) || 0)
+      }
+    } else if (signConvention === 'inverted' && typeof mapped.amount === 'number') {
+      mapped.amount = -mapped.amount
+    }
+
+    // Rows the format knows aren't (final) bookings, e.g. pending or reverted card payments
+    const skipReason = format?.skip?.(row)
+    if (skipReason) {
+      report({
+        kind: 'skipped-row', severity: 'info', row: rowNumber,
+        message: `${skipReason} - row skipped`, transaction: buildTransaction(mapped), included: false,
       })
+      return
     }
+
+    const dateValue = dateColumn ? row[dateColumn] || '' : ''
+    const amountValue = amountColumn ? row[amountColumn] || '' : ''
+
+    // Rows without a usable date or amount are skipped, but kept as drafts that can be fixed
+    if (!mapped.date || mapped.amount === undefined || isUnparseableAmount(amountValue)) {
+      const draft = buildTransaction(mapped)
+      if (dateValue.trim() && !mapped.date) {
+        report({
+          kind: 'invalid-date', severity: 'error', row: rowNumber, column: dateColumn, value: dateValue,
+          message: `Unrecognized date "${dateValue}"`, transaction: draft, included: false,
+        })
+      } else if (isUnparseableAmount(amountValue)) {
+        report({
+          kind: 'invalid-amount', severity: 'error', row: rowNumber, column: amountColumn, value: amountValue,
+          message: `Unrecognized amount "${amountValue}"`, transaction: draft, included: false,
+        })
+      } else {
+        report({
+          kind: 'skipped-row', severity: 'warning', row: rowNumber,
+          message: !mapped.date ? 'No date - row skipped' : 'No amount - row skipped',
+          transaction: draft, included: false,
+        })
+      }
+      return
+    }
+
+    // Format-specific fix-ups; a format may split a row (e.g. off a fee) or drop it
+    const built = buildTransaction(mapped)
+    const processed = format?.postProcess ? format.postProcess(built, row) : built
+    const [transaction, ...split] = Array.isArray(processed) ? processed : processed ? [processed] : []
+    if (!transaction) return
+    transactions.push(transaction, ...split)
+
+    if (numberFormat === 'auto' && isAmbiguousAmount(amountValue)) {
+      report({
+        kind: 'ambiguous-amount', severity: 'warning', row: rowNumber, column: amountColumn, value: amountValue,
+        message: `"${amountValue}" read as ${transaction.amount} - could also be ${transaction.amount * 1000}`,
+        transaction, included: true,
+      })
+    } else if (transaction.amount === 0) {
+      report({
+        kind: 'zero-amount', severity: 'warning', row: rowNumber, column: amountColumn, value: amountValue,
+        message: 'Amount is 0', transaction, included: true,
+      })
+    }
+  })
+
+  for (const [kind, count] of suppressed) {
+    diagnostics.push({
+      kind,
+      severity: 'info',
+      message: `${count} more rows with the same problem`,
+      included: false,
+    })
+  }
+
+  // Only positive amounts usually means expenses are exported without a minus sign
+  if ((!signConvention || signConvention === 'signed') && transactions.length >= 5 && transactions.every(tx => tx.amount >= 0)) {
+    diagnostics.push({
+      kind: 'suspicious-sign',
+      severity: 'warning',
+      message: `All ${transactions.length} amounts are positive - expenses may be missing their minus sign`,
+      included: false,
+    })
   }
 
   // Sort by date descending (most recent first)
@@ -492,7 +1880,7 @@ function processRows(rows: Record<string, string>[], headers: string[]): RawTran
     new Date(b.date).getTime() - new Date(a.date).getTime()
   )
 
-  return transactions
+  return { transactions, diagnostics }
 }
 
 export function detectCurrency(transactions: RawTransaction[]): string {
@@ -0,0 +1,151 @@
+import { RawTransaction, Transaction, TransactionEdit, CategorizationRule } from '../types'
+import { ParseOptions, ParseResult } from './parser'
+import { ProcessingStage } from './process'
+
+// Parsing and processing run in a Web Worker so large histories don't freeze the tab
+
+export type PipelineStage = 'parsing' | ProcessingStage
+
+export interface PipelineProgress {
+  stage: PipelineStage
+  fileName?: string
+  percent?: number // Only known while parsing rows
+}
+
+// Rejection reason of jobs stopped by cancelPipeline()
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Cancelled')
+    this.name = 'PipelineCancelledError'
+  }
+}
+
+export type PipelineRequest =
+  | {
+      type: 'parse'
+      jobId: number
+      file: File
+      options: Pick<ParseOptions, 'profile' | 'sheets'>
+      categories: Array<{ name: string; aliases: string[] }> // QIF category paths are matched against them
+    }
+  | {
+      type: 'process'
+      jobId: number
+      raw: RawTransaction[]
+      anonymize: boolean
+      edits: Map<string, TransactionEdit>
+      learnedMappings: Array<{ merchant: string; category: string }>
+      categories: Array<{ name: string; aliases: string[] }>
+      rules: CategorizationRule[]
+    }
+
+export type PipelineResponse =
+  | { type: 'progress'; jobId: number; stage: PipelineStage; percent?: number }
+  | { type: 'parsed'; jobId: number; result: ParseResult }
+  | { type: 'processed'; jobId: number; transactions: Transaction[] }
+  | { type: 'error'; jobId: number; message: string }
+
+interface PendingJob {
+  resolve: (value: unknown) => void
+  reject: (reason: Error) => void
+  onProgress: (progress: PipelineProgress) => void
+  fileName?: string
+}
+
+let worker: Worker | null = null
+let nextJobId = 1
+const jobs = new Map<number, PendingJob>()
+
+function rejectAll(reason: Error) {
+  for (const job of jobs.values()) {
+    job.reject(reason)
+  }
+  jobs.clear()
+}
+
+// The worker is created lazily and recreated after a cancellation
+function getWorker(): Worker {
+  if (worker) return worker
+
+  worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+    const message = event.data
+    const job = jobs.get(message.jobId)
+    if (!job) return
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress({ stage: message.stage, fileName: job.fileName, percent: message.percent })
+        break
+      case 'parsed':
+        jobs.delete(message.jobId)
+        job.resolve(message.result)
+        break
+      case 'processed':
+        jobs.delete(message.jobId)
+        job.resolve(message.transactions)
+        break
+      case 'error':
+        jobs.delete(message.jobId)
+        job.reject(new Error(message.message))
+        break
+    }
+  }
+  worker.onerror = (event) => {
+    console.error('Pipeline worker failed:', event.message)
+    worker?.terminate()
+    worker = null
+    rejectAll(new Error(event.message || 'Processing failed'))
+  }
+
+  return worker
+}
+
+function runJob<T>(
+  request: PipelineRequest,
+  onProgress: (progress: PipelineProgress) => void,
+  fileName?: string
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    jobs.set(request.jobId, { resolve: resolve as (value: unknown) => void, reject, onProgress, fileName })
+    getWorker().postMessage(request)
+  })
+}
+
+// Stop whatever the worker is doing; pending jobs reject with PipelineCancelledError
+export function cancelPipeline(): void {
+  if (!worker) return
+
+  worker.terminate()
+  worker = null
+  rejectAll(new PipelineCancelledError())
+}
+
+// Parse one file off the main thread
+export async function parseInWorker(
+  file: File,
+  { profile, sheets }: ParseOptions,
+  categories: Array<{ name: string; aliases: string[] }>,
+  onProgress: (progress: PipelineProgress) => void
+): Promise<ParseResult> {
+  return runJob<ParseResult>(
+    { type: 'parse', jobId: nextJobId++, file, options: { profile, sheets }, categories },
+    onProgress,
+    file.name
+  )
+}
+
+// Anonymize, categorize and detect transfers/recurring payments off the main thread
+export function processInWorker(
+  raw: RawTransaction[],
+  options: {
+    anonymize: boolean
+    edits: Map<string, TransactionEdit>
+    learnedMappings: Array<{ merchant: string; category: string }>
+    categories: Array<{ name: string; aliases: string[] }>
+    rules: CategorizationRule[]
+  },
+  onProgress: (progress: PipelineProgress) => void
+): Promise<Transaction[]> {
+  return runJob<Transaction[]>({ type: 'process', jobId: nextJobId++, raw, ...options }, onProgress)
+}
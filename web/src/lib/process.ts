@@ -0,0 +1,41 @@
+import { RawTransaction, Transaction, TransactionEdit } from '../types'
+import { anonymizeTransactions, processWithoutAnonymization } from './anonymizer'
+import { categorizeWithRules } from './categorizer'
+import { detectRecurring } from './recurring'
+import { detectDoubleBookings } from './double-booking'
+import { applyEditOverlay } from './edit-overlay'
+
+export type ProcessingStage = 'anonymizing' | 'categorizing' | 'double-bookings' | 'recurring'
+
+export interface ProcessOptions {
+  anonymize: boolean
+  edits: Map<string, TransactionEdit> // Manual edits by transaction ID
+}
+
+// Turn raw imports into displayable transactions, announcing each stage before it runs
+export function processTransactions(
+  raw: RawTransaction[],
+  { anonymize, edits }: ProcessOptions,
+  onStage: (stage: ProcessingStage) => void = () => {}
+): Transaction[] {
+  // Process with or without anonymization
+  onStage('anonymizing')
+  const processed = anonymize
+    ? anonymizeTransactions(raw).transactions
+    : processWithoutAnonymization(raw)
+
+  // Apply rule-based categorization
+  onStage('categorizing')
+  const categorized = categorizeWithRules(processed)
+
+  // Detect double-bookings (internal transfers between own accounts)
+  onStage('double-bookings')
+  const { transactions: withDoubleBookings } = detectDoubleBookings(categorized)
+
+  // Re-apply manual edits from previous imports (IDs are content-derived)
+  const withEdits = applyEditOverlay(withDoubleBookings, edits)
+
+  // Detect recurring transactions
+  onStage('recurring')
+  return detectRecurring(withEdits)
+}
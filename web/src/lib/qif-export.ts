@@ -0,0 +1,81 @@
+import { Transaction } from '../types'
+import { scaleSplits } from './splits'
+
+export interface QIFExportOptions {
+  // Quicken US reads MM/DD/YYYY, German desktop tools (MoneyMoney, Quicken DE) DD.MM.YYYY
+  dateFormat?: 'us' | 'de'
+}
+
+function formatQIFDate(date: string, dateFormat: 'us' | 'de'): string {
+  const [year, month, day] = date.slice(0, 10).split('-')
+  return dateFormat === 'us' ? `${month}/${day}/${year}` : `${day}.${month}.${year}`
+}
+
+// QIF is line based - field values must not contain line breaks
+function qifField(code: string, value?: string): string[] {
+  const cleaned = (value || '').replace(/\s*[\r\n]+\s*/g, ' ').trim()
+  return cleaned ? [`${code}${cleaned}`] : []
+}
+
+// S/E/$ lines per part of a split, signed like the transaction and in its booked currency
+function qifSplits(tx: Transaction): string[] {
+  if (!tx.splits || tx.splits.length === 0) return []
+
+  const sign = tx.type === 'expense' ? -1 : 1
+  const splits = tx.bookedAmount !== undefined ? scaleSplits(tx.splits, tx.amount, tx.bookedAmount) : tx.splits
+  return splits.flatMap(split => [
+    ...qifField('S', split.category),
+    ...qifField('E', split.note),
+    `$${(sign * split.amount).toFixed(2)}`,
+  ])
+}
+
+// Write transactions as QIF, one !Account block per own account
+// Amounts are signed again (expenses negative) and our category goes into the L field
+export function exportToQIF(transactions: Transaction[], options: QIFExportOptions = {}): string {
+  const dateFormat = options.dateFormat || 'de'
+  const byAccount = new Map<string, Transaction[]>()
+
+  for (const tx of transactions) {
+    const account = tx.referenceAccountName || tx.referenceAccount || 'FinKit'
+    if (!byAccount.has(account)) byAccount.set(account, [])
+    byAccount.get(account)!.push(tx)
+  }
+
+  const lines: string[] = []
+
+  for (const [account, accountTransactions] of byAccount) {
+    lines.push('!Account', `N${account}`, 'TBank', '^', '!Type:Bank')
+
+    const sorted = [...accountTransactions].sort((a, b) => a.date.localeCompare(b.date))
+    for (const tx of sorted) {
+      // Accounts are exported as booked, not in the base currency
+      const booked = tx.bookedAmount ?? tx.amount
+      const amount = tx.type === 'expense' ? -Math.abs(booked) : Math.abs(booked)
+      lines.push(
+        `D${formatQIFDate(tx.date, dateFormat)}`,
+        `T${amount.toFixed(2)}`,
+        ...qifField('N', tx.rawData.CHECKNUM || tx.rawData.Number),
+        ...qifField('P', tx.merchant || tx.recipient),
+        ...qifField('M', tx.description),
+        ...qifField('L', tx.category),
+        ...qifSplits(tx),
+        'C*',
+        '^'
+      )
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+// Trigger a browser download of the QIF file
+export function downloadQIF(transactions: Transaction[], fileName = 'finkit-export.qif', options?: QIFExportOptions): void {
+  const blob = new Blob([exportToQIF(transactions, options)], { type: 'application/qif' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
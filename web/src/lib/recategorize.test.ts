@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { CategorizationRule, RawTransaction, TransactionEdit } from '../types'
+import { setUserRules } from './categorizer'
+import { mergeEdit, toTransactionEdit } from './edit-overlay'
+import { processTransactions } from './process'
+import { getRecategorizationEdits, RecategorizeScope } from './recategorize'
+
+const IBAN = 'DE44500105175407324931'
+
+const raw: RawTransaction[] = [
+  { date: '2024-03-15', description: 'Invoice 2', amount: -40, currency: 'EUR', recipient: 'Acme GmbH', recipientIban: IBAN, rawData: {} },
+  { date: '2024-02-15', description: 'Invoice 1', amount: -30, currency: 'EUR', recipient: 'Acme GmbH', recipientIban: IBAN, rawData: {} },
+]
+
+// What the IBAN basis remembers: a rule moving the counterparty's bookings to Shopping
+const rule: CategorizationRule = {
+  id: 1,
+  name: 'Acme GmbH → Shopping',
+  priority: 0,
+  enabled: true,
+  conditions: { iban: IBAN },
+  actions: { category: 'Shopping' },
+}
+
+// Recategorize the newest booking with the given scope, then reprocess like handleRulesChange does
+function recategorize(scope: RecategorizeScope) {
+  setUserRules([])
+  const edits = new Map<string, TransactionEdit>()
+  const [transaction, ...similar] = processTransactions(raw, { anonymize: false, edits })
+  const updates = { category: 'Shopping' }
+
+  mergeEdit(edits, toTransactionEdit(transaction.id, updates)!)
+  setUserRules([rule])
+  const dryRun = processTransactions(raw, { anonymize: false, edits })
+  for (const { id, updates: update } of getRecategorizationEdits(scope, transaction, updates, similar, dryRun)) {
+    const edit = toTransactionEdit(id, update)
+    if (edit) mergeEdit(edits, edit)
+  }
+
+  return { before: similar[0], after: processTransactions(raw, { anonymize: false, edits }) }
+}
+
+describe('getRecategorizationEdits', () => {
+  afterEach(() => setUserRules([]))
+
+  it('moves the similar transactions with "all"', () => {
+    const { after } = recategorize('all')
+    expect(after.map(t => t.category)).toEqual(['Shopping', 'Shopping'])
+  })
+
+  it('keeps the similar transactions in place with "future" after reprocessing', () => {
+    const { before, after } = recategorize('future')
+    expect(after[0].category).toBe('Shopping')
+    expect(after[1].category).toBe(before.category)
+    expect(before.category).not.toBe('Shopping')
+  })
+})
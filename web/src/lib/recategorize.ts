@@ -0,0 +1,41 @@
+import { Transaction } from '../types'
+
+// all: move the selected similar transactions too and remember the choice
+// future: remember the choice, but keep the similar loaded transactions as they are
+// this: only change this transaction, without remembering anything
+export type RecategorizeScope = 'all' | 'future' | 'this'
+
+export interface TransactionUpdate {
+  id: string
+  updates: Partial<Transaction>
+}
+
+/**
+ * Edits that carry out a recategorization confirmed in RecategorizePrompt
+ * - all: the transaction and the selected similar ones move to the new category
+ * - future: only the transaction moves; similar ones the remembered mapping or rule would move
+ *   (according to a dry run with it, see handlePreviewCategorization) are pinned to their
+ *   current category, so the next reprocess leaves them where they are
+ */
+export function getRecategorizationEdits(
+  scope: RecategorizeScope,
+  transaction: Transaction,
+  updates: Partial<Transaction>,
+  similar: Transaction[],
+  dryRun: Transaction[] = []
+): TransactionUpdate[] {
+  const edits: TransactionUpdate[] = [{ id: transaction.id, updates }]
+
+  if (scope === 'all') {
+    edits.push(...similar.map(t => ({ id: t.id, updates: { category: updates.category } })))
+  } else if (scope === 'future') {
+    const dryRunById = new Map(dryRun.map(t => [t.id, t]))
+    edits.push(...similar
+      .filter(t => {
+        const after = dryRunById.get(t.id)
+        return after !== undefined && after.category !== t.category
+      })
+      .map(t => ({ id: t.id, updates: { category: t.category } })))
+  }
+  return edits
+}
@@ -0,0 +1,188 @@
+import { Transaction, StatementInfo } from '../types'
+
+export interface BalanceIssue {
+  kind: 'gap' | 'duplicate' | 'truncated'
+  date: string
+  message: string
+  difference: number // Amount missing (gap/truncated) or counted twice (duplicate)
+  transaction?: Transaction
+}
+
+export interface AccountReconciliation {
+  account: string
+  accountName?: string
+  currency: string
+  history: Array<{ date: string; balance: number }> // Balance at the end of each day
+  issues: BalanceIssue[]
+  transactionCount: number
+  isReconciled: boolean
+}
+
+// Balances are rounded to cents by the banks - anything below is float noise
+const TOLERANCE = 0.005
+
+function signedAmount(tx: Transaction): number {
+  return tx.type === 'expense' ? -tx.amount : tx.amount
+}
+
+function accountKey(tx: Transaction): string {
+  return tx.referenceAccount || tx.referenceAccountName || 'Unknown account'
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('de-DE', { style: 'currency', currency }).format(amount)
+}
+
+// Bring one day's bookings into the order their balances were written in and append them to the chain.
+// Exports list same-day rows in either direction, so follow the balances instead of the file order.
+function chainDay(
+  day: Transaction[],
+  previous: number | undefined,
+  currency: string,
+  chain: Transaction[],
+  issues: BalanceIssue[]
+): number | undefined {
+  // Exports are newest first - within a day the last row usually came first
+  const remaining = [...day].reverse()
+  const seen: Transaction[] = []
+  let balance = previous
+
+  while (remaining.length > 0) {
+    let index = balance === undefined
+      ? remaining.findIndex(tx => !remaining.some(other => other !== tx && Math.abs(other.balance! + signedAmount(tx) - tx.balance!) < TOLERANCE))
+      : remaining.findIndex(tx => Math.abs(balance! + signedAmount(tx) - tx.balance!) < TOLERANCE)
+    const matched = index !== -1
+    if (!matched) index = 0
+
+    const [tx] = remaining.splice(index, 1)
+
+    if (matched || balance === undefined) {
+      balance = tx.balance!
+      seen.push(tx)
+      chain.push(tx)
+      continue
+    }
+
+    // The balance didn't move for a row we already booked today: the row was imported twice
+    const twin = seen.find(other => other.amount === tx.amount && other.type === tx.type && other.description === tx.description)
+    if (twin && Math.abs(tx.balance! - twin.balance!) < TOLERANCE) {
+      issues.push({
+        kind: 'duplicate',
+        date: tx.date,
+        difference: signedAmount(tx),
+        message: `Booked twice: ${formatAmount(signedAmount(tx), currency)} "${tx.recipient || tx.description}"`,
+        transaction: tx,
+      })
+      continue
+    }
+
+    // Balance jumped - bookings between the two rows are missing from the data
+    const difference = tx.balance! - (balance + signedAmount(tx))
+    issues.push({
+      kind: 'gap',
+      date: tx.date,
+      difference,
+      message: `${formatAmount(difference, currency)} unaccounted for before this booking - transactions are missing`,
+      transaction: tx,
+    })
+    balance = tx.balance!
+    seen.push(tx)
+    chain.push(tx)
+  }
+
+  return balance
+}
+
+// Compare an account's first/last balance with the statement's opening/closing balance
+function checkStatement(
+  statement: StatementInfo,
+  chain: Transaction[],
+  currency: string,
+  issues: BalanceIssue[]
+) {
+  const { openingBalance, closingBalance } = statement
+
+  if (openingBalance) {
+    const first = chain.find(tx => tx.date >= openingBalance.date)
+    if (first) {
+      const difference = first.balance! - signedAmount(first) - openingBalance.amount
+      if (Math.abs(difference) >= TOLERANCE) {
+        issues.push({
+          kind: 'truncated',
+          date: first.date,
+          difference,
+          message: `Opening balance ${formatAmount(openingBalance.amount, currency)} doesn't lead into the first booking - the export starts late`,
+        })
+      }
+    }
+  }
+
+  if (closingBalance) {
+    const last = [...chain].reverse().find(tx => tx.date <= closingBalance.date)
+    if (last) {
+      const difference = closingBalance.amount - last.balance!
+      if (Math.abs(difference) >= TOLERANCE) {
+        issues.push({
+          kind: 'truncated',
+          date: closingBalance.date,
+          difference,
+          message: `Closing balance ${formatAmount(closingBalance.amount, currency)} not reached - the export ends early`,
+        })
+      }
+    }
+  }
+}
+
+// Check per account that each running balance equals the previous balance plus the booking
+export function reconcileBalances(
+  transactions: Transaction[],
+  statements: StatementInfo[] = []
+): AccountReconciliation[] {
+  const byAccount = new Map<string, Transaction[]>()
+  for (const tx of transactions) {
+    if (typeof tx.balance !== 'number') continue
+    const key = accountKey(tx)
+    if (!byAccount.has(key)) byAccount.set(key, [])
+    byAccount.get(key)!.push(tx)
+  }
+
+  const results: AccountReconciliation[] = []
+
+  for (const [account, accountTxs] of byAccount) {
+    const currency = accountTxs[0].currency || 'EUR'
+    // Stable sort keeps the file order within a day
+    const sorted = [...accountTxs].sort((a, b) => a.date.localeCompare(b.date))
+    const issues: BalanceIssue[] = []
+    const history: AccountReconciliation['history'] = []
+    const chain: Transaction[] = []
+
+    let balance: number | undefined
+    let dayStart = 0
+    for (let i = 1; i <= sorted.length; i++) {
+      if (i < sorted.length && sorted[i].date === sorted[dayStart].date) continue
+
+      const day = sorted.slice(dayStart, i)
+      balance = chainDay(day, balance, currency, chain, issues)
+      history.push({ date: day[0].date, balance: balance! })
+      dayStart = i
+    }
+
+    for (const statement of statements) {
+      if (statement.account === account || (statement.accountName && statement.accountName === accountTxs[0].referenceAccountName)) {
+        checkStatement(statement, chain, currency, issues)
+      }
+    }
+
+    results.push({
+      account,
+      accountName: accountTxs.find(tx => tx.referenceAccountName)?.referenceAccountName,
+      currency,
+      history,
+      issues: issues.sort((a, b) => a.date.localeCompare(b.date)),
+      transactionCount: accountTxs.length,
+      isReconciled: issues.length === 0,
+    })
+  }
+
+  return results.sort((a, b) => b.transactionCount - a.transactionCount)
+}
@@ -17,6 +17,9 @@ const MIN_OCCURRENCES = 2
 // Day tolerance for interval matching
 const DAY_TOLERANCE = 3
 
+// Group key prefix for direct debits under one mandate (amounts may vary, e.g. utilities)
+const MANDATE_KEY_PREFIX = 'mandate:'
+
 function calculateDaysBetween(date1: string, date2: string): number {
   const d1 = new Date(date1)
   const d2 = new Date(date2)
@@ -51,9 +54,12 @@ function groupByMerchantAndAmount(transactions: Transaction[]): Map<string, Tran
     if (tx.type === 'income' || tx.category === 'Transfer') continue
     
     // Create a key based on merchant/description and approximate amount
+    // A SEPA creditor ID plus mandate reference identifies a direct-debit contract, whatever the amount
     const merchant = tx.merchant || tx.recipient || tx.description.slice(0, 30)
     const roundedAmount = Math.round(tx.amount)
-    const key = `${merchant.toLowerCase()}_${roundedAmount}`
+    const key = tx.creditorId && tx.mandateRef
+      ? `${MANDATE_KEY_PREFIX}${tx.creditorId}_${tx.mandateRef}`
+      : `${(tx.creditorId || merchant).toLowerCase()}_${roundedAmount}`
     
     if (!groups.has(key)) {
       groups.set(key, [])
@@ -77,7 +83,7 @@ export function detectRecurring(transactions: Transaction[]): Transaction[] {
   // Group transactions by similar merchant and amount
   const groups = groupByMerchantAndAmount(transactions)
   
-  for (const [_key, txGroup] of groups) {
+  for (const [key, txGroup] of groups) {
     if (txGroup.length < MIN_OCCURRENCES) continue
     
     // Sort by date
@@ -85,9 +91,10 @@ export function detectRecurring(transactions: Transaction[]): Transaction[] {
       new Date(a.date).getTime() - new Date(b.date).getTime()
     )
     
-    // Check if amounts are similar
+    // Check if amounts are similar (not required within one direct-debit mandate)
     const firstAmount = sorted[0].amount
-    const allSimilarAmount = sorted.every(tx => isAmountSimilar(tx.amount, firstAmount))
+    const allSimilarAmount = key.startsWith(MANDATE_KEY_PREFIX) ||
+      sorted.every(tx => isAmountSimilar(tx.amount, firstAmount))
     if (!allSimilarAmount) continue
     
     // Calculate intervals between transactions
@@ -0,0 +1,111 @@
+import { CategorizationRule, RuleConditions, TextMatch, Transaction } from '../types'
+
+// Evaluation of user-defined categorization rules (stored in the API, run by categorizer.ts)
+
+// Compiled patterns by source; null for patterns that don't compile (they never match)
+const regexCache = new Map<string, RegExp | null>()
+
+function getRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'))
+    } catch {
+      regexCache.set(pattern, null)
+    }
+  }
+  return regexCache.get(pattern)!
+}
+
+function matchesText(text: TextMatch, ...values: Array<string | undefined>): boolean {
+  return values.some(value => {
+    if (!value) return false
+    switch (text.match) {
+      case 'equals':
+        return value.trim().toLowerCase() === text.value.trim().toLowerCase()
+      case 'regex':
+        return getRegex(text.value)?.test(value) ?? false
+      default:
+        return value.toLowerCase().includes(text.value.toLowerCase())
+    }
+  })
+}
+
+// Anonymized IBANs only keep the country code and the last 4 digits ("DE**********1234")
+export function isMaskedIban(iban: string): boolean {
+  return /[*….]/.test(iban)
+}
+
+// A masked IBAN on either side is compared on the parts it keeps
+function matchesIban(ruleIban: string, iban?: string): boolean {
+  if (!iban) return false
+  const normalize = (value: string) => value.replace(/\s/g, '').toUpperCase()
+  const a = normalize(ruleIban)
+  const b = normalize(iban)
+
+  if (isMaskedIban(a) || isMaskedIban(b)) {
+    return a.slice(0, 2) === b.slice(0, 2) && a.slice(-4) === b.slice(-4)
+  }
+  return a === b
+}
+
+// Weekday and day of month of a YYYY-MM-DD date, independent of the local time zone
+function getDateParts(date: string): { weekday: number; day: number } {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return { weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(), day }
+}
+
+export function matchesConditions(tx: Transaction, conditions: RuleConditions): boolean {
+  if (conditions.type && tx.type !== conditions.type) return false
+  if (conditions.minAmount !== undefined && tx.amount < conditions.minAmount) return false
+  if (conditions.maxAmount !== undefined && tx.amount > conditions.maxAmount) return false
+
+  if (conditions.weekdays || conditions.daysOfMonth) {
+    const { weekday, day } = getDateParts(tx.date)
+    if (conditions.weekdays && !conditions.weekdays.includes(weekday)) return false
+    if (conditions.daysOfMonth && !conditions.daysOfMonth.includes(day)) return false
+  }
+
+  if (conditions.iban && !matchesIban(conditions.iban, tx.recipientIban)) return false
+  if (conditions.description && !matchesText(conditions.description, tx.description)) return false
+  if (conditions.recipient && !matchesText(conditions.recipient, tx.recipient, tx.merchant)) return false
+  if (conditions.account && !matchesText(conditions.account, tx.referenceAccount, tx.referenceAccountName)) return false
+  if (conditions.sourceCategory && !matchesText(
+    conditions.sourceCategory,
+    tx.category,
+    tx.subcategory ? `${tx.category}/${tx.subcategory}` : undefined
+  )) return false
+
+  return true
+}
+
+// Highest priority first; equal priorities keep their creation order
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) => b.priority - a.priority || a.id - b.id)
+}
+
+// First enabled rule matching the transaction (rules in evaluation order)
+export function findMatchingRule(tx: Transaction, rules: CategorizationRule[]): CategorizationRule | undefined {
+  return rules.find(rule => rule.enabled && matchesConditions(tx, rule.conditions))
+}
+
+// Whether a rule decides the category itself, or only adds to the built-in categorization
+export function setsCategory(rule: CategorizationRule): boolean {
+  return Boolean(rule.actions.category || rule.actions.markTransfer)
+}
+
+export function applyRuleActions(tx: Transaction, rule: CategorizationRule): Transaction {
+  const { actions } = rule
+  const updated: Transaction = { ...tx, ruleId: rule.id }
+
+  if (actions.markTransfer) {
+    updated.isTransfer = true
+    updated.category = 'Transfer'
+  }
+  if (actions.category) updated.category = actions.category
+  if (setsCategory(rule)) updated.categorySource = 'rule'
+  if (actions.merchant) updated.merchant = actions.merchant
+  if (actions.tags) updated.tags = Array.from(new Set([...(tx.tags || []), ...actions.tags]))
+  if (actions.exclude) updated.isExcluded = true
+
+  return updated
+}
@@ -0,0 +1,51 @@
+import { Transaction, TransactionSplit } from '../types'
+
+// Amount a transaction contributes to one category in summaries
+export interface Allocation {
+  category: string
+  amount: number
+}
+
+// Splits if the transaction has them, otherwise its whole amount in its category
+export function getAllocations(tx: Transaction): Allocation[] {
+  if (tx.splits && tx.splits.length > 0) return tx.splits
+  return [{ category: tx.category || 'Other', amount: tx.amount }]
+}
+
+export function getCategories(tx: Transaction): string[] {
+  return getAllocations(tx).map(a => a.category)
+}
+
+// Problems that keep splits from being saved; empty when they're valid
+export function validateSplits(splits: TransactionSplit[], amount: number): string[] {
+  const errors: string[] = []
+  if (splits.length < 2) {
+    errors.push('Split into at least two parts')
+  }
+  if (splits.some(split => !split.category)) {
+    errors.push('Every part needs a category')
+  }
+  if (splits.some(split => !(split.amount > 0))) {
+    errors.push('Every part needs an amount above 0')
+  }
+
+  const total = splits.reduce((sum, split) => sum + (split.amount || 0), 0)
+  if (Math.abs(total - amount) >= 0.005) {
+    errors.push(`Parts add up to ${total.toFixed(2)} instead of ${amount.toFixed(2)}`)
+  }
+  return errors
+}
+
+// Rescale splits to a converted amount; the last part takes the rounding difference
+export function scaleSplits(splits: TransactionSplit[], from: number, to: number): TransactionSplit[] {
+  if (from === 0) return splits
+
+  let remaining = to
+  return splits.map((split, index) => {
+    const amount = index === splits.length - 1
+      ? Math.round(remaining * 100) / 100
+      : Math.round((split.amount / from) * to * 100) / 100
+    remaining -= amount
+    return { ...split, amount }
+  })
+}
@@ -0,0 +1,60 @@
+import { RawTransaction } from '../types'
+
+// 53-bit string hash (cyrb53) - fast, synchronous and well distributed
+function hashString(input: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed
+  let h2 = 0x41c6ce57 ^ seed
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+function normalizeText(value?: string): string {
+  return (value || '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+// Fields that identify a booking: date, signed amount, own account, counterparty IBAN, reference
+// OFX rows carry a bank-assigned FITID that is unique per account, so that wins when present
+export function getTransactionFingerprint(raw: RawTransaction): string {
+  if (raw.rawData?.FITID) {
+    return ['fitid', normalizeText(raw.referenceAccount), raw.rawData.FITID].join('|')
+  }
+
+  return [
+    raw.date,
+    raw.amount.toFixed(2),
+    normalizeText(raw.referenceAccount),
+    normalizeText(raw.recipientIban).replace(/\s/g, ''),
+    normalizeText(raw.description),
+  ].join('|')
+}
+
+// Generate deterministic IDs from raw (non-anonymized) transactions
+// Genuinely identical bookings get a sequence suffix in file order: tx_abc, tx_abc_2, ...
+// Rows restored from the ledger keep their existing ID and reserve its sequence number
+export function generateTransactionIds(rawTransactions: RawTransaction[]): string[] {
+  const seen = new Map<string, number>()
+
+  for (const raw of rawTransactions) {
+    const match = raw.sourceId?.match(/^tx_([a-z0-9]+)(?:_(\d+))?$/)
+    if (match) {
+      const occurrence = match[2] ? parseInt(match[2], 10) : 1
+      seen.set(match[1], Math.max(seen.get(match[1]) || 0, occurrence))
+    }
+  }
+
+  return rawTransactions.map(raw => {
+    if (raw.sourceId) return raw.sourceId
+
+    const hash = hashString(getTransactionFingerprint(raw))
+    const occurrence = (seen.get(hash) || 0) + 1
+    seen.set(hash, occurrence)
+
+    return occurrence === 1 ? `tx_${hash}` : `tx_${hash}_${occurrence}`
+  })
+}
@@ -11,6 +11,16 @@ export interface RawTransaction {
   referenceAccount?: string;
   referenceAccountName?: string;
   isTransfer?: boolean;
+  balance?: number; // Account balance after this booking, where the export has a balance column
+  valueDate?: string; // Wertstellung/Valuta (YYYY-MM-DD), when it differs from the booking date
+  creditorId?: string; // SEPA creditor identifier (Gläubiger-ID) of a direct debit
+  mandateRef?: string; // SEPA mandate reference - with the creditor ID it identifies a direct-debit contract
+  endToEndId?: string; // SEPA end-to-end reference (EREF, Kundenreferenz)
+  originalAmount?: number; // Amount (unsigned) in originalCurrency when the bank converted a foreign-currency payment
+  originalCurrency?: string;
+  exchangeRate?: number; // Rate the bank applied, as printed in the export
+  transferGroup?: string; // Shared by the legs of one internal movement, e.g. a currency exchange between pockets
+  sourceId?: string; // ID assigned on first import, kept when restored from the ledger
   rawData: Record<string, string>;
 }
 
@@ -22,7 +32,71 @@ export interface Transaction extends RawTransaction {
   recurringFrequency?: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
   isExcluded?: boolean;
   categorySource?: 'rule' | 'ai' | 'manual' | 'learned';
+  ruleId?: number; // User rule that categorized the transaction
+  learnedMapping?: string; // Key of the learned merchant mapping that categorized the transaction
+  tags?: string[];
   doubleBookingMatch?: string; // ID of the matching transaction in a double-booking pair
+  splits?: TransactionSplit[]; // Allocations to several categories, used instead of category in summaries
+  bookedAmount?: number; // Amount as booked, when amount/currency were converted to the base currency
+  bookedCurrency?: string;
+}
+
+// Part of a transaction allocated to its own category; the parts add up to the transaction amount
+export interface TransactionSplit {
+  category: string;
+  amount: number; // Unsigned, like Transaction.amount
+  note?: string;
+}
+
+// Statement-level metadata from structured formats (CAMT, OFX, ...)
+export interface StatementBalance {
+  date: string;
+  amount: number;
+  currency: string;
+}
+
+export interface StatementInfo {
+  id?: string;
+  account?: string;
+  accountName?: string;
+  currency?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  openingBalance?: StatementBalance;
+  closingBalance?: StatementBalance;
+  availableBalance?: StatementBalance;
+  transactionCount: number;
+}
+
+// Manual edit re-applied whenever the same transaction ID is imported again
+export interface TransactionEdit {
+  id: string;
+  category?: string;
+  merchant?: string;
+  isExcluded?: boolean;
+  splits?: TransactionSplit[]; // An empty list removes a split
+}
+
+// Problem found while parsing an import, reviewed before the import is committed
+export interface ImportDiagnostic {
+  kind: 'skipped-row' | 'invalid-date' | 'invalid-amount' | 'zero-amount' | 'ambiguous-amount' | 'unmapped-column' | 'suspicious-sign' | 'balance-mismatch';
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  row?: number; // 1-based data row (below the header)
+  column?: string;
+  value?: string;
+  transaction?: RawTransaction; // The parsed row, or a draft of a skipped row that can be fixed
+  included: boolean; // Whether the row is part of the parsed transactions
+}
+
+// Saved column mapping for a CSV layout we don't recognize, matched by header signature
+export interface BankProfile {
+  name: string;
+  headerSignature: string;
+  columns: Record<string, string>; // CSV header -> RawTransaction field, 'debit'/'credit', or '' to ignore
+  dateFormat: 'auto' | 'DD.MM.YYYY' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+  numberFormat: 'auto' | 'de' | 'en'; // de: 1.234,56 - en: 1,234.56
+  signConvention: 'signed' | 'inverted' | 'debit-credit';
 }
 
 // Anonymization types
@@ -37,6 +111,63 @@ export interface AnonymizedData {
   mappings: AnonymizationMapping[];
 }
 
+// Category taxonomy (managed in the API)
+export type CategoryKind = 'expense' | 'income' | 'savings' | 'investment' | 'transfer';
+
+export interface Category {
+  id: number;
+  name: string;
+  parentId?: number; // One level deep: subcategories of a top-level category
+  kind: CategoryKind;
+  color: string;
+  icon?: string; // Key of CATEGORY_ICONS
+  description?: string; // Hint for AI categorization
+  sortOrder: number;
+  aliases: string[]; // Former names (renames, merges)
+  isSystem: boolean; // Other, Income, Transfer: can't be renamed or removed
+}
+
+export type CategoryInput = Pick<Category, 'name' | 'kind' | 'color'> &
+  Partial<Pick<Category, 'icon' | 'description' | 'sortOrder'>> & { parentId?: number | null };
+
+// User-defined categorization rule (stored in the API); all given conditions must hold
+export interface TextMatch {
+  match: 'contains' | 'equals' | 'regex'; // Case-insensitive
+  value: string;
+}
+
+export interface RuleConditions {
+  description?: TextMatch;
+  recipient?: TextMatch;
+  iban?: string; // Recipient IBAN; also matches the anonymized form (country code + last 4 digits)
+  account?: TextMatch; // Reference account number or name
+  minAmount?: number; // Unsigned, inclusive
+  maxAmount?: number;
+  type?: 'income' | 'expense';
+  weekdays?: number[]; // 0 = Sunday
+  daysOfMonth?: number[]; // 1-31
+  sourceCategory?: TextMatch; // Category/subcategory from the bank export
+}
+
+export interface RuleActions {
+  category?: string;
+  merchant?: string;
+  tags?: string[];
+  exclude?: boolean;
+  markTransfer?: boolean;
+}
+
+export interface CategorizationRule {
+  id: number;
+  name: string;
+  priority: number; // Higher runs first; the first matching rule wins
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id'>;
+
 // Category mapping for export
 export interface CategoryMapping {
   appCategory: string;
@@ -74,6 +205,7 @@ export interface AnalysisSummary {
   categorySummary: CategorySummary[];
   topMerchants: { merchant: string; total: number; count: number }[];
   currency: string;
+  missingRates: string[]; // Currencies without an exchange rate, left out of the totals
 }
 
 // Date range
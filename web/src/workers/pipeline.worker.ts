@@ -0,0 +1,39 @@
+import { parseFileWithMetadata } from '../lib/parser'
+import { processTransactions } from '../lib/process'
+import { setLearnedMappings, setCategoryNames, setUserRules } from '../lib/categorizer'
+import type { PipelineRequest, PipelineResponse } from '../lib/pipeline'
+
+// Runs parsing and processing jobs posted by lib/pipeline.ts, one at a time
+
+function post(message: PipelineResponse) {
+  self.postMessage(message)
+}
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data
+  const { jobId } = request
+
+  try {
+    if (request.type === 'parse') {
+      post({ type: 'progress', jobId, stage: 'parsing', percent: 0 })
+      setCategoryNames(request.categories)
+      const result = await parseFileWithMetadata(request.file, {
+        ...request.options,
+        onProgress: fraction => post({ type: 'progress', jobId, stage: 'parsing', percent: Math.round(fraction * 100) }),
+      })
+      post({ type: 'parsed', jobId, result })
+    } else {
+      setLearnedMappings(request.learnedMappings)
+      setCategoryNames(request.categories)
+      setUserRules(request.rules)
+      const transactions = processTransactions(
+        request.raw,
+        { anonymize: request.anonymize, edits: request.edits },
+        stage => post({ type: 'progress', jobId, stage })
+      )
+      post({ type: 'processed', jobId, transactions })
+    }
+  } catch (err) {
+    post({ type: 'error', jobId, message: err instanceof Error ? err.message : 'Processing failed' })
+  }
+}